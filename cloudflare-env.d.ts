@@ -9,6 +9,15 @@ declare namespace Cloudflare {
 }
 interface CloudflareEnv extends Cloudflare.Env {
   DB: D1Database;
+  DEVICE_HEARTBEAT_MS?: string;
+  DEVICE_OFFLINE_MS?: string;
+  DEVICE_STOPPED_TIMEOUT_MS?: string;
+  RAW_RETENTION_DAYS?: string;
+  ROLLUP_1S_RETENTION_DAYS?: string;
+  ROLLUP_1M_RETENTION_DAYS?: string;
+  READ_TOKEN?: string;
+  ADMIN_TOKEN?: string;
+  AUTH_DISABLED?: string;
 }
 
 // Begin runtime types
@@ -17,11 +17,404 @@ CREATE TABLE unity_data (
   vertical_speed REAL NOT NULL,
   flight_direction REAL NOT NULL,
   ground_distance REAL NOT NULL,
+  -- 上报时声明的坐标系（unity/enu/ned）和单位（JSON），入库数据统一为 ENU 和 m/s、m、度；
+  -- velocity_x/y/z 为东、北、天分量
+  source_frame TEXT NOT NULL DEFAULT 'unity',
+  source_units TEXT,
+  -- 可选的扩展遥测，未上报时为 NULL：电池电压（V）和电量（%）、卫星数、HDOP、
+  -- 信号强度（dBm）、飞行模式、解锁状态（0/1）以及自定义遥测（JSON 对象）
+  battery_voltage REAL,
+  battery_percent REAL,
+  gps_satellites INTEGER,
+  gps_hdop REAL,
+  rssi REAL,
+  flight_mode TEXT,
+  armed INTEGER,
+  extras TEXT,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
+-- 已有数据库需添加列，并把按 Unity 坐标系（y 上、z 北）保存的速度分量转换为 ENU：
+--   ALTER TABLE unity_data ADD COLUMN source_frame TEXT NOT NULL DEFAULT 'unity';
+--   ALTER TABLE unity_data ADD COLUMN source_units TEXT;
+--   UPDATE unity_data SET velocity_y = velocity_z, velocity_z = velocity_y;
+--   UPDATE unity_data_1s SET velocity_y_sum = velocity_z_sum, velocity_z_sum = velocity_y_sum;
+--   UPDATE unity_data_1m SET velocity_y_sum = velocity_z_sum, velocity_z_sum = velocity_y_sum;
+-- 引用 velocity_y / velocity_z 的告警规则也需相应调换
+-- 添加扩展遥测列：
+--   ALTER TABLE unity_data ADD COLUMN battery_voltage REAL;
+--   ALTER TABLE unity_data ADD COLUMN battery_percent REAL;
+--   ALTER TABLE unity_data ADD COLUMN gps_satellites INTEGER;
+--   ALTER TABLE unity_data ADD COLUMN gps_hdop REAL;
+--   ALTER TABLE unity_data ADD COLUMN rssi REAL;
+--   ALTER TABLE unity_data ADD COLUMN flight_mode TEXT;
+--   ALTER TABLE unity_data ADD COLUMN armed INTEGER;
+--   ALTER TABLE unity_data ADD COLUMN extras TEXT;
 
 -- 创建索引以提高查询性能
 CREATE INDEX idx_device_id ON unity_data(device_id);
 CREATE INDEX idx_timestamp ON unity_data(timestamp);
 CREATE INDEX idx_created_at ON unity_data(created_at);
-CREATE INDEX idx_device_timestamp ON unity_data(device_id, timestamp);
\ No newline at end of file
+-- 同一设备同一时间戳只保存一条，设备重发的样本被忽略。
+-- 已有数据库需先删除重复行再重建索引：
+--   DELETE FROM unity_data WHERE id NOT IN (SELECT MIN(id) FROM unity_data GROUP BY device_id, timestamp);
+--   DROP INDEX idx_device_timestamp;
+--   CREATE UNIQUE INDEX idx_device_timestamp ON unity_data(device_id, timestamp);
+CREATE UNIQUE INDEX idx_device_timestamp ON unity_data(device_id, timestamp);
+
+-- 每个设备时间戳最新的一条样本，写入时更新，查询各设备最新数据时无需扫描 unity_data。
+-- 已有数据库需创建该表并从现有数据初始化：
+--   INSERT INTO device_latest (device_id, sample_id, timestamp)
+--   SELECT d.device_id, (
+--     SELECT u.id FROM unity_data u WHERE u.device_id = d.device_id
+--     ORDER BY u.timestamp DESC LIMIT 1
+--   ), MAX(d.timestamp)
+--   FROM unity_data d GROUP BY d.device_id;
+CREATE TABLE device_latest (
+  device_id TEXT PRIMARY KEY,
+  sample_id INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+-- 飞行架次表：由 unity_data 按设备切分得到
+CREATE TABLE flights (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  device_id TEXT NOT NULL,
+  start_time INTEGER NOT NULL,
+  end_time INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  distance REAL NOT NULL,
+  max_altitude REAL NOT NULL,
+  max_speed REAL NOT NULL,
+  sample_count INTEGER NOT NULL,
+  start_latitude REAL NOT NULL,
+  start_longitude REAL NOT NULL,
+  end_latitude REAL NOT NULL,
+  end_longitude REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (device_id, start_time)
+);
+
+CREATE INDEX idx_flights_start_time ON flights(start_time);
+
+
+-- 设备注册表：只保存设备密钥的 SHA-256 哈希
+CREATE TABLE devices (
+  device_id TEXT PRIMARY KEY,
+  api_key_hash TEXT UNIQUE,
+  name TEXT,
+  model TEXT,
+  owner TEXT,
+  color TEXT,
+  notes TEXT,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+-- 已有数据库需添加设备信息列（ADD COLUMN 不支持 CURRENT_TIMESTAMP 默认值，updated_at 取创建时间）：
+--   ALTER TABLE devices ADD COLUMN name TEXT;
+--   ALTER TABLE devices ADD COLUMN model TEXT;
+--   ALTER TABLE devices ADD COLUMN owner TEXT;
+--   ALTER TABLE devices ADD COLUMN color TEXT;
+--   ALTER TABLE devices ADD COLUMN notes TEXT;
+--   ALTER TABLE devices ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1;
+--   ALTER TABLE devices ADD COLUMN updated_at DATETIME;
+--   UPDATE devices SET updated_at = created_at;
+
+
+-- 地理围栏：geometry 为 JSON（多边形 {"polygon": [[lat, lon], ...]}，
+-- 圆形 {"center": [lat, lon], "radius": 米}）
+CREATE TABLE geofences (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  shape TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  geometry TEXT NOT NULL,
+  max_altitude REAL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 围栏违规事件，ended_at 为空表示仍在违规
+CREATE TABLE geofence_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  device_id TEXT NOT NULL,
+  geofence_id INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  started_at INTEGER NOT NULL,
+  ended_at INTEGER,
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  altitude REAL NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_geofence_events_device ON geofence_events(device_id, ended_at);
+CREATE INDEX idx_geofence_events_started_at ON geofence_events(started_at);
+
+
+-- 告警规则：condition 为 field/absolute/operator/threshold，no_data 规则只用 duration_ms
+CREATE TABLE alert_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  field TEXT,
+  absolute INTEGER NOT NULL DEFAULT 0,
+  operator TEXT,
+  threshold REAL,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  device_id TEXT,
+  severity TEXT NOT NULL DEFAULT 'warning',
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 每个规则、设备的求值状态：条件开始满足的时间和上一个样本的值（用于变化率）
+CREATE TABLE alert_rule_states (
+  rule_id INTEGER NOT NULL,
+  device_id TEXT NOT NULL,
+  pending_since INTEGER,
+  last_value REAL,
+  last_timestamp INTEGER,
+  PRIMARY KEY (rule_id, device_id)
+);
+
+-- 告警记录，同一规则和设备同时最多一条未关闭（open/acknowledged）的告警
+CREATE TABLE alerts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  rule_id INTEGER NOT NULL,
+  device_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  severity TEXT NOT NULL,
+  message TEXT NOT NULL,
+  value REAL,
+  triggered_at INTEGER NOT NULL,
+  acknowledged_at INTEGER,
+  resolved_at INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_alerts_device_status ON alerts(device_id, status);
+CREATE INDEX idx_alerts_triggered_at ON alerts(triggered_at);
+
+
+-- Webhook 订阅：events 为 JSON 数组，secret 用于 HMAC-SHA256 签名
+CREATE TABLE webhooks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Webhook 投递记录，pending 的记录由定时任务按 next_attempt_at 重试
+CREATE TABLE webhook_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  webhook_id INTEGER NOT NULL,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at INTEGER,
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);
+
+-- 设备上报状态，用于产生 device.started / device.stopped 事件
+CREATE TABLE device_reporting (
+  device_id TEXT PRIMARY KEY,
+  reporting INTEGER NOT NULL,
+  changed_at INTEGER NOT NULL
+);
+
+
+-- 降采样聚合表：bucket 为桶起始时间（毫秒），保存各字段之和（平均值 = 和 / sample_count）
+-- 以及速度、高度、姿态的最小/最大值，便于增量合并迟到的数据
+-- 按秒聚合
+CREATE TABLE unity_data_1s (
+  device_id TEXT NOT NULL,
+  bucket INTEGER NOT NULL,
+  sample_count INTEGER NOT NULL,
+  latitude_sum REAL NOT NULL,
+  longitude_sum REAL NOT NULL,
+  pitch_sum REAL NOT NULL,
+  yaw_sum REAL NOT NULL,
+  roll_sum REAL NOT NULL,
+  speed_sum REAL NOT NULL,
+  velocity_x_sum REAL NOT NULL,
+  velocity_y_sum REAL NOT NULL,
+  velocity_z_sum REAL NOT NULL,
+  horizontal_speed_sum REAL NOT NULL,
+  vertical_speed_sum REAL NOT NULL,
+  flight_direction_sum REAL NOT NULL,
+  ground_distance_sum REAL NOT NULL,
+  speed_min REAL NOT NULL,
+  speed_max REAL NOT NULL,
+  ground_distance_min REAL NOT NULL,
+  ground_distance_max REAL NOT NULL,
+  pitch_min REAL NOT NULL,
+  pitch_max REAL NOT NULL,
+  yaw_min REAL NOT NULL,
+  yaw_max REAL NOT NULL,
+  roll_min REAL NOT NULL,
+  roll_max REAL NOT NULL,
+  PRIMARY KEY (device_id, bucket)
+);
+
+CREATE INDEX idx_unity_data_1s_bucket ON unity_data_1s(bucket);
+
+-- 按分钟聚合
+CREATE TABLE unity_data_1m (
+  device_id TEXT NOT NULL,
+  bucket INTEGER NOT NULL,
+  sample_count INTEGER NOT NULL,
+  latitude_sum REAL NOT NULL,
+  longitude_sum REAL NOT NULL,
+  pitch_sum REAL NOT NULL,
+  yaw_sum REAL NOT NULL,
+  roll_sum REAL NOT NULL,
+  speed_sum REAL NOT NULL,
+  velocity_x_sum REAL NOT NULL,
+  velocity_y_sum REAL NOT NULL,
+  velocity_z_sum REAL NOT NULL,
+  horizontal_speed_sum REAL NOT NULL,
+  vertical_speed_sum REAL NOT NULL,
+  flight_direction_sum REAL NOT NULL,
+  ground_distance_sum REAL NOT NULL,
+  speed_min REAL NOT NULL,
+  speed_max REAL NOT NULL,
+  ground_distance_min REAL NOT NULL,
+  ground_distance_max REAL NOT NULL,
+  pitch_min REAL NOT NULL,
+  pitch_max REAL NOT NULL,
+  yaw_min REAL NOT NULL,
+  yaw_max REAL NOT NULL,
+  roll_min REAL NOT NULL,
+  roll_max REAL NOT NULL,
+  PRIMARY KEY (device_id, bucket)
+);
+
+CREATE INDEX idx_unity_data_1m_bucket ON unity_data_1m(bucket);
+
+-- 降采样进度：已聚合的 unity_data 最大 id
+CREATE TABLE rollup_state (
+  name TEXT PRIMARY KEY,
+  last_id INTEGER NOT NULL
+);
+
+
+-- 数据质量标记：每个样本每种原因一条，由写入时检查或回填任务产生
+CREATE TABLE data_quality_flags (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  sample_id INTEGER NOT NULL,
+  device_id TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  detail TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (sample_id, reason)
+);
+
+CREATE INDEX idx_data_quality_flags_device ON data_quality_flags(device_id, timestamp);
+CREATE INDEX idx_data_quality_flags_timestamp ON data_quality_flags(timestamp);
+
+
+-- 下发给设备的命令：params 为 JSON，expires_at 前未被设备确认的命令变为 expired
+CREATE TABLE device_commands (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  device_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  params TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  issued_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  delivered_at INTEGER,
+  acknowledged_at INTEGER,
+  completed_at INTEGER,
+  message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_device_commands_device_status ON device_commands(device_id, status);
+CREATE INDEX idx_device_commands_issued_at ON device_commands(issued_at);
+
+-- 命令的审计记录：每次状态变化一条，actor 为 operator / device / system
+CREATE TABLE device_command_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  command_id INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  message TEXT,
+  at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_device_command_events_command ON device_command_events(command_id, at);
+
+
+-- 航线任务：waypoints 为 JSON 数组 [{"latitude", "longitude", "altitude", "speed"}, ...]，
+-- 高度对应 ground_distance（米），速度为到达该航点的计划速度（m/s）；
+-- 与航点水平距离不超过 acceptance_radius（米）视为到达
+CREATE TABLE missions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  waypoints TEXT NOT NULL,
+  acceptance_radius REAL NOT NULL DEFAULT 5,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 任务分配：每台设备同时只有一个 active 的分配，status 为 active / completed / aborted。
+-- next_waypoint 为正在飞往的航点序号；cross_track_* 为偏航距离（米，右侧为正）的当前值和累计统计
+CREATE TABLE mission_assignments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  mission_id INTEGER NOT NULL,
+  device_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  started_at INTEGER NOT NULL,
+  ended_at INTEGER,
+  next_waypoint INTEGER NOT NULL DEFAULT 0,
+  current_leg INTEGER,
+  progress REAL NOT NULL DEFAULT 0,
+  cross_track_error REAL,
+  altitude_error REAL,
+  distance_to_waypoint REAL,
+  max_cross_track_error REAL,
+  cross_track_square_sum REAL NOT NULL DEFAULT 0,
+  tracked_samples INTEGER NOT NULL DEFAULT 0,
+  last_timestamp INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_mission_assignments_device_status ON mission_assignments(device_id, status);
+CREATE INDEX idx_mission_assignments_mission ON mission_assignments(mission_id, status);
+
+-- 任务事件：到达航点、跳过航点（未到达就到达了后一个航点）和任务完成
+CREATE TABLE mission_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  assignment_id INTEGER NOT NULL,
+  device_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  waypoint_index INTEGER,
+  timestamp INTEGER NOT NULL,
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  altitude REAL NOT NULL,
+  -- 事件发生时与航点的水平距离（米）
+  distance REAL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_mission_events_assignment ON mission_events(assignment_id, timestamp);
@@ -0,0 +1,54 @@
+// 本地 Webhook 接收端，用于联调：打印收到的事件并校验签名
+//
+//   WEBHOOK_SECRET=whsec_... PORT=4000 FAIL_FIRST=2 npm run webhook-receiver
+//
+// 然后用 POST /api/webhooks 注册 http://localhost:4000/ 。
+// FAIL_FIRST=n 时前 n 次请求返回 500，可以观察重试和投递日志。
+// 注意 wrangler.jsonc 启用了 global_fetch_strictly_public，Workers 运行时无法访问
+// localhost，请在 npm run dev 下联调。
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = parseInt(process.env.PORT || "4000");
+const secret = process.env.WEBHOOK_SECRET || "";
+let failRemaining = parseInt(process.env.FAIL_FIRST || "0");
+
+function verify(signatureHeader, timestamp, body) {
+  const expected = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  const actual = (signatureHeader || "").replace(/^sha256=/, "");
+  return (
+    actual.length === expected.length &&
+    timingSafeEqual(Buffer.from(actual), Buffer.from(expected))
+  );
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const event = req.headers["x-webhook-event"];
+    const delivery = req.headers["x-webhook-delivery"];
+    const timestamp = req.headers["x-webhook-timestamp"];
+    const signature = secret
+      ? verify(req.headers["x-webhook-signature"], timestamp, body)
+        ? "valid"
+        : "INVALID"
+      : "not checked (WEBHOOK_SECRET unset)";
+
+    console.log(
+      `[${new Date().toISOString()}] ${event} delivery=${delivery} signature=${signature}`
+    );
+    console.log(body);
+
+    if (failRemaining > 0) {
+      failRemaining -= 1;
+      res.writeHead(500).end("simulated failure");
+      return;
+    }
+    res.writeHead(signature === "INVALID" ? 401 : 200).end("ok");
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess } from "../../../../lib/auth";
+import { AlertStore } from "../../../../lib/alerts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 更新告警状态：{ status: "acknowledged" } 确认，{ status: "resolved" } 手动关闭
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { id } = await params;
+    const alertId = parseInt(id);
+    if (!Number.isInteger(alertId) || alertId <= 0) {
+      return NextResponse.json({ error: "Invalid alert id" }, { status: 400 });
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    if (body.status !== "acknowledged" && body.status !== "resolved") {
+      return NextResponse.json(
+        {
+          error: "Invalid alert update",
+          details: [
+            { path: "status", message: "must be acknowledged or resolved" },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const store = new AlertStore(env.DB);
+    const alert = await store.getAlert(alertId);
+    if (!alert) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+
+    const now = Date.now();
+    const updated =
+      body.status === "acknowledged"
+        ? await store.acknowledgeAlert(alertId, now)
+        : await store.resolveAlert(alertId, now);
+    if (!updated) {
+      return NextResponse.json(
+        { error: `Alert is already ${alert.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Alert ${body.status}`,
+      data: await store.getAlert(alertId),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update alert", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
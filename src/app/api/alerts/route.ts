@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import { requireReadAccess } from "../../../lib/auth";
+import { AlertQuery, AlertStore } from "../../../lib/alerts";
+
+// 单次查询的最大告警数
+const MAX_ALERT_LIMIT = 500;
+
+const ALERT_STATUS_FILTERS = ["open", "acknowledged", "resolved", "active"];
+
+// 查询告警记录，status=active 返回 open 和 acknowledged；
+// 查询前先执行一次心跳检查，看板打开时无数据告警不必等定时任务
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId") || undefined;
+    const status = searchParams.get("status") || undefined;
+    if (status && !ALERT_STATUS_FILTERS.includes(status)) {
+      return NextResponse.json(
+        {
+          error: `Invalid status, expected one of ${ALERT_STATUS_FILTERS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_ALERT_LIMIT
+    );
+
+    const store = new AlertStore(env.DB);
+    try {
+      await store.evaluateHeartbeat(Date.now());
+    } catch (error) {
+      console.error("Failed to evaluate heartbeat alerts:", error);
+    }
+
+    const alerts = await store.listAlerts({
+      deviceId,
+      status: status as AlertQuery["status"],
+      limit,
+    });
+
+    return NextResponse.json({
+      data: alerts,
+      deviceId,
+      status,
+      limit,
+      count: alerts.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query alerts", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCloudflareEnv,
+  getErrorMessage,
+} from "../../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../../lib/auth";
+import { AlertStore } from "../../../../../lib/alerts";
+import { validateAlertRuleInput } from "../../../../../lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseRuleId(id: string): number | null {
+  const ruleId = parseInt(id);
+  return Number.isInteger(ruleId) && ruleId > 0 ? ruleId : null;
+}
+
+// 查询单个告警规则
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const ruleId = parseRuleId((await params).id);
+    if (ruleId === null) {
+      return NextResponse.json(
+        { error: "Invalid alert rule id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new AlertStore(env.DB);
+    const rule = await store.getRule(ruleId);
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data: rule });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query alert rule", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 修改告警规则：未提交的字段沿用原值，合并后整体校验
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const ruleId = parseRuleId((await params).id);
+    if (ruleId === null) {
+      return NextResponse.json(
+        { error: "Invalid alert rule id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new AlertStore(env.DB);
+    const existing = await store.getRule(ruleId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    const { data, errors } = validateAlertRuleInput({ ...existing, ...body });
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid alert rule", details: errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Alert rule updated",
+      data: await store.updateRule(ruleId, data),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update alert rule", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 删除告警规则，未关闭的告警随之关闭，历史告警保留
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const ruleId = parseRuleId((await params).id);
+    if (ruleId === null) {
+      return NextResponse.json(
+        { error: "Invalid alert rule id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new AlertStore(env.DB);
+    if (!(await store.deleteRule(ruleId))) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: "Alert rule deleted" });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete alert rule", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../lib/auth";
+import { AlertStore } from "../../../../lib/alerts";
+import { validateAlertRuleInput } from "../../../../lib/validation";
+
+// 查询全部告警规则
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const store = new AlertStore(env.DB);
+    const rules = await store.listRules();
+
+    return NextResponse.json({ data: rules, count: rules.length });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query alert rules", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 新建告警规则（阈值、变化率或无数据规则）
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { data, errors } = validateAlertRuleInput(await request.json());
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid alert rule", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const store = new AlertStore(env.DB);
+    const rule = await store.createRule(data);
+
+    return NextResponse.json(
+      { success: true, message: "Alert rule created", data: rule },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create alert rule", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
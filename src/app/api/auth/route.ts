@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import {
+  getRequestRole,
+  getTokenRole,
+  SESSION_COOKIE,
+} from "../../../lib/auth";
+
+// 看板会话有效期（秒）
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60;
+
+// 查询当前会话的角色
+export async function GET(request: NextRequest) {
+  const env = getCloudflareEnv();
+  if (!env) {
+    return NextResponse.json(
+      { error: "Environment not available" },
+      { status: 500 }
+    );
+  }
+
+  const role = getRequestRole(request, env);
+  return NextResponse.json(
+    { authenticated: role !== null, role },
+    { status: role ? 200 : 401 }
+  );
+}
+
+// 看板登录：校验令牌后写入 HttpOnly Cookie，
+// 这样 EventSource 和下载链接也能携带凭证
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+    if (!env) {
+      return NextResponse.json(
+        { error: "Environment not available" },
+        { status: 500 }
+      );
+    }
+
+    const body: { token?: unknown } = await request.json();
+    const token = typeof body.token === "string" ? body.token.trim() : "";
+    const role = getTokenRole(token, env);
+    if (!role) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true, role });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: true,
+      sameSite: "strict",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in", details: getErrorMessage(error) },
+      { status: 400 }
+    );
+  }
+}
+
+// 退出登录
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
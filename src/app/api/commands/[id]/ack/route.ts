@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCloudflareEnv,
+  getErrorMessage,
+} from "../../../../../lib/cloudflare";
+import { authenticateDevice, isAuthDisabled } from "../../../../../lib/auth";
+import {
+  CommandStore,
+  DEVICE_REPORTED_STATUSES,
+} from "../../../../../lib/commands";
+import { DeviceCommandStatus, FieldError } from "../../../../../types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 回报说明的最大长度
+const MAX_MESSAGE_LENGTH = 500;
+
+const REPORTED_STATUSES = Object.keys(DEVICE_REPORTED_STATUSES);
+
+// 设备回报命令状态：{ status, message }，status 为 acknowledged（已接受）、
+// rejected（拒绝）、completed（完成）或 failed（失败）
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    let authDeviceId: string | null = null;
+    if (!isAuthDisabled(env)) {
+      authDeviceId = await authenticateDevice(request, env.DB);
+      if (!authDeviceId) {
+        return NextResponse.json(
+          { error: "Unauthorized: missing or invalid device API key" },
+          { status: 401 }
+        );
+      }
+    }
+
+    const { id } = await params;
+    const commandId = parseInt(id);
+    if (!Number.isInteger(commandId) || commandId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid command id" },
+        { status: 400 }
+      );
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    const errors: FieldError[] = [];
+    if (
+      typeof body.status !== "string" ||
+      !REPORTED_STATUSES.includes(body.status)
+    ) {
+      errors.push({
+        path: "status",
+        message: `must be one of ${REPORTED_STATUSES.join(", ")}`,
+      });
+    }
+    if (
+      body.message !== undefined &&
+      body.message !== null &&
+      (typeof body.message !== "string" ||
+        body.message.length > MAX_MESSAGE_LENGTH)
+    ) {
+      errors.push({
+        path: "message",
+        message: `must be a string of at most ${MAX_MESSAGE_LENGTH} characters`,
+      });
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid command report", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const store = new CommandStore(env.DB);
+    const command = await store.getCommand(commandId);
+    if (!command) {
+      return NextResponse.json({ error: "Command not found" }, { status: 404 });
+    }
+    if (authDeviceId && command.deviceId !== authDeviceId) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const now = Date.now();
+    await store.expireCommands(now, command.deviceId);
+    const updated = await store.reportStatus(
+      commandId,
+      body.status as DeviceCommandStatus,
+      typeof body.message === "string" ? body.message.trim() || null : null,
+      now
+    );
+    if (!updated) {
+      const current = await store.getCommand(commandId);
+      return NextResponse.json(
+        { error: `Command is already ${current?.status ?? command.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Command ${body.status}`,
+      data: await store.getCommand(commandId),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to report command", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../lib/auth";
+import { CommandStore } from "../../../../lib/commands";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseCommandId(id: string): number | null {
+  const commandId = parseInt(id);
+  return Number.isInteger(commandId) && commandId > 0 ? commandId : null;
+}
+
+// 查询单条命令及其审计记录
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const commandId = parseCommandId((await params).id);
+    if (commandId === null) {
+      return NextResponse.json(
+        { error: "Invalid command id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new CommandStore(env.DB);
+    const existing = await store.getCommand(commandId);
+    if (!existing) {
+      return NextResponse.json({ error: "Command not found" }, { status: 404 });
+    }
+    await store.expireCommands(Date.now(), existing.deviceId);
+
+    return NextResponse.json({
+      data: await store.getCommand(commandId),
+      history: await store.getHistory(commandId),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query command", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 取消命令：{ status: "cancelled" }，只能取消设备尚未确认的命令
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const commandId = parseCommandId((await params).id);
+    if (commandId === null) {
+      return NextResponse.json(
+        { error: "Invalid command id" },
+        { status: 400 }
+      );
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    if (body.status !== "cancelled") {
+      return NextResponse.json(
+        {
+          error: "Invalid command update",
+          details: [{ path: "status", message: "must be cancelled" }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const store = new CommandStore(env.DB);
+    const command = await store.getCommand(commandId);
+    if (!command) {
+      return NextResponse.json({ error: "Command not found" }, { status: 404 });
+    }
+
+    const now = Date.now();
+    await store.expireCommands(now, command.deviceId);
+    if (!(await store.cancelCommand(commandId, now))) {
+      const current = await store.getCommand(commandId);
+      return NextResponse.json(
+        { error: `Command is already ${current?.status ?? command.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Command cancelled",
+      data: await store.getCommand(commandId),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update command", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
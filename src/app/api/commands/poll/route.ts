@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { authenticateDevice, isAuthDisabled } from "../../../../lib/auth";
+import { CommandStore } from "../../../../lib/commands";
+
+// 设备轮询待执行的命令（Authorization: Bearer <设备密钥>）。
+// 未确认的命令每次都会返回，设备按 id 去重并通过 /api/commands/[id]/ack 回报状态；
+// 关闭鉴权时用 deviceId 参数指定设备
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    let deviceId = searchParams.get("deviceId");
+    if (!isAuthDisabled(env)) {
+      const authDeviceId = await authenticateDevice(request, env.DB);
+      if (!authDeviceId) {
+        return NextResponse.json(
+          { error: "Unauthorized: missing or invalid device API key" },
+          { status: 401 }
+        );
+      }
+      if (deviceId && deviceId !== authDeviceId) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      deviceId = authDeviceId;
+    }
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: "deviceId is required" },
+        { status: 400 }
+      );
+    }
+
+    const commands = await new CommandStore(env.DB).takePending(
+      deviceId,
+      Date.now()
+    );
+
+    return NextResponse.json({
+      data: commands,
+      deviceId,
+      count: commands.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to poll commands", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../lib/auth";
+import { CommandQuery, CommandStore } from "../../../lib/commands";
+import { validateCommandInput } from "../../../lib/validation";
+
+// 单次查询的最大命令数
+const MAX_COMMAND_LIMIT = 500;
+
+const COMMAND_STATUS_FILTERS = [
+  "pending",
+  "delivered",
+  "acknowledged",
+  "completed",
+  "failed",
+  "rejected",
+  "expired",
+  "cancelled",
+  "active",
+];
+
+// 查询设备命令，status=active 返回 pending、delivered 和 acknowledged；
+// 查询前先把超时未确认的命令标记为 expired
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId") || undefined;
+    const status = searchParams.get("status") || undefined;
+    if (status && !COMMAND_STATUS_FILTERS.includes(status)) {
+      return NextResponse.json(
+        {
+          error: `Invalid status, expected one of ${COMMAND_STATUS_FILTERS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_COMMAND_LIMIT
+    );
+
+    const store = new CommandStore(env.DB);
+    await store.expireCommands(Date.now(), deviceId);
+    const commands = await store.listCommands({
+      deviceId,
+      status: status as CommandQuery["status"],
+      limit,
+    });
+
+    return NextResponse.json({
+      data: commands,
+      deviceId,
+      status,
+      limit,
+      count: commands.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query commands", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 向设备下发命令：{ deviceId, type, params, timeoutMs }，
+// 设备在轮询或上报遥测的响应中取得命令
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { data, errors } = validateCommandInput(await request.json());
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid command", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const command = await new CommandStore(env.DB).createCommand(
+      data,
+      Date.now()
+    );
+
+    return NextResponse.json(
+      { success: true, message: "Command queued", data: command },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create command", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../lib/auth";
+import { DeviceStore } from "../../../../lib/devices";
+import { validateDeviceInput } from "../../../../lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 查询单个设备的注册信息
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { id } = await params;
+    const store = new DeviceStore(env.DB);
+    const device = await store.getDevice(id);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: device });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query device", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 修改设备信息（改名、停用/启用等）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { id: deviceId } = await params;
+    const { data, errors } = validateDeviceInput(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid device", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const store = new DeviceStore(env.DB);
+    if (!(await store.updateDevice(deviceId, data))) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Device updated",
+      data: await store.getDevice(deviceId),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update device", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 删除设备注册信息，已上报的数据保留
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { id } = await params;
+    const store = new DeviceStore(env.DB);
+    if (!(await store.deleteDevice(id))) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: "Device deleted" });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete device", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
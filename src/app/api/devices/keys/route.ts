@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import {
+  generateApiKey,
+  hashApiKey,
+  requireAdminAccess,
+} from "../../../../lib/auth";
+import { DeviceStore } from "../../../../lib/devices";
+
+// 为设备签发新密钥（会替换旧密钥），明文密钥只在此响应中返回一次
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const body: { deviceId?: unknown } = await request.json();
+    const deviceId =
+      typeof body.deviceId === "string" ? body.deviceId.trim() : "";
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: "deviceId is required" },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = generateApiKey();
+    const store = new DeviceStore(env.DB);
+    await store.setApiKeyHash(deviceId, await hashApiKey(apiKey));
+
+    return NextResponse.json({
+      success: true,
+      message: "API key issued",
+      deviceId,
+      apiKey,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to issue API key", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 吊销设备密钥
+export async function DELETE(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId");
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: "deviceId is required" },
+        { status: 400 }
+      );
+    }
+
+    const store = new DeviceStore(env.DB);
+    await store.setApiKeyHash(deviceId, null);
+
+    return NextResponse.json({
+      success: true,
+      message: "API key revoked",
+      deviceId,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API key", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
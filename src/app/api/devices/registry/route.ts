@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireReadAccess } from "../../../../lib/auth";
+import { DeviceStore } from "../../../../lib/devices";
+
+// 查询所有注册设备（包括从未上报数据的设备）
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const store = new DeviceStore(env.DB);
+    const devices = await store.listDevices();
+
+    return NextResponse.json({
+      data: devices,
+      count: devices.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query devices", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DeviceStatus, HeartbeatThresholds } from "../../../types";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../lib/auth";
+import { validateDeviceInput } from "../../../lib/validation";
+import { DeviceStore } from "../../../lib/devices";
+import {
+  DEFAULT_HEARTBEAT_THRESHOLDS,
+  getDeviceStatus,
+} from "../../../lib/deviceStatus";
+
+// 解析正整数参数，无效时使用默认值
+function parseThreshold(
+  value: string | null | undefined,
+  fallback: number
+): number {
+  const parsed = parseInt(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// 查询每个设备的最新数据及在线状态
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    // 阈值优先取查询参数，其次取环境变量
+    const { searchParams } = new URL(request.url);
+    const heartbeatMs = parseThreshold(
+      searchParams.get("heartbeatMs") || env.DEVICE_HEARTBEAT_MS,
+      DEFAULT_HEARTBEAT_THRESHOLDS.heartbeatMs
+    );
+    const thresholds: HeartbeatThresholds = {
+      heartbeatMs,
+      offlineMs: Math.max(
+        parseThreshold(
+          searchParams.get("offlineMs") || env.DEVICE_OFFLINE_MS,
+          DEFAULT_HEARTBEAT_THRESHOLDS.offlineMs
+        ),
+        heartbeatMs
+      ),
+    };
+
+    const store = new DeviceStore(env.DB);
+    const rows = await store.getLatestPerDevice();
+    const registry = new Map(
+      (await store.listDevices()).map((device) => [device.deviceId, device])
+    );
+    const now = Date.now();
+
+    const counts: Record<DeviceStatus, number> = {
+      online: 0,
+      stale: 0,
+      offline: 0,
+    };
+    const data = rows.map((row) => {
+      const status = getDeviceStatus(row.timestamp, now, thresholds);
+      counts[status] += 1;
+      return {
+        ...row,
+        last_seen: row.timestamp,
+        age_ms: now - row.timestamp,
+        status,
+        device: registry.get(row.device_id) || null,
+      };
+    });
+
+    return NextResponse.json({
+      data,
+      ...thresholds,
+      counts,
+      serverTime: now,
+      count: data.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query devices", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 注册设备（管理员）
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    const deviceId =
+      typeof body.deviceId === "string" ? body.deviceId.trim() : "";
+    const { data, errors } = validateDeviceInput(body);
+    if (!deviceId) {
+      errors.unshift({ path: "deviceId", message: "is required" });
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid device", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const store = new DeviceStore(env.DB);
+    if (!(await store.createDevice(deviceId, data))) {
+      return NextResponse.json(
+        { error: "Device already registered" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Device registered",
+        data: await store.getDevice(deviceId),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to register device", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
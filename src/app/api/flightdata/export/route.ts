@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DroneData } from "../../../../types";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireReadAccess } from "../../../../lib/auth";
+import { EXPORT_FORMATS, isExportFormat } from "../../../../lib/export";
+
+export const dynamic = "force-dynamic";
+
+// 每次从 D1 读取的行数
+const PAGE_SIZE = 1000;
+
+// 按设备和时间范围导出数据，支持 csv / geojson / kml / gpx，
+// 分页读取并以流的形式输出，避免一次性把整个范围载入内存
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+    const db = env.DB;
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId");
+    const startTime = parseInt(searchParams.get("startTime") || "");
+    const endTime = parseInt(searchParams.get("endTime") || "");
+    const formatName = searchParams.get("format") || "csv";
+
+    if (!deviceId || isNaN(startTime) || isNaN(endTime)) {
+      return NextResponse.json(
+        { error: "deviceId, startTime and endTime are required" },
+        { status: 400 }
+      );
+    }
+    if (!isExportFormat(formatName)) {
+      return NextResponse.json(
+        {
+          error: `Unsupported format: ${formatName}`,
+          formats: Object.keys(EXPORT_FORMATS),
+        },
+        { status: 400 }
+      );
+    }
+
+    const format = EXPORT_FORMATS[formatName];
+    const meta = { deviceId, startTime, endTime };
+
+    // 以 (timestamp, id) 为游标分页
+    const stmt = db.prepare(`
+      SELECT * FROM unity_data
+      WHERE device_id = ? AND timestamp >= ? AND timestamp <= ?
+        AND (timestamp > ? OR (timestamp = ? AND id > ?))
+      ORDER BY timestamp ASC, id ASC
+      LIMIT ?
+    `);
+
+    const encoder = new TextEncoder();
+    let cursor = { timestamp: startTime - 1, id: 0 };
+    let index = 0;
+    let finished = false;
+
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode(format.header(meta)));
+      },
+      async pull(controller) {
+        if (finished) {
+          return;
+        }
+        try {
+          const result = await stmt
+            .bind(
+              deviceId,
+              startTime,
+              endTime,
+              cursor.timestamp,
+              cursor.timestamp,
+              cursor.id,
+              PAGE_SIZE
+            )
+            .all();
+          const rows = result.results as unknown as DroneData[];
+
+          const chunk = rows.map((row) => format.row(row, index++)).join("");
+          if (chunk) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+
+          if (rows.length < PAGE_SIZE) {
+            finished = true;
+            controller.enqueue(encoder.encode(format.footer(meta)));
+            controller.close();
+          } else {
+            const last = rows[rows.length - 1];
+            cursor = { timestamp: last.timestamp, id: last.id };
+          }
+        } catch (error) {
+          console.error("Export error:", error);
+          controller.error(error);
+        }
+      },
+    });
+
+    const filename = `${deviceId}_${startTime}_${endTime}.${format.extension}`;
+    return new Response(stream, {
+      headers: {
+        "Content-Type": format.contentType,
+        "Content-Disposition": `attachment; filename="${filename.replace(
+          /[^\w.-]/g,
+          "_"
+        )}"`,
+      },
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to export data", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,320 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CoordinateFrame,
+  FieldError,
+  TelemetryUnits,
+  UnityData,
+} from "../../../../types";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess } from "../../../../lib/auth";
+import {
+  DEFAULT_FLIGHT_OPTIONS,
+  FlightSessionStore,
+} from "../../../../lib/flights";
+import {
+  ColumnMapping,
+  detectFormat,
+  ImportFormat,
+  parseImportFile,
+} from "../../../../lib/importParser";
+import { UnityDataWriter } from "../../../../lib/unityData";
+import { QualityBackfillQuery, QualityStore } from "../../../../lib/quality";
+import { DeviceStore } from "../../../../lib/devices";
+import { validateUnityData } from "../../../../lib/validation";
+import { COORDINATE_FRAMES } from "../../../../lib/units";
+
+// 单个文件允许导入的最大行数
+const MAX_IMPORT_ROWS = 100000;
+// 每次 D1 batch 写入的记录数
+const WRITE_CHUNK_SIZE = 500;
+// 响应中最多列出的被拒绝行
+const MAX_REPORTED_ERRORS = 100;
+// 导入后质量检查每次回填的样本数
+const QUALITY_BACKFILL_LIMIT = 10000;
+
+interface RejectedRow {
+  line: number;
+  errors: FieldError[];
+}
+
+// 按时间顺序重新检查设备在 [start, end] 内的样本质量，返回被标记的数量。
+// 导入的行与已有数据交错，只检查新行会漏掉其前后样本之间的跳变
+async function checkImportedQuality(
+  store: QualityStore,
+  deviceId: string,
+  start: number,
+  end: number
+): Promise<number> {
+  let flagged = 0;
+  let after: QualityBackfillQuery["after"];
+  do {
+    const result = await store.backfill({
+      deviceId,
+      startTime: start,
+      endTime: end,
+      after,
+      limit: QUALITY_BACKFILL_LIMIT,
+    });
+    flagged += result.flagged;
+    after = result.next ?? undefined;
+  } while (after);
+  return flagged;
+}
+
+// 解析整个文件的坐标系和单位参数，单位的取值由逐行校验检查
+function parseSourceOptions(
+  frame: unknown,
+  units: unknown
+): { frame?: CoordinateFrame; units?: Partial<TelemetryUnits> } {
+  const result: { frame?: CoordinateFrame; units?: Partial<TelemetryUnits> } =
+    {};
+  if (typeof frame === "string" && frame) {
+    result.frame = COORDINATE_FRAMES.find((f) => f === frame);
+    if (!result.frame) {
+      throw new Error(`frame must be one of ${COORDINATE_FRAMES.join(", ")}`);
+    }
+  }
+  if (typeof units === "string" && units) {
+    result.units = JSON.parse(units);
+  }
+  return result;
+}
+
+// 读取上传内容：multipart 表单（file/format/mapping/deviceId/frame/units）或直接的请求体
+async function readUpload(request: NextRequest): Promise<{
+  text: string;
+  format: ImportFormat;
+  mapping?: ColumnMapping;
+  deviceId?: string;
+  frame?: CoordinateFrame;
+  units?: Partial<TelemetryUnits>;
+}> {
+  const contentType = request.headers.get("content-type") || "";
+  const { searchParams } = new URL(request.url);
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") {
+      throw new Error("Missing file field");
+    }
+    const text = await file.text();
+    const format = form.get("format");
+    const mapping = form.get("mapping");
+    const deviceId = form.get("deviceId");
+    return {
+      text,
+      format:
+        format === "csv" || format === "ndjson"
+          ? format
+          : detectFormat(text, file.name, file.type),
+      mapping:
+        typeof mapping === "string" && mapping
+          ? JSON.parse(mapping)
+          : undefined,
+      deviceId: typeof deviceId === "string" && deviceId ? deviceId : undefined,
+      ...parseSourceOptions(form.get("frame"), form.get("units")),
+    };
+  }
+
+  const text = await request.text();
+  const format = searchParams.get("format");
+  const mapping = searchParams.get("mapping");
+  return {
+    text,
+    format:
+      format === "csv" || format === "ndjson"
+        ? format
+        : detectFormat(text, "", contentType),
+    mapping: mapping ? JSON.parse(mapping) : undefined,
+    deviceId: searchParams.get("deviceId") || undefined,
+    ...parseSourceOptions(searchParams.get("frame"), searchParams.get("units")),
+  };
+}
+
+// 导入离线记录的 CSV / NDJSON 文件：映射列、逐行校验、
+// 与已有 (device_id, timestamp) 去重后通过 writeBatchData 写入
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    let upload: Awaited<ReturnType<typeof readUpload>>;
+    try {
+      upload = await readUpload(request);
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid upload", details: getErrorMessage(error) },
+        { status: 400 }
+      );
+    }
+
+    const rows = parseImportFile(upload.text, upload);
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "No records found in file" },
+        { status: 400 }
+      );
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        {
+          error: `File too large: ${rows.length} rows (max ${MAX_IMPORT_ROWS})`,
+        },
+        { status: 413 }
+      );
+    }
+
+    // 逐行校验
+    const rejected: RejectedRow[] = [];
+    const candidates: { line: number; data: UnityData }[] = [];
+    for (const row of rows) {
+      const validation =
+        row.record === undefined
+          ? {
+              valid: false as const,
+              errors: [{ path: "", message: "invalid JSON" }],
+            }
+          : validateUnityData(row.record);
+      if (validation.valid) {
+        candidates.push({ line: row.line, data: validation.data });
+      } else {
+        rejected.push({ line: row.line, errors: validation.errors });
+      }
+    }
+
+    // 停用设备的数据不导入
+    const disabledDevices = await new DeviceStore(env.DB).getDisabledDeviceIds(
+      Array.from(new Set(candidates.map(({ data }) => data.deviceId)))
+    );
+    const valid: UnityData[] = [];
+    for (const { line, data } of candidates) {
+      if (disabledDevices.has(data.deviceId)) {
+        rejected.push({
+          line,
+          errors: [{ path: "deviceId", message: "device is disabled" }],
+        });
+      } else {
+        valid.push(data);
+      }
+    }
+    rejected.sort((a, b) => a.line - b.line);
+
+    // 按设备去重：文件内重复和数据库中已存在的记录都跳过
+    const writer = new UnityDataWriter(env.DB);
+    const byDevice = new Map<string, UnityData[]>();
+    for (const data of valid) {
+      const list = byDevice.get(data.deviceId) || [];
+      list.push(data);
+      byDevice.set(data.deviceId, list);
+    }
+
+    const toWrite: UnityData[] = [];
+    let duplicates = 0;
+    for (const [deviceId, list] of byDevice) {
+      // 单次导入可达 MAX_IMPORT_ROWS 行，不能展开为 Math.min/max 的参数
+      let start = list[0].timestamp;
+      let end = list[0].timestamp;
+      for (const data of list) {
+        start = Math.min(start, data.timestamp);
+        end = Math.max(end, data.timestamp);
+      }
+      const seen = await writer.getExistingTimestamps(deviceId, start, end);
+      for (const data of list) {
+        if (seen.has(data.timestamp)) {
+          duplicates += 1;
+        } else {
+          seen.add(data.timestamp);
+          toWrite.push(data);
+        }
+      }
+    }
+
+    for (let i = 0; i < toWrite.length; i += WRITE_CHUNK_SIZE) {
+      await writer.writeBatchData(toWrite.slice(i, i + WRITE_CHUNK_SIZE));
+    }
+
+    // 回填的是历史数据：检查受影响时间范围内的数据质量，并重新切分飞行架次
+    let flagged = 0;
+    if (toWrite.length > 0) {
+      const ranges = new Map<string, { start: number; end: number }>();
+      for (const data of toWrite) {
+        const range = ranges.get(data.deviceId);
+        if (!range) {
+          ranges.set(data.deviceId, {
+            start: data.timestamp,
+            end: data.timestamp,
+          });
+        } else {
+          range.start = Math.min(range.start, data.timestamp);
+          range.end = Math.max(range.end, data.timestamp);
+        }
+      }
+      const quality = new QualityStore(env.DB);
+      const flights = new FlightSessionStore(env.DB);
+      for (const [deviceId, range] of ranges) {
+        try {
+          flagged += await checkImportedQuality(
+            quality,
+            deviceId,
+            range.start,
+            range.end
+          );
+        } catch (error) {
+          console.error("Failed to check data quality:", error);
+        }
+        // 只重建导入范围所在及之后的架次；导入的样本可能与间隔内的前一个架次相连
+        try {
+          await flights.rebuild(
+            deviceId,
+            range.start - DEFAULT_FLIGHT_OPTIONS.gapMs
+          );
+        } catch (error) {
+          console.error("Failed to rebuild flights:", error);
+        }
+      }
+    }
+
+    console.log(
+      "Imported",
+      toWrite.length,
+      "records,",
+      duplicates,
+      "duplicates,",
+      rejected.length,
+      "rejected"
+    );
+
+    return NextResponse.json({
+      success: rejected.length === 0,
+      message: `Imported ${toWrite.length} of ${rows.length} records`,
+      format: upload.format,
+      total: rows.length,
+      accepted: toWrite.length,
+      duplicates,
+      rejected: rejected.length,
+      // 导入范围内被标记质量问题的样本数（含与导入行相邻的已有样本）
+      flagged,
+      errors: rejected.slice(0, MAX_REPORTED_ERRORS),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to import data", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
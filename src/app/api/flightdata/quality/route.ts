@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../lib/auth";
+import { QualityBackfillQuery, QualityStore } from "../../../../lib/quality";
+
+// 汇总的默认时间窗口
+const DEFAULT_SUMMARY_WINDOW_MS = 60 * 60 * 1000;
+// 每次回填默认和最多处理的样本数
+const DEFAULT_BACKFILL_LIMIT = 10000;
+const MAX_BACKFILL_LIMIT = 50000;
+
+// 各设备的数据质量汇总：since（默认最近 1 小时）之后的样本数、被标记的样本数和各原因的次数
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId") || undefined;
+    const sinceParam = searchParams.get("since");
+    const since = sinceParam
+      ? parseInt(sinceParam)
+      : Date.now() - DEFAULT_SUMMARY_WINDOW_MS;
+    if (Number.isNaN(since)) {
+      return NextResponse.json(
+        { error: "since must be a millisecond timestamp" },
+        { status: 400 }
+      );
+    }
+
+    const summaries = await new QualityStore(env.DB).getSummary(
+      since,
+      deviceId
+    );
+
+    return NextResponse.json({
+      data: summaries,
+      since,
+      count: summaries.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to query data quality",
+        details: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 回填：重新检查已有样本并替换其质量标记。
+// 请求体（可选）：{ deviceId, startTime, endTime, after, limit }，
+// 响应中的 next 不为 null 时以其作为 after 再次调用以继续
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const text = await request.text();
+    const body: Record<string, unknown> = text ? JSON.parse(text) : {};
+
+    const { deviceId, startTime, endTime, after } = body;
+    if (deviceId !== undefined && typeof deviceId !== "string") {
+      return NextResponse.json(
+        { error: "deviceId must be a string" },
+        { status: 400 }
+      );
+    }
+    if (
+      (startTime !== undefined && typeof startTime !== "number") ||
+      (endTime !== undefined && typeof endTime !== "number")
+    ) {
+      return NextResponse.json(
+        { error: "startTime and endTime must be millisecond timestamps" },
+        { status: 400 }
+      );
+    }
+    const cursor = after as QualityBackfillQuery["after"] | undefined;
+    if (
+      cursor !== undefined &&
+      (typeof cursor?.deviceId !== "string" ||
+        typeof cursor?.timestamp !== "number")
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "after must be { deviceId, timestamp } from a previous response",
+        },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(
+      Math.max(Number(body.limit) || DEFAULT_BACKFILL_LIMIT, 1),
+      MAX_BACKFILL_LIMIT
+    );
+
+    const result = await new QualityStore(env.DB).backfill({
+      deviceId,
+      startTime,
+      endTime,
+      after: cursor,
+      limit,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to backfill data quality",
+        details: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const writer = vi.hoisted(() => ({
+  writeData: vi.fn(),
+  writeBatchData: vi.fn(),
+  getLatestTimestamps: vi.fn(),
+}));
+
+// 只替换数据库访问，解析、校验和响应格式使用真实实现
+vi.mock("../../../lib/cloudflare", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../lib/cloudflare")>()),
+  getCloudflareEnv: () => ({ DB: {}, AUTH_DISABLED: "true" }),
+  runInBackground: async (task: Promise<unknown>) => {
+    await task;
+  },
+}));
+vi.mock("../../../lib/unityData", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../lib/unityData")>()),
+  UnityDataWriter: vi.fn(() => writer),
+}));
+vi.mock("../../../lib/devices", () => ({
+  DeviceStore: vi.fn(() => ({ getDisabledDeviceIds: async () => new Set() })),
+}));
+vi.mock("../../../lib/webhooks", () => ({
+  WebhookStore: vi.fn(() => ({
+    recordReporting: async () => {},
+    dispatch: async () => {},
+  })),
+}));
+vi.mock("../../../lib/commands", () => ({
+  CommandStore: vi.fn(() => ({ takePending: async () => [] })),
+}));
+vi.mock("../../../lib/quality", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../lib/quality")>()),
+  QualityStore: vi.fn(() => ({ checkSamples: async () => [] })),
+}));
+vi.mock("../../../lib/flights", () => ({
+  FlightSessionStore: vi.fn(() => ({ updateFromSamples: async () => {} })),
+}));
+vi.mock("../../../lib/geofences", () => ({
+  GeofenceStore: vi.fn(() => ({ checkSamples: async () => {} })),
+}));
+vi.mock("../../../lib/alerts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../lib/alerts")>()),
+  AlertStore: vi.fn(() => ({ evaluateSamples: async () => {} })),
+}));
+vi.mock("../../../lib/missions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../lib/missions")>()),
+  MissionStore: vi.fn(() => ({ trackSamples: async () => {} })),
+}));
+
+import { POST } from "./route";
+
+function record(timestamp: number, overrides: Record<string, unknown> = {}) {
+  return {
+    deviceId: "drone-1",
+    formattedTime: new Date(timestamp).toISOString(),
+    timestamp,
+    latitude: 31.2,
+    longitude: 121.5,
+    pitch: 0,
+    yaw: 0,
+    roll: 0,
+    speed: 0,
+    velocity: { x: 0, y: 0, z: 0 },
+    horizontalSpeed: 0,
+    verticalSpeed: 0,
+    flightDirection: 0,
+    groundDistance: 10,
+    ...overrides,
+  };
+}
+
+async function post(body: string, contentType = "application/json") {
+  const response = await POST(
+    new NextRequest("http://localhost/api/flightdata", {
+      method: "POST",
+      body,
+      headers: { "content-type": contentType },
+    })
+  );
+  const json: Record<string, any> = await response.json();
+  return { status: response.status, body: json };
+}
+
+describe("POST /api/flightdata 批量写入", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    writer.getLatestTimestamps.mockResolvedValue(new Map());
+    writer.writeBatchData.mockImplementation(async (records: unknown[]) =>
+      records.map((_, index) => index + 1)
+    );
+  });
+
+  it("JSON 数组在一次 batch 中写入", async () => {
+    const { status, body } = await post(
+      JSON.stringify([record(1000), record(2000)])
+    );
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      total: 2,
+      accepted: 2,
+      inserted: 2,
+      rejected: 0,
+    });
+    expect(writer.writeBatchData).toHaveBeenCalledTimes(1);
+    expect(writer.writeBatchData.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it("解析 NDJSON，跳过空行并把无法解析的行报告为错误", async () => {
+    const { status, body } = await post(
+      `${JSON.stringify(record(1000))}\n\n{not json\n`,
+      "application/x-ndjson"
+    );
+    expect(status).toBe(207);
+    expect(body.total).toBe(2);
+    expect(body.results[1]).toEqual({
+      index: 1,
+      success: false,
+      errors: [{ path: "", message: "invalid JSON" }],
+    });
+  });
+
+  it("逐条报告校验错误，有效记录仍然写入（207）", async () => {
+    const { status, body } = await post(
+      JSON.stringify([record(1000), record(2000, { latitude: 91 })])
+    );
+    expect(status).toBe(207);
+    expect(body).toMatchObject({ success: false, accepted: 1, rejected: 1 });
+    expect(body.results[0]).toMatchObject({ index: 0, success: true });
+    expect(body.results[1]).toMatchObject({
+      index: 1,
+      success: false,
+      deviceId: "drone-1",
+      timestamp: 2000,
+      errors: [{ path: "latitude" }],
+    });
+    expect(writer.writeBatchData.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it("重复的记录计入 accepted 并标记为 duplicate", async () => {
+    writer.writeBatchData.mockResolvedValue([1, null]);
+    const { status, body } = await post(
+      JSON.stringify([record(1000), record(2000)])
+    );
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ accepted: 2, inserted: 1, duplicates: 1 });
+    expect(body.results[1].duplicate).toBe(true);
+  });
+
+  it("全部记录无效时返回 400 且不写入", async () => {
+    const { status, body } = await post(
+      JSON.stringify([record(1000, { speed: -1 })])
+    );
+    expect(status).toBe(400);
+    expect(body.accepted).toBe(0);
+    expect(writer.writeBatchData).not.toHaveBeenCalled();
+  });
+
+  it("拒绝空批次、无效 JSON 和超过上限的批次", async () => {
+    expect((await post("[]")).status).toBe(400);
+    expect((await post("[{")).status).toBe(400);
+
+    const records = Array.from({ length: 1001 }, (_, i) => record(i + 1));
+    const { status, body } = await post(JSON.stringify(records));
+    expect(status).toBe(413);
+    expect(body.error).toContain("max 1000");
+    expect(writer.writeBatchData).not.toHaveBeenCalled();
+  });
+});
@@ -1,145 +1,288 @@
 import { NextRequest, NextResponse } from "next/server";
-import { UnityData } from "../../../types";
-import { getCloudflareContext } from "@opennextjs/cloudflare";
+import {
+  DataResolution,
+  DeviceCommand,
+  FieldError,
+  QualityFilter,
+  UnityData,
+  ValidationResult,
+} from "../../../types";
+import { validateUnityData } from "../../../lib/validation";
+import {
+  getCloudflareEnv,
+  getErrorMessage,
+  runInBackground,
+} from "../../../lib/cloudflare";
+import {
+  authenticateDevice,
+  isAuthDisabled,
+  requireReadAccess,
+} from "../../../lib/auth";
+import { FlightSessionStore } from "../../../lib/flights";
+import {
+  QUALITY_FLAGS_FIELD,
+  SAMPLE_FIELDS,
+  SOURCE_FIELDS,
+  SampleQuery,
+  TELEMETRY_FIELDS,
+  UnityDataWriter,
+} from "../../../lib/unityData";
+import { QualityStore, toQualitySample } from "../../../lib/quality";
+import { decodeCursor, encodeCursor } from "../../../lib/pagination";
+import { DeviceStore } from "../../../lib/devices";
+import { GeofenceStore } from "../../../lib/geofences";
+import { AlertStore } from "../../../lib/alerts";
+import { WebhookStore } from "../../../lib/webhooks";
+import { CommandStore } from "../../../lib/commands";
+import { MissionStore } from "../../../lib/missions";
+import {
+  chooseResolution,
+  getRetentionPolicy,
+  ROLLUP_EXTRA_FIELDS,
+  RollupStore,
+} from "../../../lib/retention";
 
-// 获取 Cloudflare 环境的函数
-function getCloudflareEnv() {
+// 根据新样本更新飞行架次，失败时只记录日志，不影响数据写入
+async function updateFlights(db: D1Database, samples: UnityData[]) {
   try {
-    const context = getCloudflareContext();
-    return context?.env;
+    await new FlightSessionStore(db).updateFromSamples(samples);
   } catch (error) {
-    console.error("Failed to get Cloudflare context:", error);
-    return null;
+    console.error("Failed to update flights:", error);
   }
 }
 
-// 错误处理工具函数
-function getErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+// 检查新样本是否违反地理围栏并记录违规事件，失败时只记录日志
+async function checkGeofences(db: D1Database, samples: UnityData[]) {
+  try {
+    await new GeofenceStore(db).checkSamples(samples);
+  } catch (error) {
+    console.error("Failed to check geofences:", error);
   }
-  return String(error);
 }
 
-// D1数据库操作类
-class UnityDataWriter {
-  private db: D1Database;
-
-  constructor(db: D1Database) {
-    this.db = db;
-  }
-
-  // 写入单条数据
-  async writeData(data: UnityData): Promise<void> {
-    const stmt = this.db.prepare(`
-      INSERT INTO unity_data (
-        device_id, formatted_time, timestamp, latitude, longitude,
-        pitch, yaw, roll, speed, velocity_x, velocity_y, velocity_z,
-        horizontal_speed, vertical_speed, flight_direction, ground_distance
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    await stmt
-      .bind(
-        data.deviceId,
-        data.formattedTime,
-        data.timestamp,
-        data.latitude,
-        data.longitude,
-        data.pitch,
-        data.yaw,
-        data.roll,
-        data.speed,
-        data.velocity.x,
-        data.velocity.y,
-        data.velocity.z,
-        data.horizontalSpeed,
-        data.verticalSpeed,
-        data.flightDirection,
-        data.groundDistance
-      )
-      .run();
-  }
-
-  // 批量写入数据
-  async writeBatchData(dataArray: UnityData[]): Promise<void> {
-    const stmt = this.db.prepare(`
-      INSERT INTO unity_data (
-        device_id, formatted_time, timestamp, latitude, longitude,
-        pitch, yaw, roll, speed, velocity_x, velocity_y, velocity_z,
-        horizontal_speed, vertical_speed, flight_direction, ground_distance
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    // 准备批量操作
-    const statements = dataArray.map((data) =>
-      stmt.bind(
-        data.deviceId,
-        data.formattedTime,
-        data.timestamp,
-        data.latitude,
-        data.longitude,
-        data.pitch,
-        data.yaw,
-        data.roll,
-        data.speed,
-        data.velocity.x,
-        data.velocity.y,
-        data.velocity.z,
-        data.horizontalSpeed,
-        data.verticalSpeed,
-        data.flightDirection,
-        data.groundDistance
-      )
+// 对新样本求值告警规则，失败时只记录日志
+async function evaluateAlerts(db: D1Database, samples: UnityData[]) {
+  try {
+    await new AlertStore(db).evaluateSamples(samples);
+  } catch (error) {
+    console.error("Failed to evaluate alerts:", error);
+  }
+}
+
+// 用新样本推进设备正在执行的航线任务，失败时只记录日志
+async function trackMissions(db: D1Database, samples: UnityData[]) {
+  try {
+    await new MissionStore(db).trackSamples(samples);
+  } catch (error) {
+    console.error("Failed to track missions:", error);
+  }
+}
+
+// 检查新样本的数据质量并保存标记，失败时只记录日志
+async function checkQuality(
+  db: D1Database,
+  samples: UnityData[],
+  ids: number[]
+) {
+  try {
+    await new QualityStore(db).checkSamples(
+      samples.map((sample, index) => toQualitySample(sample, ids[index]))
     );
+  } catch (error) {
+    console.error("Failed to check data quality:", error);
+  }
+}
+
+// 取出下发给设备的命令附在响应中，失败时只记录日志。
+// 关闭鉴权时只有请求中的记录都属于同一设备才下发
+async function takeCommands(
+  db: D1Database,
+  authDeviceId: string | null,
+  samples: UnityData[]
+): Promise<DeviceCommand[]> {
+  const deviceIds = new Set(samples.map((sample) => sample.deviceId));
+  const deviceId =
+    authDeviceId ?? (deviceIds.size === 1 ? [...deviceIds][0] : null);
+  if (!deviceId) {
+    return [];
+  }
+  try {
+    return await new CommandStore(db).takePending(deviceId, Date.now());
+  } catch (error) {
+    console.error("Failed to load device commands:", error);
+    return [];
+  }
+}
 
-    // 执行批量操作
-    await this.db.batch(statements);
+// 新写入样本的后续处理：质量检查和飞行架次使用全部新样本；
+// 围栏、告警和航线任务只处理比设备已有数据更新的样本，补传的旧样本不会触发实时事件。
+// 各项处理都是先读后写，在请求内按顺序完成后再返回，避免同一设备的处理相互交错。
+// 返回这些实时样本
+async function processInserted(
+  db: D1Database,
+  samples: UnityData[],
+  ids: number[],
+  latest: Map<string, number>
+): Promise<UnityData[]> {
+  await checkQuality(db, samples, ids);
+  await updateFlights(db, samples);
+  const live = samples.filter(
+    (sample) => sample.timestamp > (latest.get(sample.deviceId) ?? -Infinity)
+  );
+  if (live.length > 0) {
+    await checkGeofences(db, live);
+    await evaluateAlerts(db, live);
+    await trackMissions(db, live);
   }
+  return live;
+}
+
+// GET 支持的 resolution 参数
+const RESOLUTION_PARAMS = ["raw", "1s", "1m", "auto"];
+// GET 支持的 quality 参数
+const QUALITY_PARAMS: QualityFilter[] = ["all", "clean", "flagged"];
 
-  // 查询最新数据
-  async getLatestData(deviceId: string, limit: number = 10): Promise<any[]> {
-    const stmt = this.db.prepare(`
-      SELECT * FROM unity_data 
-      WHERE device_id = ? 
-      ORDER BY timestamp DESC 
-      LIMIT ?
-    `);
+// GET 的分页大小：查询最新数据默认 10 条，按时间范围查询默认 1000 条，最多 5000 条
+const DEFAULT_PAGE_SIZE = 10;
+const DEFAULT_RANGE_PAGE_SIZE = 1000;
+const MAX_PAGE_SIZE = 5000;
 
-    const result = await stmt.bind(deviceId, limit).all();
-    return result.results;
+// 单次请求允许的最大记录数
+const MAX_BATCH_SIZE = 1000;
+// ingestion.rejected 事件中附带的最大记录数
+const MAX_REJECTED_IN_WEBHOOK = 20;
+
+// 单条记录的处理结果
+interface RecordResult {
+  index: number;
+  success: boolean;
+  deviceId?: string;
+  timestamp?: number;
+  // 同一设备已有相同时间戳的样本，本条被忽略
+  duplicate?: boolean;
+  errors?: FieldError[];
+}
+
+type RejectionReason = "invalid_body" | "batch_too_large" | "invalid_records";
+
+// 在响应返回后触发 Webhook：设备开始上报（device.started）和数据被拒绝（ingestion.rejected）
+function notifyWebhooks(
+  db: D1Database,
+  authDeviceId: string | null,
+  accepted: UnityData[],
+  rejection?: {
+    reason: RejectionReason;
+    total: number;
+    records: RecordResult[];
   }
+) {
+  return runInBackground(
+    (async () => {
+      const store = new WebhookStore(db);
+      if (accepted.length > 0) {
+        await store.recordReporting(accepted);
+      }
+      if (rejection) {
+        await store.dispatch("ingestion.rejected", {
+          reason: rejection.reason,
+          authDeviceId,
+          total: rejection.total,
+          rejected: rejection.records.length || rejection.total,
+          records: rejection.records.slice(0, MAX_REJECTED_IN_WEBHOOK),
+        });
+      }
+    })()
+  );
+}
+
+// 解析请求体：支持单个对象、JSON 数组和 NDJSON（每行一个 JSON 对象）
+// 返回 isBatch 用于区分单条写入和批量写入的响应格式
+async function parseRequestBody(
+  request: NextRequest
+): Promise<{ records: unknown[]; isBatch: boolean }> {
+  const contentType = request.headers.get("content-type") || "";
+  const text = await request.text();
 
-  // 查询所有设备的最新数据
-  async getAllLatestData(limit: number = 10): Promise<any[]> {
-    const stmt = this.db.prepare(`
-      SELECT * FROM unity_data 
-      ORDER BY timestamp DESC 
-      LIMIT ?
-    `);
+  if (
+    contentType.includes("application/x-ndjson") ||
+    contentType.includes("application/ndjson")
+  ) {
+    const records = text
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          // 保留解析失败的行，由校验阶段报告错误
+          return undefined;
+        }
+      });
+    return { records, isBatch: true };
+  }
 
-    const result = await stmt.bind(limit).all();
-    return result.results;
+  const body = JSON.parse(text);
+  if (Array.isArray(body)) {
+    return { records: body, isBatch: true };
   }
+  return { records: [body], isBatch: false };
+}
 
-  // 根据时间范围查询数据
-  async getDataByTimeRange(
-    deviceId: string,
-    startTime: number,
-    endTime: number
-  ): Promise<any[]> {
-    const stmt = this.db.prepare(`
-      SELECT * FROM unity_data 
-      WHERE device_id = ? AND timestamp >= ? AND timestamp <= ?
-      ORDER BY timestamp ASC
-    `);
+// 记录的 deviceId 与认证设备不一致时的错误信息
+const DEVICE_MISMATCH_MESSAGE = "does not match the authenticated device";
+// 设备已停用时的错误信息
+const DEVICE_DISABLED_MESSAGE = "device is disabled";
 
-    const result = await stmt.bind(deviceId, startTime, endTime).all();
-    return result.results;
+// 写入权限相关的校验上下文
+interface IngestContext {
+  // 认证的设备；为 null 时不限制 deviceId（鉴权关闭）
+  authDeviceId: string | null;
+  // 已停用的设备
+  disabledDevices: Set<string>;
+}
+
+// 校验单条记录；NDJSON 中解析失败的行以 undefined 表示。
+// 记录的 deviceId 必须与认证的设备一致，且设备未被停用
+function validateRecord(
+  record: unknown,
+  context: IngestContext
+): ValidationResult {
+  if (record === undefined) {
+    return { valid: false, errors: [{ path: "", message: "invalid JSON" }] };
+  }
+  const validation = validateUnityData(record);
+  if (!validation.valid) {
+    return validation;
+  }
+  const { deviceId } = validation.data;
+  if (context.authDeviceId !== null && deviceId !== context.authDeviceId) {
+    return {
+      valid: false,
+      errors: [{ path: "deviceId", message: DEVICE_MISMATCH_MESSAGE }],
+    };
   }
+  if (context.disabledDevices.has(deviceId)) {
+    return {
+      valid: false,
+      errors: [{ path: "deviceId", message: DEVICE_DISABLED_MESSAGE }],
+    };
+  }
+  return validation;
 }
 
-export async function POST(request: NextRequest, context: { params: any }) {
+// 请求中出现的所有 deviceId（未校验）
+function collectDeviceIds(records: unknown[]): string[] {
+  const ids = new Set<string>();
+  for (const record of records) {
+    const deviceId = (record as Partial<UnityData> | undefined)?.deviceId;
+    if (typeof deviceId === "string" && deviceId.trim() !== "") {
+      ids.add(deviceId.trim());
+    }
+  }
+  return Array.from(ids);
+}
+
+export async function POST(request: NextRequest) {
   try {
     const env = getCloudflareEnv();
 
@@ -152,33 +295,235 @@ export async function POST(request: NextRequest, context: { params: any }) {
       );
     }
 
-    const data: UnityData = await request.json();
-
-    console.log("Received data:", data.deviceId, "at", data.formattedTime);
+    // 设备认证：Authorization: Bearer <设备密钥>
+    let authDeviceId: string | null = null;
+    if (!isAuthDisabled(env)) {
+      authDeviceId = await authenticateDevice(request, env.DB);
+      if (!authDeviceId) {
+        return NextResponse.json(
+          { error: "Unauthorized: missing or invalid device API key" },
+          { status: 401 }
+        );
+      }
+    }
 
-    // 数据验证
-    if (!data.deviceId || !data.timestamp) {
+    let parsed: { records: unknown[]; isBatch: boolean };
+    try {
+      parsed = await parseRequestBody(request);
+    } catch (error) {
+      await notifyWebhooks(env.DB, authDeviceId, [], {
+        reason: "invalid_body",
+        total: 0,
+        records: [],
+      });
       return NextResponse.json(
-        { error: "Invalid data format: missing deviceId or timestamp" },
+        { error: "Invalid JSON body", details: getErrorMessage(error) },
         { status: 400 }
       );
     }
 
-    // 直接写入D1数据库
     const writer = new UnityDataWriter(env.DB);
-    await writer.writeData(data);
+    const ingestContext: IngestContext = {
+      authDeviceId,
+      disabledDevices: await new DeviceStore(env.DB).getDisabledDeviceIds(
+        collectDeviceIds(parsed.records)
+      ),
+    };
 
-    console.log("Successfully wrote record to D1");
+    // 单条数据：保持原有的请求/响应格式
+    if (!parsed.isBatch) {
+      // 数据验证：返回所有出错的字段路径
+      const validation = validateRecord(parsed.records[0], ingestContext);
+      if (!validation.valid) {
+        const record = parsed.records[0] as Partial<UnityData> | undefined;
+        await notifyWebhooks(env.DB, authDeviceId, [], {
+          reason: "invalid_records",
+          total: 1,
+          records: [
+            {
+              index: 0,
+              success: false,
+              deviceId:
+                typeof record?.deviceId === "string"
+                  ? record.deviceId
+                  : undefined,
+              timestamp:
+                typeof record?.timestamp === "number"
+                  ? record.timestamp
+                  : undefined,
+              errors: validation.errors,
+            },
+          ],
+        });
+        const forbidden = validation.errors.some(
+          (e) =>
+            e.message === DEVICE_MISMATCH_MESSAGE ||
+            e.message === DEVICE_DISABLED_MESSAGE
+        );
+        return NextResponse.json(
+          {
+            error: forbidden ? "Forbidden" : "Invalid data format",
+            details: validation.errors,
+          },
+          { status: forbidden ? 403 : 400 }
+        );
+      }
+      const data = validation.data;
 
-    return NextResponse.json({
-      success: true,
-      message: "Data saved successfully",
-      data: {
-        deviceId: data.deviceId,
-        timestamp: data.timestamp,
-        formattedTime: data.formattedTime,
-      },
+      console.log("Received data:", data.deviceId, "at", data.formattedTime);
+
+      // 直接写入D1数据库；重发的样本（相同设备和时间戳）被忽略，仍返回成功
+      const latest = await writer.getLatestTimestamps([data.deviceId]);
+      const id = await writer.writeData(data);
+      if (id !== null) {
+        const live = await processInserted(env.DB, [data], [id], latest);
+        await notifyWebhooks(env.DB, authDeviceId, live);
+        console.log("Successfully wrote record to D1");
+      } else {
+        console.log("Ignored duplicate record:", data.deviceId, data.timestamp);
+      }
+
+      return NextResponse.json({
+        success: true,
+        message:
+          id !== null ? "Data saved successfully" : "Duplicate data ignored",
+        duplicate: id === null,
+        data: {
+          deviceId: data.deviceId,
+          timestamp: data.timestamp,
+          formattedTime: data.formattedTime,
+        },
+        // 待执行的命令，设备执行后通过 /api/commands/[id]/ack 回报
+        commands: await takeCommands(env.DB, authDeviceId, [data]),
+      });
+    }
+
+    // 批量数据
+    const { records } = parsed;
+
+    if (records.length === 0) {
+      return NextResponse.json(
+        { error: "Empty batch: no records to save" },
+        { status: 400 }
+      );
+    }
+
+    if (records.length > MAX_BATCH_SIZE) {
+      await notifyWebhooks(env.DB, authDeviceId, [], {
+        reason: "batch_too_large",
+        total: records.length,
+        records: [],
+      });
+      return NextResponse.json(
+        {
+          error: `Batch too large: ${records.length} records (max ${MAX_BATCH_SIZE})`,
+        },
+        { status: 413 }
+      );
+    }
+
+    console.log("Received batch of", records.length, "records");
+
+    // 逐条校验，只把有效记录放入批量写入
+    const results: RecordResult[] = [];
+    const validRecords: UnityData[] = [];
+
+    records.forEach((record, index) => {
+      const validation = validateRecord(record, ingestContext);
+      if (!validation.valid) {
+        const data = record as Partial<UnityData> | undefined;
+        results.push({
+          index,
+          success: false,
+          deviceId:
+            typeof data?.deviceId === "string" ? data.deviceId : undefined,
+          timestamp:
+            typeof data?.timestamp === "number" ? data.timestamp : undefined,
+          errors: validation.errors,
+        });
+      } else {
+        validRecords.push(validation.data);
+        results.push({
+          index,
+          success: true,
+          deviceId: validation.data.deviceId,
+          timestamp: validation.data.timestamp,
+        });
+      }
     });
+
+    // 所有有效记录在一次 D1 batch 中提交，重复的记录由唯一索引忽略
+    const inserted: UnityData[] = [];
+    const insertedIds: number[] = [];
+    let live: UnityData[] = [];
+    if (validRecords.length > 0) {
+      const latest = await writer.getLatestTimestamps(
+        Array.from(new Set(validRecords.map((data) => data.deviceId)))
+      );
+      const ids = await writer.writeBatchData(validRecords);
+      const validResults = results.filter((result) => result.success);
+      ids.forEach((id, index) => {
+        if (id === null) {
+          validResults[index].duplicate = true;
+        } else {
+          inserted.push(validRecords[index]);
+          insertedIds.push(id);
+        }
+      });
+      if (inserted.length > 0) {
+        live = await processInserted(env.DB, inserted, insertedIds, latest);
+      }
+      console.log(
+        "Successfully wrote",
+        inserted.length,
+        "records to D1,",
+        validRecords.length - inserted.length,
+        "duplicates ignored"
+      );
+    }
+
+    const accepted = validRecords.length;
+    const duplicates = accepted - inserted.length;
+    const rejected = records.length - accepted;
+
+    await notifyWebhooks(
+      env.DB,
+      authDeviceId,
+      live,
+      rejected > 0
+        ? {
+            reason: "invalid_records",
+            total: records.length,
+            records: results.filter((result) => !result.success),
+          }
+        : undefined
+    );
+
+    return NextResponse.json(
+      {
+        success: rejected === 0,
+        message:
+          rejected === 0
+            ? duplicates === 0
+              ? "Batch saved successfully"
+              : `Saved ${inserted.length} new records, ignored ${duplicates} duplicates`
+            : `Saved ${accepted} of ${records.length} records`,
+        total: records.length,
+        // accepted = inserted + duplicates
+        accepted,
+        inserted: inserted.length,
+        duplicates,
+        rejected,
+        results,
+        // 整批被拒绝（400）时不取出命令，避免设备丢弃响应后命令被标记为已下发
+        commands:
+          accepted > 0
+            ? await takeCommands(env.DB, authDeviceId, validRecords)
+            : [],
+      },
+      // 全部失败返回 400，部分失败返回 207
+      { status: accepted === 0 ? 400 : rejected > 0 ? 207 : 200 }
+    );
   } catch (error) {
     console.error("API error:", error);
     return NextResponse.json(
@@ -200,46 +545,166 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
     const { searchParams } = new URL(request.url);
-    const deviceId = searchParams.get("deviceId");
-    const limit = parseInt(searchParams.get("limit") || "10");
+    const deviceId = searchParams.get("deviceId") || undefined;
     const startTime = searchParams.get("startTime");
     const endTime = searchParams.get("endTime");
+    const hasRange = Boolean(startTime && endTime);
 
-    const writer = new UnityDataWriter(env.DB);
+    // 分辨率：raw（默认）、1s、1m 或 auto，聚合数据需要指定设备和时间范围
+    const resolutionParam = searchParams.get("resolution") || "raw";
+    if (!RESOLUTION_PARAMS.includes(resolutionParam)) {
+      return NextResponse.json(
+        {
+          error: `Invalid resolution, expected one of ${RESOLUTION_PARAMS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (resolutionParam !== "raw" && !(deviceId && hasRange)) {
+      return NextResponse.json(
+        { error: "resolution requires deviceId, startTime and endTime" },
+        { status: 400 }
+      );
+    }
+    const start = startTime ? parseInt(startTime) : undefined;
+    const end = endTime ? parseInt(endTime) : undefined;
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      return NextResponse.json(
+        { error: "startTime and endTime must be millisecond timestamps" },
+        { status: 400 }
+      );
+    }
+    const resolution: DataResolution =
+      resolutionParam === "auto"
+        ? chooseResolution(start!, end!, Date.now(), getRetentionPolicy(env))
+        : (resolutionParam as DataResolution);
 
-    // 根据参数查询不同类型的数据
-    if (deviceId && startTime && endTime) {
-      // 按时间范围查询
-      const data = await writer.getDataByTimeRange(
-        deviceId,
-        parseInt(startTime),
-        parseInt(endTime)
+    // 按时间范围查询默认升序，查询最新数据默认降序
+    const order = searchParams.get("order") || (hasRange ? "asc" : "desc");
+    if (order !== "asc" && order !== "desc") {
+      return NextResponse.json(
+        { error: "Invalid order, expected asc or desc" },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(
+        parseInt(searchParams.get("limit") || "") ||
+          (hasRange ? DEFAULT_RANGE_PAGE_SIZE : DEFAULT_PAGE_SIZE),
+        1
+      ),
+      MAX_PAGE_SIZE
+    );
+
+    // 质量过滤：all（默认）、clean 或 flagged；聚合数据本身不包含有标记的样本
+    const quality = (searchParams.get("quality") || "all") as QualityFilter;
+    if (!QUALITY_PARAMS.includes(quality)) {
+      return NextResponse.json(
+        {
+          error: `Invalid quality, expected one of ${QUALITY_PARAMS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    // 聚合数据只包含未被标记的样本，无法返回有标记的样本
+    if (quality === "flagged" && resolution !== "raw") {
+      return NextResponse.json(
+        { error: "quality=flagged requires raw resolution" },
+        { status: 400 }
+      );
+    }
+
+    // 按飞行模式和解锁状态过滤，聚合数据不包含这些通道
+    const flightMode = searchParams.get("flightMode") || undefined;
+    const armedParam = searchParams.get("armed");
+    if (
+      armedParam !== null &&
+      armedParam !== "true" &&
+      armedParam !== "false"
+    ) {
+      return NextResponse.json(
+        { error: "Invalid armed, expected true or false" },
+        { status: 400 }
       );
-      return NextResponse.json({
-        data,
-        deviceId,
-        timeRange: { startTime, endTime },
-        count: data.length,
-      });
-    } else if (deviceId) {
-      // 按设备ID查询最新数据
-      const data = await writer.getLatestData(deviceId, limit);
-      return NextResponse.json({
-        data,
-        deviceId,
-        limit,
-        count: data.length,
-      });
-    } else {
-      // 查询所有设备的最新数据
-      const data = await writer.getAllLatestData(limit);
-      return NextResponse.json({
-        data,
-        limit,
-        count: data.length,
-      });
     }
+    if ((flightMode || armedParam !== null) && resolution !== "raw") {
+      return NextResponse.json(
+        { error: "flightMode and armed filters require raw resolution" },
+        { status: 400 }
+      );
+    }
+
+    const cursorParam = searchParams.get("cursor");
+    const after = cursorParam ? decodeCursor(cursorParam) : undefined;
+    if (after === null) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    const allowedFields =
+      resolution === "raw"
+        ? [
+            ...SAMPLE_FIELDS,
+            ...SOURCE_FIELDS,
+            ...TELEMETRY_FIELDS,
+            QUALITY_FLAGS_FIELD,
+          ]
+        : [...SAMPLE_FIELDS, ...ROLLUP_EXTRA_FIELDS];
+    const fields = (searchParams.get("fields") || "")
+      .split(",")
+      .map((field) => field.trim())
+      .filter(Boolean);
+    const unknownFields = fields.filter(
+      (field) => !allowedFields.includes(field)
+    );
+    if (unknownFields.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Unknown fields: ${unknownFields.join(", ")}`,
+          allowedFields,
+        },
+        { status: 400 }
+      );
+    }
+
+    const query: SampleQuery = {
+      deviceId,
+      startTime: start,
+      endTime: end,
+      order,
+      limit,
+      after,
+      fields,
+      quality,
+      flightMode,
+      armed: armedParam === null ? undefined : armedParam === "true",
+    };
+    const page =
+      resolution === "raw"
+        ? await new UnityDataWriter(env.DB).querySamples(query)
+        : await new RollupStore(env.DB).getRollups(resolution, {
+            ...query,
+            deviceId: deviceId!,
+          });
+
+    return NextResponse.json({
+      data: page.rows,
+      deviceId,
+      ...(hasRange ? { timeRange: { startTime, endTime } } : {}),
+      resolution,
+      quality,
+      order,
+      limit,
+      count: page.rows.length,
+      // 下一页游标，为 null 表示没有更多数据
+      next: page.next ? encodeCursor(page.next) : null,
+    });
   } catch (error) {
     console.error("API error:", error);
     return NextResponse.json(
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireReadAccess } from "../../../../lib/auth";
+import { Cursor } from "../../../../lib/pagination";
+import { UnityDataWriter } from "../../../../lib/unityData";
+import {
+  FlightStatsAccumulator,
+  StatsSample,
+  STATS_FIELDS,
+} from "../../../../lib/stats";
+
+// 每次从 D1 读取的行数，以及单次统计最多处理的样本数
+const PAGE_SIZE = 5000;
+const MAX_STATS_SAMPLES = 200000;
+// 加速度/加加速度序列最多返回的点数
+const MAX_SERIES_POINTS = 2000;
+
+// 计算设备在时间范围内的衍生统计（距离、速度、爬升/下降、空中时间、加速度等），
+// 有质量标记的样本不参与统计；includeSeries=true 时附带加速度/加加速度序列
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId");
+    const startTime = parseInt(searchParams.get("startTime") || "");
+    const endTime = parseInt(searchParams.get("endTime") || "");
+    const includeSeries = searchParams.get("includeSeries") === "true";
+
+    if (!deviceId || isNaN(startTime) || isNaN(endTime)) {
+      return NextResponse.json(
+        { error: "deviceId, startTime and endTime are required" },
+        { status: 400 }
+      );
+    }
+
+    // 按 (timestamp, id) 游标逐页读取，增量累计
+    const writer = new UnityDataWriter(env.DB);
+    const accumulator = new FlightStatsAccumulator(deviceId, includeSeries);
+    let after: Cursor | undefined;
+    let processed = 0;
+    let truncated = false;
+
+    while (true) {
+      const page = await writer.querySamples({
+        deviceId,
+        startTime,
+        endTime,
+        order: "asc",
+        limit: PAGE_SIZE,
+        after,
+        fields: STATS_FIELDS,
+        quality: "clean",
+      });
+      for (const row of page.rows as StatsSample[]) {
+        accumulator.add(row);
+      }
+      processed += page.rows.length;
+      if (!page.next) break;
+      if (processed >= MAX_STATS_SAMPLES) {
+        truncated = true;
+        break;
+      }
+      after = page.next;
+    }
+
+    return NextResponse.json({
+      data: accumulator.getStats(),
+      ...(includeSeries
+        ? { series: accumulator.getSeries(MAX_SERIES_POINTS) }
+        : {}),
+      deviceId,
+      timeRange: { startTime, endTime },
+      // 样本数超过上限时只统计了范围开头的部分
+      truncated,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to compute stats", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
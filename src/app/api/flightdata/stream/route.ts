@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireReadAccess } from "../../../../lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// 服务端检查新数据的间隔（毫秒）：有新数据时为最小值，
+// 连续查询不到新数据时逐次加倍直到最大值，减少空闲连接对 D1 的查询
+const MIN_POLL_INTERVAL = 1000;
+const MAX_POLL_INTERVAL = 8000;
+// 心跳间隔，防止代理断开空闲连接
+const HEARTBEAT_INTERVAL = 15000;
+// 单个连接的最长持续时间，到期后由客户端按 Last-Event-ID 自动重连
+const MAX_STREAM_DURATION = 5 * 60 * 1000;
+// 客户端重连等待时间
+const RETRY_DELAY = 2000;
+// 每次查询返回的最大行数
+const BATCH_LIMIT = 500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// 以 SSE 推送新写入的 UnityData 样本。
+// 每条事件的 id 为 unity_data 的行 id（写入顺序），断线重连时通过
+// Last-Event-ID 或 after 参数从上次位置继续；首次连接可用 since
+// 指定起始时间戳，否则只推送连接之后写入的数据。
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+    const db = env.DB;
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId");
+    const since = searchParams.get("since");
+    const after =
+      request.headers.get("last-event-id") || searchParams.get("after");
+
+    const deviceFilter = deviceId ? "AND device_id = ?" : "";
+    const deviceParams = deviceId ? [deviceId] : [];
+
+    // 确定起始游标
+    let cursor: number;
+    if (after && !isNaN(parseInt(after))) {
+      cursor = parseInt(after);
+    } else if (since && !isNaN(parseInt(since))) {
+      const row = await db
+        .prepare(
+          `SELECT MIN(id) AS id FROM unity_data WHERE timestamp > ? ${deviceFilter}`
+        )
+        .bind(parseInt(since), ...deviceParams)
+        .first<{ id: number | null }>();
+      cursor = row?.id != null ? row.id - 1 : await getMaxId(db);
+    } else {
+      cursor = await getMaxId(db);
+    }
+
+    const stmt = db.prepare(`
+      SELECT * FROM unity_data
+      WHERE id > ? ${deviceFilter}
+      ORDER BY id ASC
+      LIMIT ?
+    `);
+
+    const encoder = new TextEncoder();
+    const startedAt = Date.now();
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (text: string) => controller.enqueue(encoder.encode(text));
+        let lastHeartbeat = Date.now();
+        let pollInterval = MIN_POLL_INTERVAL;
+
+        send(`retry: ${RETRY_DELAY}\n\n`);
+
+        try {
+          while (
+            !request.signal.aborted &&
+            Date.now() - startedAt < MAX_STREAM_DURATION
+          ) {
+            const result = await stmt
+              .bind(cursor, ...deviceParams, BATCH_LIMIT)
+              .all();
+            const rows = result.results as any[];
+
+            for (const row of rows) {
+              send(
+                `id: ${row.id}\nevent: sample\ndata: ${JSON.stringify(row)}\n\n`
+              );
+              cursor = row.id;
+            }
+
+            // 有积压数据时立即继续查询
+            if (rows.length === BATCH_LIMIT) {
+              continue;
+            }
+            pollInterval =
+              rows.length > 0
+                ? MIN_POLL_INTERVAL
+                : Math.min(pollInterval * 2, MAX_POLL_INTERVAL);
+
+            if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL) {
+              send(`: heartbeat\n\n`);
+              lastHeartbeat = Date.now();
+            }
+
+            await sleep(pollInterval);
+          }
+        } catch (error) {
+          console.error("Stream error:", error);
+          send(
+            `event: error\ndata: ${JSON.stringify({ error: getErrorMessage(error) })}\n\n`
+          );
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // 客户端已断开
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to open stream", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+async function getMaxId(db: D1Database): Promise<number> {
+  const row = await db
+    .prepare(`SELECT MAX(id) AS id FROM unity_data`)
+    .first<{ id: number | null }>();
+  return row?.id ?? 0;
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireReadAccess } from "../../../../lib/auth";
+import { FlightSessionStore } from "../../../../lib/flights";
+
+// 查询单个架次，includeSamples=true 时附带该架次的原始样本
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { id } = await params;
+    const flightId = parseInt(id);
+    if (!Number.isInteger(flightId) || flightId <= 0) {
+      return NextResponse.json({ error: "Invalid flight id" }, { status: 400 });
+    }
+
+    const store = new FlightSessionStore(env.DB);
+    const flight = await store.getFlight(flightId);
+    if (!flight) {
+      return NextResponse.json({ error: "Flight not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get("includeSamples") !== "true") {
+      return NextResponse.json({ data: flight });
+    }
+
+    const result = await env.DB.prepare(
+      `
+      SELECT * FROM unity_data
+      WHERE device_id = ? AND timestamp >= ? AND timestamp <= ?
+      ORDER BY timestamp ASC
+    `
+    )
+      .bind(flight.deviceId, flight.startTime, flight.endTime)
+      .all();
+
+    return NextResponse.json({
+      data: flight,
+      samples: result.results,
+      count: result.results.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query flight", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../lib/auth";
+import { FlightSessionStore } from "../../../lib/flights";
+
+// 单次查询返回的最大架次数
+const MAX_FLIGHT_LIMIT = 500;
+
+// 查询飞行架次列表
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId") || undefined;
+    const startTime = searchParams.get("startTime");
+    const endTime = searchParams.get("endTime");
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_FLIGHT_LIMIT
+    );
+
+    const store = new FlightSessionStore(env.DB);
+    const flights = await store.listFlights({
+      deviceId,
+      startTime: startTime ? parseInt(startTime) : undefined,
+      endTime: endTime ? parseInt(endTime) : undefined,
+      limit,
+    });
+
+    return NextResponse.json({
+      data: flights,
+      deviceId,
+      limit,
+      count: flights.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query flights", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 从原始数据重新切分架次，body 可指定 { deviceId }，否则处理所有设备
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const text = await request.text();
+    const body = text ? JSON.parse(text) : {};
+    const store = new FlightSessionStore(env.DB);
+    const deviceIds: string[] = body.deviceId
+      ? [String(body.deviceId)]
+      : await store.getDeviceIds();
+
+    const devices: { deviceId: string; flights: number }[] = [];
+    for (const deviceId of deviceIds) {
+      devices.push({ deviceId, flights: await store.rebuild(deviceId) });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Flights rebuilt successfully",
+      devices,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to rebuild flights", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../lib/auth";
+import { GeofenceStore } from "../../../../lib/geofences";
+import { validateGeofenceInput } from "../../../../lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseGeofenceId(id: string): number | null {
+  const geofenceId = parseInt(id);
+  return Number.isInteger(geofenceId) && geofenceId > 0 ? geofenceId : null;
+}
+
+// 查询单个地理围栏
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const geofenceId = parseGeofenceId((await params).id);
+    if (geofenceId === null) {
+      return NextResponse.json(
+        { error: "Invalid geofence id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new GeofenceStore(env.DB);
+    const geofence = await store.getGeofence(geofenceId);
+    if (!geofence) {
+      return NextResponse.json(
+        { error: "Geofence not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data: geofence });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query geofence", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 修改地理围栏：未提交的字段沿用原值，合并后整体校验；判断条件改变时该围栏进行中的违规事件随之结束
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const geofenceId = parseGeofenceId((await params).id);
+    if (geofenceId === null) {
+      return NextResponse.json(
+        { error: "Invalid geofence id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new GeofenceStore(env.DB);
+    const existing = await store.getGeofence(geofenceId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Geofence not found" },
+        { status: 404 }
+      );
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    const { data, errors } = validateGeofenceInput({ ...existing, ...body });
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid geofence", details: errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Geofence updated",
+      data: await store.updateGeofence(geofenceId, data),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update geofence", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 删除地理围栏，历史违规事件保留
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const geofenceId = parseGeofenceId((await params).id);
+    if (geofenceId === null) {
+      return NextResponse.json(
+        { error: "Invalid geofence id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new GeofenceStore(env.DB);
+    if (!(await store.deleteGeofence(geofenceId))) {
+      return NextResponse.json(
+        { error: "Geofence not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: "Geofence deleted" });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete geofence", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireReadAccess } from "../../../../lib/auth";
+import { GeofenceStore } from "../../../../lib/geofences";
+
+// 单次查询的最大事件数
+const MAX_EVENT_LIMIT = 500;
+
+// 查询围栏违规事件，active=true 时只返回仍在违规的事件
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId") || undefined;
+    const active = searchParams.get("active") === "true";
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_EVENT_LIMIT
+    );
+
+    const store = new GeofenceStore(env.DB);
+    const events = await store.listEvents({ deviceId, active, limit });
+
+    return NextResponse.json({
+      data: events,
+      deviceId,
+      active,
+      limit,
+      count: events.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to query geofence events",
+        details: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
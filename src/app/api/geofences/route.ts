@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../lib/auth";
+import { GeofenceStore } from "../../../lib/geofences";
+import { validateGeofenceInput } from "../../../lib/validation";
+
+// 查询全部地理围栏
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const store = new GeofenceStore(env.DB);
+    const geofences = await store.listGeofences();
+
+    return NextResponse.json({ data: geofences, count: geofences.length });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query geofences", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 新建地理围栏（多边形或圆形，可带限高）
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { data, errors } = validateGeofenceInput(await request.json());
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid geofence", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const store = new GeofenceStore(env.DB);
+    const geofence = await store.createGeofence(data);
+
+    return NextResponse.json(
+      { success: true, message: "Geofence created", data: geofence },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create geofence", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
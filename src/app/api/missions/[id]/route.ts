@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../lib/auth";
+import { MissionStore } from "../../../../lib/missions";
+import { validateMissionInput } from "../../../../lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseMissionId(id: string): number | null {
+  const missionId = parseInt(id);
+  return Number.isInteger(missionId) && missionId > 0 ? missionId : null;
+}
+
+// 查询单个航线任务
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const missionId = parseMissionId((await params).id);
+    if (missionId === null) {
+      return NextResponse.json(
+        { error: "Invalid mission id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new MissionStore(env.DB);
+    const mission = await store.getMission(missionId);
+    if (!mission) {
+      return NextResponse.json({ error: "Mission not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: mission });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query mission", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 修改航线任务：未提交的字段沿用原值，合并后整体校验。
+// 任务正在执行时不能修改，避免已记录的进度与新航线对不上
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const missionId = parseMissionId((await params).id);
+    if (missionId === null) {
+      return NextResponse.json(
+        { error: "Invalid mission id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new MissionStore(env.DB);
+    const existing = await store.getMission(missionId);
+    if (!existing) {
+      return NextResponse.json({ error: "Mission not found" }, { status: 404 });
+    }
+    if (await store.hasActiveAssignments(missionId)) {
+      return NextResponse.json(
+        { error: "Mission is assigned to a device and still active" },
+        { status: 409 }
+      );
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    const { data, errors } = validateMissionInput({ ...existing, ...body });
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid mission", details: errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Mission updated",
+      data: await store.updateMission(missionId, data),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update mission", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 删除航线任务，正在执行的分配会被中止，历史分配和事件保留
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const missionId = parseMissionId((await params).id);
+    if (missionId === null) {
+      return NextResponse.json(
+        { error: "Invalid mission id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new MissionStore(env.DB);
+    if (!(await store.deleteMission(missionId, Date.now()))) {
+      return NextResponse.json({ error: "Mission not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: "Mission deleted" });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete mission", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCloudflareEnv,
+  getErrorMessage,
+} from "../../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../../lib/auth";
+import { MissionStore } from "../../../../../lib/missions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseAssignmentId(id: string): number | null {
+  const assignmentId = parseInt(id);
+  return Number.isInteger(assignmentId) && assignmentId > 0
+    ? assignmentId
+    : null;
+}
+
+// 查询单个任务分配、对应的任务定义和航点事件
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const assignmentId = parseAssignmentId((await params).id);
+    if (assignmentId === null) {
+      return NextResponse.json(
+        { error: "Invalid assignment id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new MissionStore(env.DB);
+    const assignment = await store.getAssignment(assignmentId);
+    if (!assignment) {
+      return NextResponse.json(
+        { error: "Assignment not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      data: assignment,
+      mission: await store.getMission(assignment.missionId),
+      events: await store.getEvents(assignmentId),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to query mission assignment",
+        details: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 中止任务：{ status: "aborted" }，只能中止正在执行的分配
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const assignmentId = parseAssignmentId((await params).id);
+    if (assignmentId === null) {
+      return NextResponse.json(
+        { error: "Invalid assignment id" },
+        { status: 400 }
+      );
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    if (body.status !== "aborted") {
+      return NextResponse.json(
+        {
+          error: "Invalid assignment update",
+          details: [{ path: "status", message: "must be aborted" }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const store = new MissionStore(env.DB);
+    const assignment = await store.getAssignment(assignmentId);
+    if (!assignment) {
+      return NextResponse.json(
+        { error: "Assignment not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!(await store.abortAssignment(assignmentId, Date.now()))) {
+      const current = await store.getAssignment(assignmentId);
+      return NextResponse.json(
+        {
+          error: `Assignment is already ${current?.status ?? assignment.status}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Mission aborted",
+      data: await store.getAssignment(assignmentId),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update mission assignment",
+        details: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
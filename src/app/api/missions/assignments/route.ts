@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../../lib/auth";
+import { MissionStore } from "../../../../lib/missions";
+import { MissionAssignmentStatus } from "../../../../types";
+
+// 单次查询的最大分配数
+const MAX_ASSIGNMENT_LIMIT = 500;
+
+const ASSIGNMENT_STATUSES: MissionAssignmentStatus[] = [
+  "active",
+  "completed",
+  "aborted",
+];
+
+// 查询任务分配及其进度，可按 deviceId、missionId 和 status 过滤
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get("deviceId") || undefined;
+    const missionIdParam = searchParams.get("missionId");
+    const missionId = missionIdParam ? parseInt(missionIdParam) : undefined;
+    if (Number.isNaN(missionId)) {
+      return NextResponse.json(
+        { error: "missionId must be an integer" },
+        { status: 400 }
+      );
+    }
+    const status = ASSIGNMENT_STATUSES.find(
+      (s) => s === searchParams.get("status")
+    );
+    if (searchParams.get("status") && !status) {
+      return NextResponse.json(
+        {
+          error: `Invalid status, expected one of ${ASSIGNMENT_STATUSES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_ASSIGNMENT_LIMIT
+    );
+
+    const store = new MissionStore(env.DB);
+    const assignments = await store.listAssignments({
+      deviceId,
+      missionId,
+      status,
+      limit,
+    });
+
+    return NextResponse.json({
+      data: assignments,
+      deviceId,
+      missionId,
+      status,
+      limit,
+      count: assignments.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to query mission assignments",
+        details: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 把任务分配给设备：{ missionId, deviceId }。设备已有正在执行的任务时返回 409，需先中止
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    const { missionId } = body;
+    const deviceId =
+      typeof body.deviceId === "string" ? body.deviceId.trim() : "";
+    if (
+      typeof missionId !== "number" ||
+      !Number.isInteger(missionId) ||
+      !deviceId
+    ) {
+      return NextResponse.json(
+        { error: "missionId (integer) and deviceId (string) are required" },
+        { status: 400 }
+      );
+    }
+
+    const store = new MissionStore(env.DB);
+    if (!(await store.getMission(missionId))) {
+      return NextResponse.json({ error: "Mission not found" }, { status: 404 });
+    }
+
+    const assignment = await store.assignMission(
+      missionId,
+      deviceId,
+      Date.now()
+    );
+    if (!assignment) {
+      return NextResponse.json(
+        { error: "Device already has an active mission" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: "Mission assigned", data: assignment },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to assign mission", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
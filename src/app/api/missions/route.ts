@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import { requireAdminAccess, requireReadAccess } from "../../../lib/auth";
+import { MissionStore } from "../../../lib/missions";
+import { validateMissionInput } from "../../../lib/validation";
+
+// 查询全部航线任务
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireReadAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const store = new MissionStore(env.DB);
+    const missions = await store.listMissions();
+
+    return NextResponse.json({ data: missions, count: missions.length });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query missions", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 新建航线任务：{ name, waypoints: [{ latitude, longitude, altitude, speed }], acceptanceRadius }
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { data, errors } = validateMissionInput(await request.json());
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid mission", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const store = new MissionStore(env.DB);
+    const mission = await store.createMission(data);
+
+    return NextResponse.json(
+      { success: true, message: "Mission created", data: mission },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create mission", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess } from "../../../../lib/auth";
+import { WebhookStore } from "../../../../lib/webhooks";
+import { validateWebhookInput } from "../../../../lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseWebhookId(id: string): number | null {
+  const webhookId = parseInt(id);
+  return Number.isInteger(webhookId) && webhookId > 0 ? webhookId : null;
+}
+
+// 查询单个 Webhook 订阅
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const webhookId = parseWebhookId((await params).id);
+    if (webhookId === null) {
+      return NextResponse.json(
+        { error: "Invalid webhook id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new WebhookStore(env.DB);
+    const webhook = await store.getWebhook(webhookId);
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: webhook });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query webhook", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 修改 Webhook 订阅：未提交的字段沿用原值，合并后整体校验
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const webhookId = parseWebhookId((await params).id);
+    if (webhookId === null) {
+      return NextResponse.json(
+        { error: "Invalid webhook id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new WebhookStore(env.DB);
+    const existing = await store.getWebhook(webhookId);
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const body: Record<string, unknown> = await request.json();
+    const { data, errors } = validateWebhookInput({ ...existing, ...body });
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid webhook", details: errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Webhook updated",
+      data: await store.updateWebhook(webhookId, data),
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update webhook", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 删除 Webhook 订阅，投递日志保留
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const webhookId = parseWebhookId((await params).id);
+    if (webhookId === null) {
+      return NextResponse.json(
+        { error: "Invalid webhook id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new WebhookStore(env.DB);
+    if (!(await store.deleteWebhook(webhookId))) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: "Webhook deleted" });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete webhook", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
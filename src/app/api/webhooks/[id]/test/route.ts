@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCloudflareEnv,
+  getErrorMessage,
+} from "../../../../../lib/cloudflare";
+import { requireAdminAccess } from "../../../../../lib/auth";
+import { WebhookStore } from "../../../../../lib/webhooks";
+
+// 向指定 Webhook 发送一条 webhook.test 事件，返回这次投递的结果
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { id } = await params;
+    const webhookId = parseInt(id);
+    if (!Number.isInteger(webhookId) || webhookId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid webhook id" },
+        { status: 400 }
+      );
+    }
+
+    const store = new WebhookStore(env.DB);
+    if (!(await store.getWebhook(webhookId))) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    await store.dispatch(
+      "webhook.test",
+      { message: "Test delivery from drone-simulator" },
+      webhookId
+    );
+    const [delivery] = await store.listDeliveries({ webhookId, limit: 1 });
+
+    return NextResponse.json({
+      success: delivery?.status === "success",
+      data: delivery,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to test webhook", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { WebhookDeliveryStatus } from "../../../../types";
+import { getCloudflareEnv, getErrorMessage } from "../../../../lib/cloudflare";
+import { requireAdminAccess } from "../../../../lib/auth";
+import { WebhookStore } from "../../../../lib/webhooks";
+
+// 单次查询的最大记录数
+const MAX_DELIVERY_LIMIT = 500;
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  "pending",
+  "success",
+  "failed",
+];
+
+// 查询 Webhook 投递日志，可按 webhookId 和 status 过滤
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const webhookIdParam = searchParams.get("webhookId");
+    const webhookId = webhookIdParam ? parseInt(webhookIdParam) : undefined;
+    if (webhookId !== undefined && !Number.isInteger(webhookId)) {
+      return NextResponse.json({ error: "Invalid webhookId" }, { status: 400 });
+    }
+    const status = DELIVERY_STATUSES.find(
+      (s) => s === searchParams.get("status")
+    );
+    if (searchParams.get("status") && !status) {
+      return NextResponse.json(
+        {
+          error: `Invalid status, expected one of ${DELIVERY_STATUSES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_DELIVERY_LIMIT
+    );
+
+    const store = new WebhookStore(env.DB);
+    const deliveries = await store.listDeliveries({ webhookId, status, limit });
+
+    return NextResponse.json({
+      data: deliveries,
+      webhookId,
+      status,
+      limit,
+      count: deliveries.length,
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to query webhook deliveries",
+        details: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
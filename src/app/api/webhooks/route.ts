@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareEnv, getErrorMessage } from "../../../lib/cloudflare";
+import { requireAdminAccess } from "../../../lib/auth";
+import { generateWebhookSecret, WebhookStore } from "../../../lib/webhooks";
+import { validateWebhookInput } from "../../../lib/validation";
+
+// 查询全部 Webhook 订阅（不含签名密钥）
+export async function GET(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const store = new WebhookStore(env.DB);
+    const webhooks = await store.listWebhooks();
+
+    return NextResponse.json({ data: webhooks, count: webhooks.length });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to query webhooks", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// 新建 Webhook 订阅；签名密钥只在这里返回一次
+export async function POST(request: NextRequest) {
+  try {
+    const env = getCloudflareEnv();
+
+    // 检查D1数据库是否可用
+    if (!env || !env.DB) {
+      return NextResponse.json(
+        { error: "Database not available" },
+        { status: 500 }
+      );
+    }
+
+    const denied = requireAdminAccess(request, env);
+    if (denied) {
+      return denied;
+    }
+
+    const { data, errors } = validateWebhookInput(await request.json());
+    if (!data) {
+      return NextResponse.json(
+        { error: "Invalid webhook", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const secret = generateWebhookSecret();
+    const store = new WebhookStore(env.DB);
+    const webhook = await store.createWebhook(data, secret);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message:
+          "Webhook created, store the secret now: it will not be shown again",
+        data: webhook,
+        secret,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create webhook", details: getErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,404 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  DeviceCommand,
+  DeviceCommandEvent,
+  DeviceCommandStatus,
+  DeviceCommandType,
+  DisplayUnits,
+  DroneData,
+  FieldError,
+} from "../../types";
+import {
+  DEFAULT_DISPLAY_UNITS,
+  displayUnitLabel,
+  DISTANCE_UNITS,
+  formatQuantity,
+  SPEED_UNITS,
+} from "../../lib/units";
+
+interface CommandPanelProps {
+  deviceId: string;
+  // 设备最新样本，作为航点的默认位置
+  latest?: DroneData;
+  units?: DisplayUnits;
+}
+
+interface CommandsResponse {
+  data: DeviceCommand[];
+}
+
+interface CommandDetailResponse {
+  data: DeviceCommand;
+  history: DeviceCommandEvent[];
+}
+
+interface ErrorResponse {
+  error?: string;
+  details?: FieldError[] | string;
+}
+
+// 命令列表的刷新间隔（毫秒）
+const COMMAND_REFRESH_INTERVAL = 3000;
+// 列表中显示的最近命令数
+const COMMAND_LIST_LIMIT = 20;
+
+const COMMAND_LABELS: Record<DeviceCommandType, string> = {
+  return_home: "返航",
+  land: "降落",
+  hold: "悬停",
+  goto: "飞往航点",
+  set_speed: "设置速度",
+};
+
+const STATUS_STYLES: Record<
+  DeviceCommandStatus,
+  { label: string; className: string }
+> = {
+  pending: { label: "等待下发", className: "bg-gray-100 text-gray-700" },
+  delivered: { label: "已下发", className: "bg-blue-100 text-blue-700" },
+  acknowledged: {
+    label: "执行中",
+    className: "bg-indigo-100 text-indigo-700",
+  },
+  completed: { label: "已完成", className: "bg-green-100 text-green-700" },
+  failed: { label: "执行失败", className: "bg-red-100 text-red-700" },
+  rejected: { label: "被拒绝", className: "bg-red-100 text-red-700" },
+  expired: { label: "超时", className: "bg-yellow-100 text-yellow-800" },
+  cancelled: { label: "已取消", className: "bg-gray-100 text-gray-500" },
+};
+
+const ACTOR_LABELS: Record<DeviceCommandEvent["actor"], string> = {
+  operator: "操作员",
+  device: "设备",
+  system: "系统",
+};
+
+const describeError = (body: ErrorResponse, status: number): string => {
+  if (Array.isArray(body.details)) {
+    return body.details.map((e) => `${e.path} ${e.message}`).join("; ");
+  }
+  return body.details || body.error || `HTTP error! status: ${status}`;
+};
+
+// 快捷命令（无参数）
+const QUICK_COMMANDS: DeviceCommandType[] = ["return_home", "land", "hold"];
+
+// 向单个设备下发命令并跟踪其状态：快捷命令、飞往航点、设置速度，
+// 最近的命令列表可展开查看审计记录，未确认的命令可以取消
+const CommandPanel: React.FC<CommandPanelProps> = ({
+  deviceId,
+  latest,
+  units = DEFAULT_DISPLAY_UNITS,
+}) => {
+  const [commands, setCommands] = useState<DeviceCommand[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState<boolean>(false);
+  const [timeoutSeconds, setTimeoutSeconds] = useState<string>("30");
+  const [target, setTarget] = useState({
+    latitude: latest ? latest.latitude.toFixed(6) : "",
+    longitude: latest ? latest.longitude.toFixed(6) : "",
+    altitude: "",
+    speed: "",
+  });
+  const [speed, setSpeed] = useState<string>("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [history, setHistory] = useState<DeviceCommandEvent[]>([]);
+
+  const speedLabel = displayUnitLabel("speed", units);
+  const distanceLabel = displayUnitLabel("distance", units);
+
+  const fetchCommands = async (): Promise<void> => {
+    try {
+      const params = new URLSearchParams({
+        deviceId,
+        limit: COMMAND_LIST_LIMIT.toString(),
+      });
+      const response = await fetch(`/api/commands?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const result: CommandsResponse = await response.json();
+      setCommands(result.data);
+    } catch (err) {
+      console.error("Failed to fetch commands:", err);
+    }
+  };
+
+  const fetchHistory = async (commandId: number): Promise<void> => {
+    try {
+      const response = await fetch(`/api/commands/${commandId}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const result: CommandDetailResponse = await response.json();
+      setHistory(result.history);
+    } catch (err) {
+      console.error("Failed to fetch command history:", err);
+    }
+  };
+
+  // 定时刷新命令状态，展开的命令同时刷新审计记录
+  useEffect(() => {
+    fetchCommands();
+    if (expanded !== null) {
+      fetchHistory(expanded);
+    }
+    const timer = setInterval(() => {
+      fetchCommands();
+      if (expanded !== null) {
+        fetchHistory(expanded);
+      }
+    }, COMMAND_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [deviceId, expanded]);
+
+  // 管理员接口的通用请求，权限不足时提示
+  const send = async (url: string, method: string, body: unknown) => {
+    try {
+      setSending(true);
+      setError(null);
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (response.status === 401 || response.status === 403) {
+        setError("需要管理员权限才能下发命令");
+        return;
+      }
+      const result: ErrorResponse = await response.json();
+      // 409 表示命令状态已变化，刷新即可
+      if (!response.ok && response.status !== 409) {
+        throw new Error(describeError(result, response.status));
+      }
+      await fetchCommands();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "下发命令失败");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const issue = (type: DeviceCommandType, params?: Record<string, number>) =>
+    send("/api/commands", "POST", {
+      deviceId,
+      type,
+      params,
+      timeoutMs: Math.round(parseFloat(timeoutSeconds) * 1000),
+    });
+
+  // 输入框按显示单位填写，下发前换算为 m/s 和 m
+  const toSpeed = (value: string) =>
+    parseFloat(value) * SPEED_UNITS[units.speed];
+  const toDistance = (value: string) =>
+    parseFloat(value) * DISTANCE_UNITS[units.distance];
+
+  const issueGoto = () => {
+    const params: Record<string, number> = {
+      latitude: parseFloat(target.latitude),
+      longitude: parseFloat(target.longitude),
+    };
+    if (target.altitude.trim()) {
+      params.altitude = toDistance(target.altitude);
+    }
+    if (target.speed.trim()) {
+      params.speed = toSpeed(target.speed);
+    }
+    issue("goto", params);
+  };
+
+  const describeParams = (command: DeviceCommand): string => {
+    if (!command.params) return "";
+    if ("latitude" in command.params) {
+      const { latitude, longitude, altitude, speed } = command.params;
+      return [
+        `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`,
+        altitude !== undefined
+          ? formatQuantity(altitude, "distance", units)
+          : null,
+        speed !== undefined ? formatQuantity(speed, "speed", units) : null,
+      ]
+        .filter(Boolean)
+        .join(" · ");
+    }
+    return formatQuantity(command.params.speed, "speed", units);
+  };
+
+  const inputClass =
+    "w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {QUICK_COMMANDS.map((type) => (
+          <button
+            key={type}
+            onClick={() => issue(type)}
+            disabled={sending}
+            className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:bg-gray-400 transition-colors"
+          >
+            {COMMAND_LABELS[type]}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+          确认超时（秒）
+          <input
+            type="number"
+            min={1}
+            max={600}
+            value={timeoutSeconds}
+            onChange={(e) => setTimeoutSeconds(e.target.value)}
+            className="w-20 border border-gray-300 rounded px-2 py-1 text-gray-700"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2">
+          <h4 className="font-medium text-gray-800">飞往航点</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={target.latitude}
+              onChange={(e) =>
+                setTarget({ ...target, latitude: e.target.value })
+              }
+              placeholder="纬度"
+              className={inputClass}
+            />
+            <input
+              value={target.longitude}
+              onChange={(e) =>
+                setTarget({ ...target, longitude: e.target.value })
+              }
+              placeholder="经度"
+              className={inputClass}
+            />
+            <input
+              value={target.altitude}
+              onChange={(e) =>
+                setTarget({ ...target, altitude: e.target.value })
+              }
+              placeholder={`高度（${distanceLabel}，可选）`}
+              className={inputClass}
+            />
+            <input
+              value={target.speed}
+              onChange={(e) => setTarget({ ...target, speed: e.target.value })}
+              placeholder={`速度（${speedLabel}，可选）`}
+              className={inputClass}
+            />
+          </div>
+          <button
+            onClick={issueGoto}
+            disabled={sending}
+            className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+          >
+            下发
+          </button>
+        </div>
+
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2">
+          <h4 className="font-medium text-gray-800">设置速度</h4>
+          <input
+            value={speed}
+            onChange={(e) => setSpeed(e.target.value)}
+            placeholder={`速度（${speedLabel}）`}
+            className={inputClass}
+          />
+          <button
+            onClick={() => issue("set_speed", { speed: toSpeed(speed) })}
+            disabled={sending}
+            className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+          >
+            下发
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          错误: {error}
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium text-gray-800 mb-2">最近的命令</h4>
+        {commands.length === 0 ? (
+          <p className="text-sm text-gray-500">还没有下发过命令</p>
+        ) : (
+          <div className="space-y-2">
+            {commands.map((command) => (
+              <div
+                key={command.id}
+                className="border border-gray-200 rounded-lg p-3 text-sm"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-800">
+                    {COMMAND_LABELS[command.type]}
+                  </span>
+                  <span className="text-gray-500 font-mono">
+                    {describeParams(command)}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[command.status].className}`}
+                  >
+                    {STATUS_STYLES[command.status].label}
+                  </span>
+                  {command.message && (
+                    <span className="text-gray-500">{command.message}</span>
+                  )}
+                  <span className="ml-auto text-gray-400 font-mono">
+                    {new Date(command.issuedAt).toLocaleTimeString()}
+                  </span>
+                  {(command.status === "pending" ||
+                    command.status === "delivered") && (
+                    <button
+                      onClick={() =>
+                        send(`/api/commands/${command.id}`, "PATCH", {
+                          status: "cancelled",
+                        })
+                      }
+                      disabled={sending}
+                      className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    >
+                      取消
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setHistory([]);
+                      setExpanded(expanded === command.id ? null : command.id);
+                    }}
+                    className="px-2 py-0.5 text-xs rounded text-blue-600 hover:bg-blue-50"
+                  >
+                    {expanded === command.id ? "收起" : "记录"}
+                  </button>
+                </div>
+                {expanded === command.id && (
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600 border-t border-gray-100 pt-2">
+                    {history.map((event) => (
+                      <li key={event.id} className="flex gap-2">
+                        <span className="font-mono text-gray-400">
+                          {new Date(event.at).toLocaleTimeString()}
+                        </span>
+                        <span>{ACTOR_LABELS[event.actor]}</span>
+                        <span>{STATUS_STYLES[event.status].label}</span>
+                        {event.message && (
+                          <span className="text-gray-500">{event.message}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPanel;
@@ -0,0 +1,350 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { DisplayUnits, DroneData } from "../../types";
+import { DEFAULT_DISPLAY_UNITS } from "../../lib/units";
+import {
+  downsample,
+  SeriesKey,
+  seriesUnit,
+  seriesValue,
+  TELEMETRY_SERIES,
+} from "./TelemetryChart";
+
+// 参与对比的一个设备
+export interface ComparisonSeries {
+  deviceId: string;
+  label: string;
+  color: string;
+  // 按时间升序的样本
+  data: DroneData[];
+  // 横轴坐标 = 样本时间戳 - offset；绝对时间对齐时为 0
+  offset: number;
+}
+
+interface ComparisonChartProps {
+  series: ComparisonSeries[];
+  field: SeriesKey;
+  // 横轴是否为相对各自起点的时间
+  relative: boolean;
+  height?: number;
+  units?: DisplayUnits;
+}
+
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 48 };
+
+function formatAxis(value: number, relative: boolean): string {
+  if (!relative) {
+    return new Date(value).toLocaleTimeString();
+  }
+  const totalSeconds = Math.round(value / 1000);
+  const sign = totalSeconds < 0 ? "-" : "+";
+  const abs = Math.abs(totalSeconds);
+  return `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+// 找到横轴坐标最接近 x 的样本（二分查找）
+function findNearest(item: ComparisonSeries, x: number): DroneData | null {
+  const { data, offset } = item;
+  if (data.length === 0) return null;
+  let low = 0;
+  let high = data.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (data[mid].timestamp - offset < x) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  const prev = data[Math.max(low - 1, 0)];
+  return Math.abs(prev.timestamp - offset - x) <
+    Math.abs(data[low].timestamp - offset - x)
+    ? prev
+    : data[low];
+}
+
+// 多设备同一字段的叠加曲线：每个设备一条线，拖动选择区间缩放，悬停显示各设备读数
+const ComparisonChart: React.FC<ComparisonChartProps> = ({
+  series,
+  field,
+  relative,
+  height = 220,
+  units = DEFAULT_DISPLAY_UNITS,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState<number>(0);
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const [selection, setSelection] = useState<[number, number] | null>(null);
+
+  const definition = TELEMETRY_SERIES.find((s) => s.key === field)!;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // 数据或对齐方式变化时重置缩放
+  useEffect(() => {
+    setZoom(null);
+  }, [series, relative]);
+
+  const plotWidth = Math.max(width - MARGIN.left - MARGIN.right, 1);
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+
+  // 各设备在可见范围内的样本
+  const visible = useMemo(
+    () =>
+      series.map((item) => ({
+        ...item,
+        data: zoom
+          ? item.data.filter((sample) => {
+              const x = sample.timestamp - item.offset;
+              return x >= zoom[0] && x <= zoom[1];
+            })
+          : item.data,
+      })),
+    [series, zoom]
+  );
+
+  let xMin = Infinity;
+  let xMax = -Infinity;
+  let yMin = Infinity;
+  let yMax = -Infinity;
+  for (const item of visible) {
+    if (item.data.length === 0) continue;
+    xMin = Math.min(xMin, item.data[0].timestamp - item.offset);
+    xMax = Math.max(
+      xMax,
+      item.data[item.data.length - 1].timestamp - item.offset
+    );
+    for (const sample of item.data) {
+      const value = seriesValue(definition, sample, units);
+      yMin = Math.min(yMin, value);
+      yMax = Math.max(yMax, value);
+    }
+  }
+  if (zoom) {
+    [xMin, xMax] = zoom;
+  }
+  if (!Number.isFinite(xMin)) {
+    xMin = 0;
+    xMax = 1;
+  }
+  if (!Number.isFinite(yMin)) {
+    yMin = 0;
+    yMax = 1;
+  }
+  if (yMax - yMin < 1e-6) {
+    yMin -= 1;
+    yMax += 1;
+  }
+  const yPad = (yMax - yMin) * 0.05;
+  yMin -= yPad;
+  yMax += yPad;
+  const xSpan = Math.max(xMax - xMin, 1);
+
+  const toX = (t: number) => MARGIN.left + ((t - xMin) / xSpan) * plotWidth;
+  const toY = (v: number) =>
+    MARGIN.top + (1 - (v - yMin) / (yMax - yMin)) * plotHeight;
+  const fromX = (x: number) => xMin + ((x - MARGIN.left) / plotWidth) * xSpan;
+
+  const yTicks = Array.from(
+    { length: 5 },
+    (_, i) => yMin + ((yMax - yMin) * i) / 4
+  );
+  const xTicks = Array.from({ length: 5 }, (_, i) => xMin + (xSpan * i) / 4);
+
+  // 悬停位置各设备最近的样本
+  const hoverValue = hoverX !== null ? fromX(hoverX) : null;
+  const hovered =
+    hoverValue !== null
+      ? visible.map((item) => ({ item, sample: findNearest(item, hoverValue) }))
+      : [];
+
+  const getX = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return Math.min(
+      Math.max(event.clientX - rect.left, MARGIN.left),
+      MARGIN.left + plotWidth
+    );
+  };
+
+  const handleMouseUp = () => {
+    if (selection && Math.abs(selection[1] - selection[0]) > 5) {
+      setZoom([fromX(Math.min(...selection)), fromX(Math.max(...selection))]);
+    }
+    setSelection(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-sm font-medium text-gray-700">
+          {definition.label} ({seriesUnit(definition, units)})
+        </span>
+        {zoom && (
+          <button
+            onClick={() => setZoom(null)}
+            className="ml-auto px-2 py-1 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            重置缩放
+          </button>
+        )}
+      </div>
+
+      <div ref={containerRef} className="relative w-full">
+        {width > 0 && (
+          <svg
+            width={width}
+            height={height}
+            className="select-none"
+            onMouseMove={(event) => {
+              const x = getX(event);
+              setHoverX(x);
+              if (selection) setSelection([selection[0], x]);
+            }}
+            onMouseDown={(event) => {
+              const x = getX(event);
+              setSelection([x, x]);
+            }}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => {
+              setHoverX(null);
+              setSelection(null);
+            }}
+            onDoubleClick={() => setZoom(null)}
+          >
+            {/* 坐标轴和网格 */}
+            {yTicks.map((v) => (
+              <g key={`y-${v}`}>
+                <line
+                  x1={MARGIN.left}
+                  x2={MARGIN.left + plotWidth}
+                  y1={toY(v)}
+                  y2={toY(v)}
+                  stroke="#e5e7eb"
+                />
+                <text
+                  x={MARGIN.left - 6}
+                  y={toY(v) + 4}
+                  textAnchor="end"
+                  fontSize={11}
+                  fill="#6b7280"
+                >
+                  {v.toFixed(1)}
+                </text>
+              </g>
+            ))}
+            {xTicks.map((t) => (
+              <text
+                key={`x-${t}`}
+                x={toX(t)}
+                y={height - 8}
+                textAnchor="middle"
+                fontSize={11}
+                fill="#6b7280"
+              >
+                {formatAxis(t, relative)}
+              </text>
+            ))}
+
+            {/* 每个设备一条曲线 */}
+            {visible.map((item) => (
+              <polyline
+                key={item.deviceId}
+                fill="none"
+                stroke={item.color}
+                strokeWidth={1.5}
+                points={downsample(item.data, field, Math.floor(plotWidth))
+                  .map(
+                    (sample) =>
+                      `${toX(sample.timestamp - item.offset)},${toY(
+                        seriesValue(definition, sample, units)
+                      )}`
+                  )
+                  .join(" ")}
+              />
+            ))}
+
+            {/* 拖动选择区域 */}
+            {selection && (
+              <rect
+                x={Math.min(...selection)}
+                y={MARGIN.top}
+                width={Math.abs(selection[1] - selection[0])}
+                height={plotHeight}
+                fill="#3b82f6"
+                fillOpacity={0.15}
+              />
+            )}
+
+            {/* 悬停指示线 */}
+            {hoverX !== null && (
+              <g>
+                <line
+                  x1={hoverX}
+                  x2={hoverX}
+                  y1={MARGIN.top}
+                  y2={MARGIN.top + plotHeight}
+                  stroke="#9ca3af"
+                  strokeDasharray="4 3"
+                />
+                {hovered.map(
+                  ({ item, sample }) =>
+                    sample && (
+                      <circle
+                        key={item.deviceId}
+                        cx={toX(sample.timestamp - item.offset)}
+                        cy={toY(seriesValue(definition, sample, units))}
+                        r={3}
+                        fill={item.color}
+                      />
+                    )
+                )}
+              </g>
+            )}
+          </svg>
+        )}
+
+        {/* 悬停读数 */}
+        {hoverX !== null && hoverValue !== null && (
+          <div
+            className="absolute top-2 pointer-events-none bg-white/90 border border-gray-200 rounded shadow-sm px-2 py-1 text-xs text-gray-700"
+            style={
+              hoverX > width / 2
+                ? { left: MARGIN.left + 8 }
+                : { right: MARGIN.right + 8 }
+            }
+          >
+            <p className="font-mono mb-1">{formatAxis(hoverValue, relative)}</p>
+            {hovered.map(({ item, sample }) => (
+              <p key={item.deviceId} style={{ color: item.color }}>
+                {item.label}:{" "}
+                {sample
+                  ? `${seriesValue(definition, sample, units).toFixed(
+                      2
+                    )} ${seriesUnit(definition, units)}`
+                  : "-"}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {visible.every((item) => item.data.length === 0) && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+            所选时间范围内没有数据
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonChart;
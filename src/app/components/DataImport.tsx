@@ -0,0 +1,282 @@
+"use client";
+
+import React, { useState } from "react";
+import { CoordinateFrame, FieldError, TelemetryUnits } from "../../types";
+import {
+  autoMapColumns,
+  ColumnMapping,
+  detectFormat,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportFormat,
+  readHeaders,
+} from "../../lib/importParser";
+import {
+  CANONICAL_UNITS,
+  COORDINATE_FRAMES,
+  UNIT_FACTORS,
+} from "../../lib/units";
+
+const FRAME_LABELS: Record<CoordinateFrame, string> = {
+  unity: "Unity（x 东、y 上、z 北）",
+  enu: "ENU（东、北、天）",
+  ned: "NED（北、东、地）",
+};
+
+const UNIT_LABELS: Record<keyof TelemetryUnits, string> = {
+  speed: "速度单位",
+  distance: "距离单位",
+  angle: "角度单位",
+};
+
+interface ImportResult {
+  total: number;
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  flagged: number;
+  errors: { line: number; errors: FieldError[] }[];
+}
+
+interface DataImportProps {
+  // 导入成功后回调，用于刷新数据
+  onImported?: () => void;
+}
+
+// 拖放上传离线记录的 CSV / NDJSON 文件，支持调整列映射
+const DataImport: React.FC<DataImportProps> = ({ onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [deviceId, setDeviceId] = useState<string>("");
+  const [frame, setFrame] = useState<CoordinateFrame>("unity");
+  const [units, setUnits] = useState<TelemetryUnits>(CANONICAL_UNITS);
+  const [dragging, setDragging] = useState<boolean>(false);
+  const [uploading, setUploading] = useState<boolean>(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 选中文件后读取表头并自动匹配列
+  const selectFile = async (selected: File) => {
+    const text = await selected.text();
+    const detected = detectFormat(text, selected.name, selected.type);
+    const fileHeaders = readHeaders(text, detected);
+    setFile(selected);
+    setFormat(detected);
+    setHeaders(fileHeaders);
+    setMapping(autoMapColumns(fileHeaders));
+    setResult(null);
+    setError(null);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const dropped = event.dataTransfer.files[0];
+    if (dropped) {
+      selectFile(dropped);
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (column) {
+        next[field] = column;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    try {
+      setUploading(true);
+      setError(null);
+      const form = new FormData();
+      form.append("file", file);
+      form.append("format", format);
+      form.append("mapping", JSON.stringify(mapping));
+      if (deviceId) {
+        form.append("deviceId", deviceId);
+      }
+      form.append("frame", frame);
+      form.append("units", JSON.stringify(units));
+
+      const response = await fetch("/api/flightdata/import", {
+        method: "POST",
+        body: form,
+      });
+      const body: ImportResult & { error?: string; details?: string } =
+        await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          body.details || body.error || `HTTP ${response.status}`
+        );
+      }
+
+      setResult(body);
+      if (body.accepted > 0) {
+        onImported?.();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "导入失败");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+          dragging ? "border-blue-500 bg-blue-50" : "border-gray-300 bg-gray-50"
+        }`}
+      >
+        <p className="text-gray-600 mb-2">拖放 CSV 或 NDJSON 文件到此处，或</p>
+        <label className="inline-block px-3 py-1 bg-blue-500 text-white text-sm rounded cursor-pointer hover:bg-blue-600">
+          选择文件
+          <input
+            type="file"
+            accept=".csv,.ndjson,.jsonl,.json,text/csv"
+            className="hidden"
+            onChange={(event) => {
+              const selected = event.target.files?.[0];
+              if (selected) selectFile(selected);
+            }}
+          />
+        </label>
+        {file && (
+          <p className="text-sm text-gray-500 mt-2">
+            {file.name}（{format.toUpperCase()}，{(file.size / 1024).toFixed(1)}{" "}
+            KB）
+          </p>
+        )}
+      </div>
+
+      {file && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-800">列映射</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            {IMPORT_FIELDS.map((field) => (
+              <label key={field} className="flex items-center gap-2">
+                <span className="w-36 text-gray-600 font-mono">{field}</span>
+                <select
+                  value={mapping[field] || ""}
+                  onChange={(event) => updateMapping(field, event.target.value)}
+                  className="flex-1 border border-gray-300 rounded px-2 py-1 text-gray-700"
+                >
+                  <option value="">—</option>
+                  {headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">默认设备 ID</span>
+            <input
+              value={deviceId}
+              onChange={(event) => setDeviceId(event.target.value)}
+              placeholder="文件中没有设备列时使用"
+              className="flex-1 border border-gray-300 rounded px-2 py-1 text-gray-700"
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="text-gray-600">默认坐标系</span>
+              <select
+                value={frame}
+                onChange={(event) =>
+                  setFrame(event.target.value as CoordinateFrame)
+                }
+                className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+              >
+                {COORDINATE_FRAMES.map((f) => (
+                  <option key={f} value={f}>
+                    {FRAME_LABELS[f]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {(Object.keys(UNIT_LABELS) as Array<keyof TelemetryUnits>).map(
+              (quantity) => (
+                <label key={quantity} className="flex items-center gap-2">
+                  <span className="text-gray-600">{UNIT_LABELS[quantity]}</span>
+                  <select
+                    value={units[quantity]}
+                    onChange={(event) =>
+                      setUnits((prev) => ({
+                        ...prev,
+                        [quantity]: event.target.value,
+                      }))
+                    }
+                    className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+                  >
+                    {Object.keys(UNIT_FACTORS[quantity]).map((unit) => (
+                      <option key={unit} value={unit}>
+                        {unit}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )
+            )}
+          </div>
+          <button
+            onClick={handleUpload}
+            disabled={uploading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+          >
+            {uploading ? "导入中..." : "开始导入"}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          错误: {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm space-y-2">
+          <div className="grid grid-cols-5 gap-2">
+            <p className="text-gray-700">总计: {result.total}</p>
+            <p className="text-green-700">写入: {result.accepted}</p>
+            <p className="text-yellow-700">重复: {result.duplicates}</p>
+            <p className="text-red-700">拒绝: {result.rejected}</p>
+            <p className="text-orange-700">质量标记: {result.flagged}</p>
+          </div>
+          {result.errors.length > 0 && (
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {result.errors.map((row) => (
+                <p key={row.line} className="font-mono text-xs text-red-600">
+                  第 {row.line} 行:{" "}
+                  {row.errors
+                    .map((e) => `${e.path || "(记录)"} ${e.message}`)
+                    .join("; ")}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataImport;
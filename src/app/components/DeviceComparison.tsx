@@ -0,0 +1,463 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  DataResolution,
+  DeviceInfo,
+  DisplayUnits,
+  DroneData,
+  FlightSession,
+  FlightStats,
+} from "../../types";
+import { getDeviceColor, getDeviceLabel } from "../../lib/colors";
+import { fromInputValue, toInputValue } from "../../lib/time";
+import { DEFAULT_DISPLAY_UNITS } from "../../lib/units";
+import ComparisonChart, { ComparisonSeries } from "./ComparisonChart";
+import DroneMap from "./DroneMap";
+import { FLIGHT_STATS_ITEMS, formatDuration } from "./FlightStatsCard";
+import { SeriesKey, seriesUnit, TELEMETRY_SERIES } from "./TelemetryChart";
+
+interface DeviceComparisonProps {
+  // 每个设备的最新样本，用于选择设备和默认时间范围
+  devices: DroneData[];
+  registry: Record<string, DeviceInfo>;
+  units?: DisplayUnits;
+}
+
+interface APIResponse {
+  data: DroneData[];
+  resolution?: DataResolution;
+  next: string | null;
+}
+
+interface FlightsResponse {
+  data: FlightSession[];
+}
+
+interface StatsResponse {
+  data: FlightStats;
+  truncated: boolean;
+}
+
+// 时间对齐方式：absolute 按实际时间，relative 按各设备所选架次的开始时间对齐
+// （未选架次时按第一个样本）
+type Alignment = "absolute" | "relative";
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+interface DeviceResult {
+  data: DroneData[];
+  resolution: DataResolution;
+  stats: FlightStats | null;
+  // 相对对齐的时间原点
+  origin: number;
+}
+
+const MIN_DEVICES = 2;
+const MAX_DEVICES = 6;
+const DEFAULT_RANGE_MINUTES = 10;
+const QUICK_RANGES = [5, 10, 30, 60];
+const PAGE_SIZE = 5000;
+const MAX_PAGES = 4;
+const DEFAULT_FIELDS: SeriesKey[] = ["ground_distance", "speed", "roll"];
+// 每个设备可选的最近架次数
+const FLIGHT_CHOICES = 50;
+
+// 按游标逐页加载设备在时间范围内的数据，后续页沿用第一页实际使用的分辨率
+async function loadSamples(
+  deviceId: string,
+  range: TimeRange
+): Promise<{ data: DroneData[]; resolution: DataResolution }> {
+  const data: DroneData[] = [];
+  let resolution: DataResolution | "auto" = "auto";
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const params = new URLSearchParams({
+      deviceId,
+      startTime: String(range.start),
+      endTime: String(range.end),
+      resolution,
+      limit: String(PAGE_SIZE),
+    });
+    if (cursor) {
+      params.set("cursor", cursor);
+    }
+    const response = await fetch(`/api/flightdata?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const result: APIResponse = await response.json();
+    data.push(...result.data);
+    resolution = result.resolution || "raw";
+    cursor = result.next;
+    if (!cursor) break;
+  }
+  return { data, resolution: resolution === "auto" ? "raw" : resolution };
+}
+
+async function loadStats(
+  deviceId: string,
+  range: TimeRange
+): Promise<FlightStats | null> {
+  const params = new URLSearchParams({
+    deviceId,
+    startTime: String(range.start),
+    endTime: String(range.end),
+  });
+  const response = await fetch(`/api/flightdata/stats?${params.toString()}`);
+  if (!response.ok) return null;
+  const result: StatsResponse = await response.json();
+  return result.data;
+}
+
+// 设备最近的飞行架次（按开始时间倒序）
+async function loadFlights(deviceId: string): Promise<FlightSession[]> {
+  const params = new URLSearchParams({
+    deviceId,
+    limit: String(FLIGHT_CHOICES),
+  });
+  const response = await fetch(`/api/flights?${params.toString()}`);
+  if (!response.ok) return [];
+  const result: FlightsResponse = await response.json();
+  return result.data;
+}
+
+// 多设备对比：选择 2~6 个设备和时间范围，叠加显示遥测曲线、地面轨迹和统计表
+const DeviceComparison: React.FC<DeviceComparisonProps> = ({
+  devices,
+  registry,
+  units = DEFAULT_DISPLAY_UNITS,
+}) => {
+  const latestTimestamp = Math.max(...devices.map((item) => item.timestamp), 0);
+  const [selected, setSelected] = useState<string[]>(
+    devices.slice(0, MIN_DEVICES).map((item) => item.device_id)
+  );
+  const [range, setRange] = useState<TimeRange>({
+    start: latestTimestamp - DEFAULT_RANGE_MINUTES * 60000,
+    end: latestTimestamp,
+  });
+  const [alignment, setAlignment] = useState<Alignment>("absolute");
+  // 相对对齐时可供选择的架次和每个设备选中的架次，未选时使用公共时间范围
+  const [flights, setFlights] = useState<Record<string, FlightSession[]>>({});
+  const [chosen, setChosen] = useState<Record<string, FlightSession>>({});
+  const [fields, setFields] = useState<SeriesKey[]>(DEFAULT_FIELDS);
+  const [results, setResults] = useState<Record<string, DeviceResult>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const label = (deviceId: string): string =>
+    getDeviceLabel(deviceId, registry[deviceId]?.name);
+  const color = (deviceId: string): string =>
+    getDeviceColor(deviceId, registry[deviceId]?.color);
+
+  // 相对对齐时加载选中设备的架次列表，每个设备只加载一次
+  useEffect(() => {
+    if (alignment !== "relative") return;
+    const missing = selected.filter((deviceId) => !flights[deviceId]);
+    if (missing.length === 0) return;
+    setFlights((prev) => ({
+      ...prev,
+      ...Object.fromEntries(missing.map((deviceId) => [deviceId, []])),
+    }));
+    missing.forEach(async (deviceId) => {
+      try {
+        const list = await loadFlights(deviceId);
+        setFlights((prev) => ({ ...prev, [deviceId]: list }));
+      } catch (err) {
+        console.error("Error fetching flights:", err);
+      }
+    });
+  }, [alignment, selected, flights]);
+
+  // 设备实际查询的时间范围；相对对齐且选了架次时为该架次的起止时间
+  const deviceRange = (deviceId: string): TimeRange => {
+    const flight = chosen[deviceId];
+    if (alignment === "absolute" || !flight) {
+      return range;
+    }
+    return { start: flight.startTime, end: flight.endTime };
+  };
+
+  const chooseFlight = (deviceId: string, startTime: string) => {
+    const flight = flights[deviceId]?.find(
+      (item) => String(item.startTime) === startTime
+    );
+    setChosen((prev) => {
+      const rest = { ...prev };
+      delete rest[deviceId];
+      return flight ? { ...rest, [deviceId]: flight } : rest;
+    });
+  };
+
+  const toggleDevice = (deviceId: string) => {
+    setSelected((prev) =>
+      prev.includes(deviceId)
+        ? prev.filter((id) => id !== deviceId)
+        : prev.length < MAX_DEVICES
+          ? [...prev, deviceId]
+          : prev
+    );
+  };
+
+  const toggleField = (key: SeriesKey) => {
+    setFields((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  const compare = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const entries = await Promise.all(
+        selected.map(async (deviceId) => {
+          const deviceWindow = deviceRange(deviceId);
+          const [samples, stats] = await Promise.all([
+            loadSamples(deviceId, deviceWindow),
+            loadStats(deviceId, deviceWindow),
+          ]);
+          const origin =
+            alignment === "relative" && chosen[deviceId]
+              ? chosen[deviceId].startTime
+              : (samples.data[0]?.timestamp ?? deviceWindow.start);
+          return [deviceId, { ...samples, stats, origin }] as const;
+        })
+      );
+      setResults(Object.fromEntries(entries));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "获取对比数据失败");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 只显示当前仍选中且已加载的设备
+  const compared = selected.filter((deviceId) => results[deviceId]);
+  const series: ComparisonSeries[] = compared.map((deviceId) => {
+    const { data, origin } = results[deviceId];
+    return {
+      deviceId,
+      label: label(deviceId),
+      color: color(deviceId),
+      data,
+      offset: alignment === "relative" ? origin : 0,
+    };
+  });
+
+  return (
+    <div className="space-y-4">
+      {/* 设备选择 */}
+      <div>
+        <p className="text-sm text-gray-600 mb-2">
+          选择 {MIN_DEVICES}~{MAX_DEVICES} 个设备（已选 {selected.length}）
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {devices.map((item) => {
+            const active = selected.includes(item.device_id);
+            return (
+              <button
+                key={item.device_id}
+                onClick={() => toggleDevice(item.device_id)}
+                disabled={!active && selected.length >= MAX_DEVICES}
+                className={`px-2 py-1 text-sm rounded border transition-colors disabled:opacity-40 ${
+                  active
+                    ? "text-white"
+                    : "bg-white text-gray-700 border-gray-300"
+                }`}
+                style={
+                  active
+                    ? {
+                        backgroundColor: color(item.device_id),
+                        borderColor: color(item.device_id),
+                      }
+                    : undefined
+                }
+              >
+                {label(item.device_id)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* 时间范围和对齐方式 */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="datetime-local"
+          step={1}
+          value={toInputValue(range.start)}
+          onChange={(e) =>
+            setRange({ ...range, start: fromInputValue(e.target.value) })
+          }
+          className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+        />
+        <span className="text-gray-500">至</span>
+        <input
+          type="datetime-local"
+          step={1}
+          value={toInputValue(range.end)}
+          onChange={(e) =>
+            setRange({ ...range, end: fromInputValue(e.target.value) })
+          }
+          className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+        />
+        {QUICK_RANGES.map((minutes) => (
+          <button
+            key={minutes}
+            onClick={() =>
+              setRange({ start: range.end - minutes * 60000, end: range.end })
+            }
+            className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+          >
+            {minutes >= 60 ? `${minutes / 60} 小时` : `${minutes} 分钟`}
+          </button>
+        ))}
+        <select
+          value={alignment}
+          onChange={(e) => setAlignment(e.target.value as Alignment)}
+          className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+        >
+          <option value="absolute">对齐: 绝对时间</option>
+          <option value="relative">对齐: 各自起点</option>
+        </select>
+        <button
+          onClick={compare}
+          disabled={
+            loading || selected.length < MIN_DEVICES || range.end <= range.start
+          }
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 transition-colors"
+        >
+          {loading ? "加载中..." : "对比"}
+        </button>
+      </div>
+
+      {/* 相对对齐时可为每个设备选择一个架次，按架次开始时间对齐，用于对比不同时间的飞行 */}
+      {alignment === "relative" && selected.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {selected.map((deviceId) => (
+            <div key={deviceId} className="flex items-center gap-2">
+              <span
+                className="w-32 truncate"
+                style={{ color: color(deviceId) }}
+              >
+                {label(deviceId)}
+              </span>
+              <select
+                value={
+                  chosen[deviceId] ? String(chosen[deviceId].startTime) : ""
+                }
+                onChange={(e) => chooseFlight(deviceId, e.target.value)}
+                className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+              >
+                <option value="">使用公共时间范围</option>
+                {(flights[deviceId] || []).map((flight) => (
+                  <option
+                    key={flight.startTime}
+                    value={String(flight.startTime)}
+                  >
+                    {`${new Date(flight.startTime).toLocaleString()}（${formatDuration(flight.durationMs)}）`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {compared.length > 0 && (
+        <>
+          {/* 叠加曲线，每个字段一张图 */}
+          <div className="flex flex-wrap items-center gap-2">
+            {TELEMETRY_SERIES.map((s) => (
+              <button
+                key={s.key}
+                onClick={() => toggleField(s.key)}
+                className={`px-2 py-1 text-xs rounded border transition-colors ${
+                  fields.includes(s.key)
+                    ? "bg-gray-700 text-white border-gray-700"
+                    : "bg-white text-gray-600 border-gray-300"
+                }`}
+              >
+                {s.label} ({seriesUnit(s, units)})
+              </button>
+            ))}
+          </div>
+          {TELEMETRY_SERIES.filter((s) => fields.includes(s.key)).map((s) => (
+            <ComparisonChart
+              key={s.key}
+              series={series}
+              field={s.key}
+              relative={alignment === "relative"}
+              units={units}
+            />
+          ))}
+
+          {/* 地面轨迹 */}
+          <DroneMap
+            registry={registry}
+            devices={series
+              .filter((item) => item.data.length > 0)
+              .map((item) => item.data[item.data.length - 1])}
+            tracks={Object.fromEntries(
+              series.map((item) => [item.deviceId, item.data])
+            )}
+            height={320}
+          />
+
+          {/* 统计对比表 */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left">
+                  <th className="py-2 pr-4 font-medium text-gray-600">指标</th>
+                  {compared.map((deviceId) => (
+                    <th
+                      key={deviceId}
+                      className="py-2 pr-4 font-medium"
+                      style={{ color: color(deviceId) }}
+                    >
+                      {label(deviceId)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-100">
+                  <td className="py-1 pr-4 text-gray-600">样本数 / 分辨率</td>
+                  {compared.map((deviceId) => (
+                    <td key={deviceId} className="py-1 pr-4 font-mono">
+                      {results[deviceId].data.length} /{" "}
+                      {results[deviceId].resolution}
+                    </td>
+                  ))}
+                </tr>
+                {FLIGHT_STATS_ITEMS.map((item) => (
+                  <tr key={item.label} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 text-gray-600">{item.label}</td>
+                    {compared.map((deviceId) => {
+                      const stats = results[deviceId].stats;
+                      return (
+                        <td key={deviceId} className="py-1 pr-4 font-mono">
+                          {stats && stats.sampleCount > 0
+                            ? item.format(stats, units)
+                            : "-"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DeviceComparison;
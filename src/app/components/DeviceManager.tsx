@@ -0,0 +1,487 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { DeviceInfo, DeviceInput, FieldError } from "../../types";
+import { getDeviceColor, getDeviceLabel } from "../../lib/colors";
+import LoginForm from "./LoginForm";
+
+type RegisteredDevice = DeviceInfo & { lastSeen: number | null };
+
+interface RegistryResponse {
+  data: RegisteredDevice[];
+  count: number;
+}
+
+interface ErrorResponse {
+  error?: string;
+  details?: FieldError[] | string;
+}
+
+// 表单字段
+interface DeviceForm {
+  deviceId: string;
+  name: string;
+  model: string;
+  owner: string;
+  color: string;
+  notes: string;
+}
+
+const EMPTY_FORM: DeviceForm = {
+  deviceId: "",
+  name: "",
+  model: "",
+  owner: "",
+  color: "",
+  notes: "",
+};
+
+const FORM_FIELDS: {
+  key: keyof DeviceInput & keyof DeviceForm;
+  label: string;
+}[] = [
+  { key: "name", label: "名称" },
+  { key: "model", label: "型号" },
+  { key: "owner", label: "负责人" },
+  { key: "notes", label: "备注" },
+];
+
+// 把 API 错误转换成可读文本
+const describeError = (body: ErrorResponse, status: number): string => {
+  if (Array.isArray(body.details)) {
+    return body.details.map((e) => `${e.path} ${e.message}`).join("; ");
+  }
+  return body.details || body.error || `HTTP error! status: ${status}`;
+};
+
+// 设备管理：注册、改名、停用/启用、签发密钥和删除设备
+const DeviceManager: React.FC = () => {
+  const [devices, setDevices] = useState<RegisteredDevice[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [authRequired, setAuthRequired] = useState<boolean>(false);
+  const [form, setForm] = useState<DeviceForm>(EMPTY_FORM);
+  // 正在编辑的设备及其表单
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<DeviceForm>(EMPTY_FORM);
+  // 刚签发的密钥，只显示一次
+  const [issuedKey, setIssuedKey] = useState<{
+    deviceId: string;
+    apiKey: string;
+  } | null>(null);
+
+  const fetchDevices = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/devices/registry");
+
+      if (response.status === 401) {
+        setAuthRequired(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result: RegistryResponse = await response.json();
+      setDevices(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "获取设备失败");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  // 发送修改请求，成功后刷新列表
+  const request = async (
+    url: string,
+    method: string,
+    body?: unknown
+  ): Promise<any | null> => {
+    try {
+      setError(null);
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result: ErrorResponse & Record<string, unknown> =
+        await response.json();
+
+      if (!response.ok) {
+        throw new Error(describeError(result, response.status));
+      }
+
+      await fetchDevices();
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "操作失败");
+      return null;
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = await request("/api/devices", "POST", form);
+    if (result) {
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const startEdit = (device: RegisteredDevice) => {
+    setEditing(device.deviceId);
+    setEditForm({
+      deviceId: device.deviceId,
+      name: device.name || "",
+      model: device.model || "",
+      owner: device.owner || "",
+      color: device.color || "",
+      notes: device.notes || "",
+    });
+  };
+
+  const handleSave = async (deviceId: string) => {
+    const input: DeviceInput = {
+      name: editForm.name,
+      model: editForm.model,
+      owner: editForm.owner,
+      color: editForm.color,
+      notes: editForm.notes,
+    };
+    const result = await request(
+      `/api/devices/${encodeURIComponent(deviceId)}`,
+      "PATCH",
+      input
+    );
+    if (result) {
+      setEditing(null);
+    }
+  };
+
+  const toggleEnabled = (device: RegisteredDevice) =>
+    request(`/api/devices/${encodeURIComponent(device.deviceId)}`, "PATCH", {
+      enabled: !device.enabled,
+    });
+
+  const handleDelete = (device: RegisteredDevice) => {
+    if (
+      window.confirm(
+        `确定删除设备 ${getDeviceLabel(device.deviceId, device.name)}？已上报的数据会保留。`
+      )
+    ) {
+      request(`/api/devices/${encodeURIComponent(device.deviceId)}`, "DELETE");
+    }
+  };
+
+  const issueKey = async (device: RegisteredDevice) => {
+    if (
+      device.hasApiKey &&
+      !window.confirm("签发新密钥会使旧密钥立即失效，确定继续？")
+    ) {
+      return;
+    }
+    const result = await request("/api/devices/keys", "POST", {
+      deviceId: device.deviceId,
+    });
+    if (result) {
+      setIssuedKey({ deviceId: device.deviceId, apiKey: result.apiKey });
+    }
+  };
+
+  const renderInput = (
+    value: string,
+    onChange: (value: string) => void,
+    placeholder: string
+  ) => (
+    <input
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      placeholder={placeholder}
+      className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+    />
+  );
+
+  if (authRequired) {
+    return (
+      <div className="max-w-7xl mx-auto p-6 bg-gray-50 min-h-screen">
+        <LoginForm
+          onSuccess={() => {
+            setAuthRequired(false);
+            fetchDevices();
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 bg-gray-50 min-h-screen">
+      <div className="flex justify-between items-center mb-8 pb-6 border-b-2 border-gray-200">
+        <h1 className="text-3xl font-bold text-gray-800">设备管理</h1>
+        <Link
+          href="/"
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          返回监控
+        </Link>
+      </div>
+
+      {/* 错误显示 */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-700">错误: {error}</p>
+        </div>
+      )}
+
+      {/* 新签发的密钥 */}
+      {issuedKey && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <p className="text-yellow-800 font-medium mb-1">
+                设备 {issuedKey.deviceId} 的新密钥（只显示一次，请妥善保存）
+              </p>
+              <p className="font-mono text-sm text-gray-800 break-all">
+                {issuedKey.apiKey}
+              </p>
+            </div>
+            <button
+              onClick={() => setIssuedKey(null)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              关闭
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 注册设备 */}
+      <form
+        onSubmit={handleCreate}
+        className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-8"
+      >
+        <h2 className="text-xl font-bold text-gray-800 mb-4">注册设备</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {renderInput(
+            form.deviceId,
+            (deviceId) => setForm({ ...form, deviceId }),
+            "设备 ID（必填）"
+          )}
+          {FORM_FIELDS.map((field) => (
+            <div key={field.key}>
+              {renderInput(
+                form[field.key],
+                (value) => setForm({ ...form, [field.key]: value }),
+                field.label
+              )}
+            </div>
+          ))}
+          <input
+            type="color"
+            value={form.color || getDeviceColor(form.deviceId)}
+            onChange={(event) =>
+              setForm({ ...form, color: event.target.value })
+            }
+            className="h-8 w-16 border border-gray-300 rounded"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!form.deviceId.trim()}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+        >
+          注册
+        </button>
+      </form>
+
+      {/* 设备列表 */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">
+          已注册设备 ({devices.length})
+        </h2>
+        {loading && devices.length === 0 ? (
+          <p className="text-gray-500">正在加载...</p>
+        ) : devices.length === 0 ? (
+          <p className="text-gray-500">暂无注册设备</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-3">设备</th>
+                <th className="py-2 pr-3">型号</th>
+                <th className="py-2 pr-3">负责人</th>
+                <th className="py-2 pr-3">备注</th>
+                <th className="py-2 pr-3">状态</th>
+                <th className="py-2 pr-3">注册时间</th>
+                <th className="py-2 pr-3">最后上报</th>
+                <th className="py-2">操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {devices.map((device) =>
+                editing === device.deviceId ? (
+                  <tr
+                    key={device.deviceId}
+                    className="border-b border-gray-100"
+                  >
+                    <td className="py-2 pr-3">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={
+                            editForm.color || getDeviceColor(device.deviceId)
+                          }
+                          onChange={(event) =>
+                            setEditForm({
+                              ...editForm,
+                              color: event.target.value,
+                            })
+                          }
+                          className="h-7 w-10 border border-gray-300 rounded"
+                        />
+                        {renderInput(
+                          editForm.name,
+                          (name) => setEditForm({ ...editForm, name }),
+                          "名称"
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3">
+                      {renderInput(
+                        editForm.model,
+                        (model) => setEditForm({ ...editForm, model }),
+                        "型号"
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {renderInput(
+                        editForm.owner,
+                        (owner) => setEditForm({ ...editForm, owner }),
+                        "负责人"
+                      )}
+                    </td>
+                    <td className="py-2 pr-3" colSpan={4}>
+                      {renderInput(
+                        editForm.notes,
+                        (notes) => setEditForm({ ...editForm, notes }),
+                        "备注"
+                      )}
+                    </td>
+                    <td className="py-2 whitespace-nowrap">
+                      <button
+                        onClick={() => handleSave(device.deviceId)}
+                        className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 mr-2"
+                      >
+                        保存
+                      </button>
+                      <button
+                        onClick={() => setEditing(null)}
+                        className="px-2 py-1 text-gray-600 hover:text-gray-800"
+                      >
+                        取消
+                      </button>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr
+                    key={device.deviceId}
+                    className={`border-b border-gray-100 ${
+                      device.enabled ? "" : "opacity-60"
+                    }`}
+                  >
+                    <td className="py-2 pr-3">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="inline-block w-3 h-3 rounded-sm"
+                          style={{
+                            backgroundColor: getDeviceColor(
+                              device.deviceId,
+                              device.color
+                            ),
+                          }}
+                        ></span>
+                        <div>
+                          <p className="font-medium text-gray-800">
+                            {getDeviceLabel(device.deviceId, device.name)}
+                          </p>
+                          <p className="font-mono text-xs text-gray-500">
+                            {device.deviceId}
+                          </p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 text-gray-700">
+                      {device.model || "—"}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-700">
+                      {device.owner || "—"}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-700 max-w-xs truncate">
+                      {device.notes || "—"}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span
+                        className={
+                          device.enabled ? "text-green-600" : "text-red-600"
+                        }
+                      >
+                        {device.enabled ? "启用" : "已停用"}
+                      </span>
+                      {!device.hasApiKey && (
+                        <span className="ml-2 text-xs text-yellow-600">
+                          无密钥
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-500 font-mono">
+                      {device.createdAt}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-500 font-mono">
+                      {device.lastSeen
+                        ? new Date(device.lastSeen).toLocaleString()
+                        : "—"}
+                    </td>
+                    <td className="py-2 whitespace-nowrap space-x-2">
+                      <button
+                        onClick={() => startEdit(device)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        编辑
+                      </button>
+                      <button
+                        onClick={() => toggleEnabled(device)}
+                        className="text-yellow-600 hover:text-yellow-800"
+                      >
+                        {device.enabled ? "停用" : "启用"}
+                      </button>
+                      <button
+                        onClick={() => issueKey(device)}
+                        className="text-gray-600 hover:text-gray-800"
+                      >
+                        {device.hasApiKey ? "重置密钥" : "签发密钥"}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(device)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        删除
+                      </button>
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeviceManager;
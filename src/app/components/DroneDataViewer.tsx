@@ -1,34 +1,212 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-
-// 定义数据类型
-interface DroneData {
-  id: number;
-  device_id: string;
-  formatted_time: string;
-  timestamp: number;
-  latitude: number;
-  longitude: number;
-  pitch: number;
-  yaw: number;
-  roll: number;
-  speed: number;
-  velocity_x: number;
-  velocity_y: number;
-  velocity_z: number;
-  horizontal_speed: number;
-  vertical_speed: number;
-  flight_direction: number;
-  ground_distance: number;
-  created_at: string;
-}
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import {
+  Alert,
+  AlertSeverity,
+  DataResolution,
+  DeviceInfo,
+  DeviceQualitySummary,
+  DeviceStatus,
+  DisplayUnits,
+  DistanceUnit,
+  DroneData,
+  FlightStats,
+  Geofence,
+  GeofenceEvent,
+  GeofenceViolationType,
+  HeartbeatThresholds,
+  Mission,
+  MissionAssignment,
+  QualityReason,
+  SpeedUnit,
+  TelemetryExtraValue,
+} from "../../types";
+import { getDeviceColor, getDeviceLabel } from "../../lib/colors";
+import { fromInputValue, toInputValue } from "../../lib/time";
+import {
+  DEFAULT_DISPLAY_UNITS,
+  DISTANCE_UNIT_LABELS,
+  formatQuantity,
+  SPEED_UNIT_LABELS,
+} from "../../lib/units";
+import {
+  DEFAULT_HEARTBEAT_THRESHOLDS,
+  getDeviceStatus,
+} from "../../lib/deviceStatus";
+import DroneMap, { MapRoute } from "./DroneMap";
+import TelemetryChart from "./TelemetryChart";
+import FlightReplay from "./FlightReplay";
+import FlightStatsCard from "./FlightStatsCard";
+import DataImport from "./DataImport";
+import DeviceComparison from "./DeviceComparison";
+import CommandPanel from "./CommandPanel";
+import MissionPanel, { ASSIGNMENT_STATUS_STYLES } from "./MissionPanel";
+import LoginForm from "./LoginForm";
 
 interface APIResponse {
   data: DroneData[];
+  resolution?: DataResolution;
+  count: number;
+  next: string | null;
+}
+
+interface DevicesResponse extends HeartbeatThresholds {
+  data: (DroneData & { device: DeviceInfo | null })[];
+  serverTime: number;
   count: number;
 }
 
+interface StatsResponse {
+  data: FlightStats;
+  truncated: boolean;
+}
+
+// 设备状态的显示样式
+const DEVICE_STATUS_STYLES: Record<
+  DeviceStatus,
+  { label: string; dot: string; text: string }
+> = {
+  online: { label: "在线", dot: "bg-green-500", text: "text-green-600" },
+  stale: { label: "延迟", dot: "bg-yellow-500", text: "text-yellow-600" },
+  offline: { label: "离线", dot: "bg-gray-400", text: "text-gray-500" },
+};
+
+// 围栏违规类型的显示文字
+const VIOLATION_LABELS: Record<GeofenceViolationType, string> = {
+  entered_restricted_zone: "进入禁飞区",
+  left_allowed_area: "离开允许区域",
+  exceeded_ceiling: "超过限高",
+};
+
+// 违规列表显示的最大条数，以及实时模式下的刷新间隔（毫秒）
+const GEOFENCE_EVENT_LIMIT = 20;
+const GEOFENCE_REFRESH_INTERVAL = 10000;
+
+// 实时模式下各面板共用的刷新计时器周期（毫秒），各面板的刷新间隔为它的整数倍
+const PANEL_REFRESH_TICK = 5000;
+
+// 告警级别的显示样式
+const ALERT_SEVERITY_STYLES: Record<
+  AlertSeverity,
+  { label: string; badge: string }
+> = {
+  info: { label: "提示", badge: "bg-blue-100 text-blue-700" },
+  warning: { label: "警告", badge: "bg-yellow-100 text-yellow-800" },
+  critical: { label: "严重", badge: "bg-red-100 text-red-700" },
+};
+
+// 实时模式下告警的刷新间隔（毫秒）
+const ALERT_REFRESH_INTERVAL = 5000;
+
+// 数据质量标记的原因名称
+const QUALITY_REASON_LABELS: Record<QualityReason, string> = {
+  gps_jump: "位置跳变",
+  timestamp_regression: "时间倒退",
+  speed_mismatch: "速度与速度向量不符",
+};
+
+// 按最近 1 小时被标记样本的比例划分数据质量等级
+const QUALITY_LEVELS = [
+  { maxRatio: 0.01, label: "数据良好", badge: "bg-green-100 text-green-700" },
+  { maxRatio: 0.1, label: "数据一般", badge: "bg-yellow-100 text-yellow-800" },
+  { maxRatio: Infinity, label: "数据较差", badge: "bg-red-100 text-red-700" },
+];
+
+// 实时模式下数据质量汇总的刷新间隔（毫秒）
+const QUALITY_REFRESH_INTERVAL = 30000;
+
+// 查询的最近任务分配数，以及实时模式下任务进度的刷新间隔（毫秒）
+const MISSION_ASSIGNMENT_LIMIT = 100;
+const MISSION_REFRESH_INTERVAL = 5000;
+
+// 地图上每个设备保留的最大轨迹点数
+const MAX_TRACK_POINTS = 500;
+
+// 把新样本合并到设备轨迹中（按时间升序、去重、限制长度）
+const mergeTrack = (
+  track: DroneData[] = [],
+  samples: DroneData[]
+): DroneData[] => {
+  const byId = new Map<number, DroneData>();
+  [...track, ...samples].forEach((item) => byId.set(item.id, item));
+  return Array.from(byId.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-MAX_TRACK_POINTS);
+};
+
+// 历史数据的时间范围（毫秒时间戳）
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// 历史数据快捷时间范围（分钟）
+const QUICK_RANGES = [5, 10, 30, 60, 360, 1440, 10080];
+
+// 历史数据分辨率选项，auto 由服务器按时间跨度选择
+type ResolutionOption = DataResolution | "auto";
+const RESOLUTION_LABELS: Record<ResolutionOption, string> = {
+  auto: "自动",
+  raw: "原始",
+  "1s": "1 秒",
+  "1m": "1 分钟",
+};
+const DEFAULT_RANGE_MINUTES = 10;
+// 历史数据每页条数和最多加载的页数
+const HISTORY_PAGE_SIZE = 5000;
+const HISTORY_MAX_PAGES = 10;
+// 历史弹窗中列表显示的最大条数
+const HISTORY_LIST_LIMIT = 20;
+
+// 历史弹窗中提供的导出格式
+const EXPORT_OPTIONS = [
+  { format: "csv", label: "CSV" },
+  { format: "geojson", label: "GeoJSON" },
+  { format: "kml", label: "KML" },
+  { format: "gpx", label: "GPX" },
+];
+
+type StreamStatus = "connecting" | "open" | "closed";
+
+// 电量低于该百分比时以红色显示
+const LOW_BATTERY_PERCENT = 20;
+
+// 解析样本的自定义遥测（JSON），无效或为空时返回 null
+const parseExtras = (
+  extras: string | null | undefined
+): Record<string, TelemetryExtraValue> | null => {
+  if (!extras) return null;
+  try {
+    const parsed = JSON.parse(extras);
+    return typeof parsed === "object" &&
+      parsed !== null &&
+      Object.keys(parsed).length > 0
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// 实时流断开后的重连延迟（毫秒）
+const RECONNECT_DELAY = 3000;
+
+// 合并一条新样本到每个设备的最新数据列表
+const mergeLatestSample = (
+  list: DroneData[],
+  sample: DroneData
+): DroneData[] => {
+  const existing = list.find((item) => item.device_id === sample.device_id);
+  if (existing && existing.timestamp >= sample.timestamp) {
+    return list;
+  }
+  return [
+    sample,
+    ...list.filter((item) => item.device_id !== sample.device_id),
+  ].sort((a, b) => b.timestamp - a.timestamp);
+};
+
 const DroneDataViewer: React.FC = () => {
   const [latestDeviceData, setLatestDeviceData] = useState<DroneData[]>([]);
   const [historyData, setHistoryData] = useState<DroneData[]>([]);
@@ -38,9 +216,60 @@ const DroneDataViewer: React.FC = () => {
   const [lastUpdated, setLastUpdated] = useState<string>("");
   const [showHistory, setShowHistory] = useState<boolean>(false);
   const [selectedDevice, setSelectedDevice] = useState<string>("");
-  const [isPolling, setIsPolling] = useState<boolean>(false);
+  const [historyRange, setHistoryRange] = useState<TimeRange | null>(null);
+  const [historyResolution, setHistoryResolution] =
+    useState<ResolutionOption>("auto");
+  // 服务器实际使用的分辨率
+  const [loadedResolution, setLoadedResolution] =
+    useState<DataResolution>("raw");
+  const [historyStats, setHistoryStats] = useState<FlightStats | null>(null);
+  const [historyStatsTruncated, setHistoryStatsTruncated] =
+    useState<boolean>(false);
+  const [authRequired, setAuthRequired] = useState<boolean>(false);
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const [showCompare, setShowCompare] = useState<boolean>(false);
+  // 正在下发命令的设备
+  const [commandDevice, setCommandDevice] = useState<string | null>(null);
+  const [missionDevice, setMissionDevice] = useState<string | null>(null);
+  const [historyMode, setHistoryMode] = useState<"chart" | "replay">("chart");
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>("closed");
+  // 最后收到的事件 id 和样本时间戳，用于断线后续传
+  const lastEventIdRef = useRef<string | null>(null);
+  const lastTimestampRef = useRef<number>(0);
+  const [thresholds, setThresholds] = useState<HeartbeatThresholds>(
+    DEFAULT_HEARTBEAT_THRESHOLDS
+  );
+  // 服务器与浏览器的时钟差，用于计算设备状态
+  const [clockOffset, setClockOffset] = useState<number>(0);
+  const [now, setNow] = useState<number>(Date.now());
+  // 地图轨迹：按设备保存的历史点
+  const [tracks, setTracks] = useState<Record<string, DroneData[]>>({});
+  const [mapDevice, setMapDevice] = useState<string>("");
+  // 设备注册信息（名称、颜色等）
+  const [registry, setRegistry] = useState<Record<string, DeviceInfo>>({});
+  // 地理围栏和最近的违规事件
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [geofenceEvents, setGeofenceEvents] = useState<GeofenceEvent[]>([]);
+  // 未关闭的告警（open 和 acknowledged）
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  // 航线任务和最近的任务分配
+  const [missions, setMissions] = useState<Mission[]>([]);
+  const [missionAssignments, setMissionAssignments] = useState<
+    MissionAssignment[]
+  >([]);
+  // 每个设备最近的数据质量汇总
+  const [quality, setQuality] = useState<Record<string, DeviceQualitySummary>>(
+    {}
+  );
+  // 历史数据是否排除有质量标记的样本
+  const [hideFlagged, setHideFlagged] = useState<boolean>(true);
+  // 速度和距离的显示单位，数据始终以 m/s、m 保存
+  const [displayUnits, setDisplayUnits] = useState<DisplayUnits>(
+    DEFAULT_DISPLAY_UNITS
+  );
 
-  // 获取所有数据并处理成每个设备的最新数据
+  // 获取每个设备的最新数据
   const fetchLatestData = async (
     showLoadingSpinner: boolean = false
   ): Promise<void> => {
@@ -48,30 +277,36 @@ const DroneDataViewer: React.FC = () => {
       if (showLoadingSpinner) {
         setLoading(true);
       }
-      const response = await fetch("/api/flightdata?limit=100"); // 获取更多数据用于分组
+      const response = await fetch("/api/devices");
+
+      // 未登录或令牌失效时显示登录表单
+      if (response.status === 401) {
+        setAuthRequired(true);
+        setIsStreaming(false);
+        return;
+      }
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const result: APIResponse = await response.json();
+      const result: DevicesResponse = await response.json();
 
       if (result.data) {
-        // 按设备分组，每个设备只保留最新的一条数据
-        const deviceMap = new Map<string, DroneData>();
-
+        // 服务器已按设备去重并按时间倒序排列
+        setLatestDeviceData(result.data);
+        const devices: Record<string, DeviceInfo> = {};
         result.data.forEach((item) => {
-          const existing = deviceMap.get(item.device_id);
-          if (!existing || item.timestamp > existing.timestamp) {
-            deviceMap.set(item.device_id, item);
+          if (item.device) {
+            devices[item.device_id] = item.device;
           }
         });
-
-        const latestData = Array.from(deviceMap.values()).sort(
-          (a, b) => b.timestamp - a.timestamp
-        ); // 按时间倒序排列
-
-        setLatestDeviceData(latestData);
+        setRegistry(devices);
+        setThresholds({
+          heartbeatMs: result.heartbeatMs,
+          offlineMs: result.offlineMs,
+        });
+        setClockOffset(result.serverTime - Date.now());
         setLastUpdated(new Date().toLocaleString());
         setError(null);
       } else {
@@ -86,24 +321,210 @@ const DroneDataViewer: React.FC = () => {
     }
   };
 
-  // 获取特定设备的历史数据
-  const fetchHistoryData = async (deviceId: string): Promise<void> => {
+  // 获取地理围栏和最近的违规事件，失败时不影响其他数据显示
+  const fetchGeofences = async (): Promise<void> => {
     try {
-      setHistoryLoading(true);
-      const response = await fetch(
-        `/api/flightdata?deviceId=${deviceId}&limit=20`
-      );
+      const [fenceResponse, eventResponse] = await Promise.all([
+        fetch("/api/geofences"),
+        fetch(`/api/geofences/events?limit=${GEOFENCE_EVENT_LIMIT}`),
+      ]);
+      if (fenceResponse.ok) {
+        const result: { data: Geofence[] } = await fenceResponse.json();
+        setGeofences(result.data);
+      }
+      if (eventResponse.ok) {
+        const result: { data: GeofenceEvent[] } = await eventResponse.json();
+        setGeofenceEvents(result.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch geofences:", err);
+    }
+  };
 
-      if (!response.ok) {
+  // 获取航线任务和最近的任务分配，失败时不影响其他数据显示
+  const fetchMissions = async (): Promise<void> => {
+    try {
+      const [missionResponse, assignmentResponse] = await Promise.all([
+        fetch("/api/missions"),
+        fetch(`/api/missions/assignments?limit=${MISSION_ASSIGNMENT_LIMIT}`),
+      ]);
+      if (missionResponse.ok) {
+        const result: { data: Mission[] } = await missionResponse.json();
+        setMissions(result.data);
+      }
+      if (assignmentResponse.ok) {
+        const result: { data: MissionAssignment[] } =
+          await assignmentResponse.json();
+        setMissionAssignments(result.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch missions:", err);
+    }
+  };
+
+  // 获取未关闭的告警
+  const fetchAlerts = async (): Promise<void> => {
+    try {
+      const response = await fetch("/api/alerts?status=active");
+      if (response.ok) {
+        const result: { data: Alert[] } = await response.json();
+        setAlerts(result.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch alerts:", err);
+    }
+  };
+
+  // 获取各设备最近的数据质量汇总
+  const fetchQuality = async (): Promise<void> => {
+    try {
+      const response = await fetch("/api/flightdata/quality");
+      if (response.ok) {
+        const result: { data: DeviceQualitySummary[] } = await response.json();
+        setQuality(
+          Object.fromEntries(
+            result.data.map((summary) => [summary.deviceId, summary])
+          )
+        );
+      }
+    } catch (err) {
+      console.error("Failed to fetch data quality:", err);
+    }
+  };
+
+  // 确认或关闭告警（需要管理员权限）
+  const updateAlert = async (
+    alertId: number,
+    status: "acknowledged" | "resolved"
+  ): Promise<void> => {
+    try {
+      const response = await fetch(`/api/alerts/${alertId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      if (response.status === 401 || response.status === 403) {
+        setError("需要管理员权限才能处理告警");
+        return;
+      }
+      // 409 表示告警状态已被其他人更新，直接刷新即可
+      if (!response.ok && response.status !== 409) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
+      await fetchAlerts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "处理告警失败");
+    }
+  };
 
-      const result: APIResponse = await response.json();
+  const openAlertCount = alerts.filter(
+    (alert) => alert.status === "open"
+  ).length;
 
-      if (result.data) {
-        setHistoryData(result.data);
-        setSelectedDevice(deviceId);
-        setShowHistory(true);
+  // 正在违反围栏的设备
+  const violatingDevices = useMemo(
+    () =>
+      new Set(
+        geofenceEvents
+          .filter((event) => event.endedAt === null)
+          .map((event) => event.deviceId)
+      ),
+    [geofenceEvents]
+  );
+
+  // 每个设备最近的一次任务分配（列表按开始时间倒序）
+  const latestAssignments = useMemo(() => {
+    const latest = new Map<string, MissionAssignment>();
+    for (const assignment of missionAssignments) {
+      if (!latest.has(assignment.deviceId)) {
+        latest.set(assignment.deviceId, assignment);
+      }
+    }
+    return latest;
+  }, [missionAssignments]);
+
+  // 正在执行的任务在地图上显示计划航线
+  const missionRoutes = useMemo((): MapRoute[] => {
+    const byId = new Map(missions.map((mission) => [mission.id, mission]));
+    return Array.from(latestAssignments.values())
+      .filter((assignment) => assignment.status === "active")
+      .flatMap((assignment) => {
+        const mission = byId.get(assignment.missionId);
+        return mission
+          ? [
+              {
+                deviceId: assignment.deviceId,
+                waypoints: mission.waypoints,
+                nextWaypoint: assignment.nextWaypoint,
+              },
+            ]
+          : [];
+      });
+  }, [missions, latestAssignments]);
+
+  // 设备显示名称
+  const deviceLabel = (deviceId: string): string =>
+    getDeviceLabel(deviceId, registry[deviceId]?.name);
+
+  // 计算设备当前状态
+  const getStatus = (item: DroneData): DeviceStatus =>
+    getDeviceStatus(item.timestamp, now + clockOffset, thresholds);
+
+  const onlineCount = latestDeviceData.filter(
+    (item) => getStatus(item) === "online"
+  ).length;
+
+  // 获取特定设备在时间范围内的历史数据
+  const fetchHistoryData = async (
+    deviceId: string,
+    range: TimeRange,
+    resolution: ResolutionOption = historyResolution,
+    excludeFlagged: boolean = hideFlagged
+  ): Promise<void> => {
+    try {
+      setHistoryLoading(true);
+      setSelectedDevice(deviceId);
+      setHistoryRange(range);
+      setShowHistory(true);
+      // 按游标逐页加载，超过页数上限时只显示已加载的部分
+      const rows: DroneData[] = [];
+      let resolved: DataResolution = "raw";
+      let cursor: string | null = null;
+      for (let page = 0; page < HISTORY_MAX_PAGES; page++) {
+        const params = new URLSearchParams({
+          deviceId,
+          startTime: String(range.start),
+          endTime: String(range.end),
+          // 后续页沿用第一页实际使用的分辨率，避免 auto 在翻页间切换
+          resolution: page === 0 ? resolution : resolved,
+          limit: String(HISTORY_PAGE_SIZE),
+          quality: excludeFlagged ? "clean" : "all",
+        });
+        if (cursor) {
+          params.set("cursor", cursor);
+        }
+        const response = await fetch(`/api/flightdata?${params.toString()}`);
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const result: APIResponse = await response.json();
+        rows.push(...result.data);
+        resolved = result.resolution || "raw";
+        cursor = result.next;
+        if (!cursor) break;
+      }
+
+      setHistoryData(rows);
+      setLoadedResolution(resolved);
+      fetchHistoryStats(deviceId, range);
+      // 聚合数据是桶内平均值，不合并到实时轨迹中
+      if (resolved === "raw") {
+        setTracks((prev) => ({
+          ...prev,
+          [deviceId]: mergeTrack(prev[deviceId], rows),
+        }));
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "获取历史数据失败");
@@ -112,31 +533,186 @@ const DroneDataViewer: React.FC = () => {
     }
   };
 
-  // 组件挂载时获取数据并设置轮询
+  // 获取时间范围内的飞行统计，始终基于原始数据计算，失败时不影响历史数据显示
+  const fetchHistoryStats = async (
+    deviceId: string,
+    range: TimeRange
+  ): Promise<void> => {
+    setHistoryStats(null);
+    try {
+      const params = new URLSearchParams({
+        deviceId,
+        startTime: String(range.start),
+        endTime: String(range.end),
+      });
+      const response = await fetch(
+        `/api/flightdata/stats?${params.toString()}`
+      );
+      if (!response.ok) return;
+      const result: StatsResponse = await response.json();
+      setHistoryStats(result.data);
+      setHistoryStatsTruncated(result.truncated);
+    } catch (err) {
+      console.error("获取飞行统计失败:", err);
+    }
+  };
+
+  // 打开历史弹窗，默认显示设备最后上报前 10 分钟的数据
+  const openHistory = (item: DroneData) => {
+    fetchHistoryData(item.device_id, {
+      start: item.timestamp - DEFAULT_RANGE_MINUTES * 60000,
+      end: item.timestamp,
+    });
+  };
+
+  // 以当前结束时间为基准切换快捷时间范围
+  const selectQuickRange = (minutes: number) => {
+    if (!historyRange) return;
+    fetchHistoryData(selectedDevice, {
+      start: historyRange.end - minutes * 60000,
+      end: historyRange.end,
+    });
+  };
+
+  // 组件挂载时获取数据
   useEffect(() => {
     fetchLatestData(true); // 首次加载显示加载动画
+    fetchGeofences();
+    fetchAlerts();
+    fetchQuality();
+    fetchMissions();
+  }, []);
 
-    // 设置每秒轮询一次
-    const interval = setInterval(() => {
-      if (isPolling) {
-        fetchLatestData(false); // 轮询时不显示加载动画
+  // 实时模式下用同一个计时器按各自的间隔刷新面板数据
+  useEffect(() => {
+    if (!isStreaming) return;
+    const refreshes: [() => void, number][] = [
+      [fetchGeofences, GEOFENCE_REFRESH_INTERVAL],
+      [fetchAlerts, ALERT_REFRESH_INTERVAL],
+      [fetchQuality, QUALITY_REFRESH_INTERVAL],
+      [fetchMissions, MISSION_REFRESH_INTERVAL],
+    ];
+    let elapsed = 0;
+    const timer = setInterval(() => {
+      elapsed += PANEL_REFRESH_TICK;
+      for (const [refresh, interval] of refreshes) {
+        if (elapsed % interval === 0) {
+          refresh();
+        }
       }
-    }, 1000);
+    }, PANEL_REFRESH_TICK);
+    return () => clearInterval(timer);
+  }, [isStreaming]);
+
+  // 每秒刷新当前时间，使设备状态随时间更新
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 记录已显示数据的最新时间戳，作为首次连接实时流的起点
+  useEffect(() => {
+    if (latestDeviceData.length > 0) {
+      lastTimestampRef.current = Math.max(
+        lastTimestampRef.current,
+        latestDeviceData[0].timestamp
+      );
+    }
+  }, [latestDeviceData]);
+
+  // 订阅实时数据流，断开后自动重连并从上次位置续传
+  useEffect(() => {
+    if (!isStreaming) {
+      setStreamStatus("closed");
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const connect = () => {
+      const params = new URLSearchParams();
+      if (lastEventIdRef.current) {
+        params.set("after", lastEventIdRef.current);
+      } else if (lastTimestampRef.current > 0) {
+        params.set("since", String(lastTimestampRef.current));
+      }
+
+      setStreamStatus("connecting");
+      source = new EventSource(`/api/flightdata/stream?${params.toString()}`);
+
+      source.onopen = () => {
+        setStreamStatus("open");
+        setError(null);
+      };
+
+      source.addEventListener("sample", (event) => {
+        const message = event as MessageEvent<string>;
+        const sample: DroneData = JSON.parse(message.data);
+        lastEventIdRef.current = message.lastEventId;
+        setLatestDeviceData((prev) => mergeLatestSample(prev, sample));
+        setTracks((prev) => ({
+          ...prev,
+          [sample.device_id]: mergeTrack(prev[sample.device_id], [sample]),
+        }));
+        setLastUpdated(new Date().toLocaleString());
+      });
+
+      source.onerror = () => {
+        // 浏览器会自动重连（CONNECTING）；连接被关闭时手动重连
+        if (source?.readyState === EventSource.CLOSED && !disposed) {
+          source.close();
+          setStreamStatus("connecting");
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        } else {
+          setStreamStatus("connecting");
+        }
+      };
+    };
 
-    // 清理函数：组件卸载时清除定时器
+    connect();
+
+    // 清理函数：关闭连接并取消重连
     return () => {
-      clearInterval(interval);
+      disposed = true;
+      source?.close();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
     };
-  }, [isPolling]);
+  }, [isStreaming]);
 
-  // 切换轮询状态
-  const togglePolling = () => {
-    setIsPolling(!isPolling);
+  // 切换实时推送状态
+  const toggleStreaming = () => {
+    setIsStreaming(!isStreaming);
+  };
+
+  // 登录成功后重新加载
+  const handleLogin = () => {
+    setAuthRequired(false);
+    fetchLatestData(true);
+    fetchGeofences();
+    fetchAlerts();
+    fetchQuality();
+    fetchMissions();
+  };
+
+  // 退出登录
+  const handleLogout = async () => {
+    await fetch("/api/auth", { method: "DELETE" });
+    setIsStreaming(false);
+    setLatestDeviceData([]);
+    setAuthRequired(true);
   };
 
   // 手动刷新数据
   const handleManualRefresh = () => {
     fetchLatestData(true);
+    fetchGeofences();
+    fetchAlerts();
+    fetchQuality();
+    fetchMissions();
   };
 
   // 格式化数值显示
@@ -144,29 +720,263 @@ const DroneDataViewer: React.FC = () => {
     return num.toFixed(decimals);
   };
 
+  const formatSpeed = (value: number): string =>
+    formatQuantity(value, "speed", displayUnits);
+
+  const formatDistance = (value: number): string =>
+    formatQuantity(value, "distance", displayUnits);
+
+  // 渲染扩展遥测：电池、定位与链路、飞控状态和自定义遥测，只显示设备上报了的卡片
+  const renderTelemetryChannels = (item: DroneData) => {
+    const hasBattery =
+      item.battery_percent != null || item.battery_voltage != null;
+    const hasLink =
+      item.gps_satellites != null || item.gps_hdop != null || item.rssi != null;
+    const hasStatus = item.flight_mode != null || item.armed != null;
+    const extras = parseExtras(item.extras);
+    if (!hasBattery && !hasLink && !hasStatus && !extras) return null;
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+        {hasBattery && (
+          <div className="bg-yellow-50 p-4 rounded-lg">
+            <h4 className="font-medium text-yellow-800 mb-2">电池</h4>
+            <div className="space-y-1 text-sm text-yellow-700">
+              {item.battery_percent != null && (
+                <>
+                  <p
+                    className={
+                      item.battery_percent < LOW_BATTERY_PERCENT
+                        ? "text-red-600 font-medium"
+                        : undefined
+                    }
+                  >
+                    电量: {formatNumber(item.battery_percent, 0)}%
+                  </p>
+                  <div className="w-full h-2 bg-yellow-100 rounded">
+                    <div
+                      className={`h-2 rounded ${
+                        item.battery_percent < LOW_BATTERY_PERCENT
+                          ? "bg-red-500"
+                          : "bg-yellow-500"
+                      }`}
+                      style={{
+                        width: `${Math.min(Math.max(item.battery_percent, 0), 100)}%`,
+                      }}
+                    ></div>
+                  </div>
+                </>
+              )}
+              {item.battery_voltage != null && (
+                <p>电压: {formatNumber(item.battery_voltage)} V</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {hasLink && (
+          <div className="bg-teal-50 p-4 rounded-lg">
+            <h4 className="font-medium text-teal-800 mb-2">定位与链路</h4>
+            <div className="space-y-1 text-sm text-teal-700">
+              {item.gps_satellites != null && (
+                <p>卫星数: {item.gps_satellites}</p>
+              )}
+              {item.gps_hdop != null && (
+                <p>HDOP: {formatNumber(item.gps_hdop, 1)}</p>
+              )}
+              {item.rssi != null && (
+                <p>信号强度: {formatNumber(item.rssi, 0)} dBm</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {hasStatus && (
+          <div className="bg-slate-100 p-4 rounded-lg">
+            <h4 className="font-medium text-slate-800 mb-2">飞控状态</h4>
+            <div className="space-y-1 text-sm text-slate-700">
+              {item.flight_mode != null && <p>飞行模式: {item.flight_mode}</p>}
+              {item.armed != null && (
+                <p>
+                  解锁状态:{" "}
+                  <span
+                    className={
+                      item.armed ? "text-red-600 font-medium" : "text-gray-500"
+                    }
+                  >
+                    {item.armed ? "已解锁" : "未解锁"}
+                  </span>
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {extras && (
+          <div className="bg-gray-100 p-4 rounded-lg">
+            <h4 className="font-medium text-gray-800 mb-2">自定义遥测</h4>
+            <div className="space-y-1 text-sm text-gray-700">
+              {Object.entries(extras).map(([key, value]) => (
+                <p key={key}>
+                  <span className="font-mono">{key}</span>:{" "}
+                  {typeof value === "number" && !Number.isInteger(value)
+                    ? formatNumber(value)
+                    : String(value)}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // 设备最近一次任务的进度：完成百分比、航点、当前航段和偏航
+  const renderMissionProgress = (deviceId: string) => {
+    const assignment = latestAssignments.get(deviceId);
+    if (!assignment) return null;
+    const mission = missions.find((item) => item.id === assignment.missionId);
+    const waypointCount = mission?.waypoints.length ?? 0;
+    const nextWaypoint =
+      mission && assignment.nextWaypoint < waypointCount
+        ? mission.waypoints[assignment.nextWaypoint]
+        : null;
+    const style = ASSIGNMENT_STATUS_STYLES[assignment.status];
+    return (
+      <div className="mt-4 bg-indigo-50 p-4 rounded-lg">
+        <div className="flex items-center gap-2 mb-2">
+          <h4 className="font-medium text-indigo-800">
+            任务: {assignment.missionName ?? `#${assignment.missionId}`}
+          </h4>
+          <span className={`text-xs px-2 py-0.5 rounded ${style.className}`}>
+            {style.label}
+          </span>
+          <span className="ml-auto text-sm font-semibold text-indigo-800">
+            {formatNumber(assignment.progress, 1)}%
+          </span>
+        </div>
+        <div className="w-full bg-indigo-100 rounded-full h-2 mb-3">
+          <div
+            className="h-2 rounded-full bg-indigo-500"
+            style={{ width: `${assignment.progress}%` }}
+          ></div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-indigo-700">
+          <p>
+            航点: {Math.min(assignment.nextWaypoint, waypointCount)}/
+            {waypointCount}
+            {assignment.currentLeg !== null &&
+              `（航段 ${assignment.currentLeg + 1}）`}
+          </p>
+          <p>
+            偏航:{" "}
+            {assignment.crossTrackError !== null
+              ? formatDistance(assignment.crossTrackError)
+              : "-"}
+          </p>
+          <p>
+            高度偏差:{" "}
+            {assignment.altitudeError !== null
+              ? formatDistance(assignment.altitudeError)
+              : "-"}
+          </p>
+          <p>
+            下一航点:{" "}
+            {assignment.distanceToWaypoint !== null
+              ? formatDistance(assignment.distanceToWaypoint)
+              : "-"}
+            {nextWaypoint && ` @ ${formatSpeed(nextWaypoint.speed)}`}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
   // 渲染设备最新数据
-  const renderLatestDataItem = (item: DroneData, index: number) => (
+  // 设备数据质量标记：按被标记样本的比例显示等级，悬停显示各原因的次数
+  const renderQualityBadge = (deviceId: string) => {
+    const summary = quality[deviceId];
+    if (!summary || summary.sampleCount === 0) return null;
+    const ratio = summary.flaggedCount / summary.sampleCount;
+    const level = QUALITY_LEVELS.find((item) => ratio <= item.maxRatio)!;
+    const details = (Object.keys(summary.reasons) as QualityReason[])
+      .map(
+        (reason) =>
+          `${QUALITY_REASON_LABELS[reason]}: ${summary.reasons[reason]}`
+      )
+      .join("\n");
+    return (
+      <span
+        className={`text-xs font-medium px-2 py-0.5 rounded ${level.badge}`}
+        title={`最近 1 小时 ${summary.sampleCount} 个样本，${summary.flaggedCount} 个有标记${
+          details ? `\n${details}` : ""
+        }`}
+      >
+        {level.label}
+        {summary.flaggedCount > 0 &&
+          `（${formatNumber(ratio * 100, 1)}% 异常）`}
+      </span>
+    );
+  };
+
+  const renderLatestDataItem = (item: DroneData) => (
     <div
       key={item.device_id}
-      className="bg-white border border-gray-200 rounded-lg p-6 mb-4 shadow-sm hover:shadow-md transition-shadow"
+      className={`bg-white border rounded-lg p-6 mb-4 shadow-sm hover:shadow-md transition-shadow ${
+        violatingDevices.has(item.device_id)
+          ? "border-red-400 ring-2 ring-red-200"
+          : "border-gray-200"
+      }`}
     >
       <div className="flex justify-between items-center mb-4 pb-3 border-b border-gray-100">
         <div className="flex items-center gap-3">
           <div
             className={`w-3 h-3 rounded-full ${
-              isPolling ? "bg-green-500 animate-pulse" : "bg-gray-400"
-            }`}
+              DEVICE_STATUS_STYLES[getStatus(item)].dot
+            } ${getStatus(item) === "online" ? "animate-pulse" : ""}`}
           ></div>
           <h3 className="text-lg font-semibold text-gray-800">
-            设备: {item.device_id.slice(-8)}
+            <span
+              className="inline-block w-3 h-3 rounded-sm mr-2 align-middle"
+              style={{
+                backgroundColor: getDeviceColor(
+                  item.device_id,
+                  registry[item.device_id]?.color
+                ),
+              }}
+            ></span>
+            设备: {deviceLabel(item.device_id)}
           </h3>
+          <span
+            className={`text-sm ${DEVICE_STATUS_STYLES[getStatus(item)].text}`}
+          >
+            {DEVICE_STATUS_STYLES[getStatus(item)].label}
+          </span>
+          {violatingDevices.has(item.device_id) && (
+            <span className="text-xs font-medium text-red-700 bg-red-100 px-2 py-0.5 rounded">
+              围栏告警
+            </span>
+          )}
+          {renderQualityBadge(item.device_id)}
         </div>
         <div className="flex items-center gap-3">
           <span className="text-sm text-gray-500 font-mono bg-gray-100 px-2 py-1 rounded">
             {item.formatted_time}
           </span>
           <button
-            onClick={() => fetchHistoryData(item.device_id)}
+            onClick={() => setMissionDevice(item.device_id)}
+            className="px-3 py-1 bg-indigo-500 text-white text-sm rounded hover:bg-indigo-600 transition-colors"
+          >
+            任务
+          </button>
+          <button
+            onClick={() => setCommandDevice(item.device_id)}
+            className="px-3 py-1 bg-orange-500 text-white text-sm rounded hover:bg-orange-600 transition-colors"
+          >
+            命令
+          </button>
+          <button
+            onClick={() => openHistory(item)}
             disabled={historyLoading}
             className="px-3 py-1 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:bg-gray-400 transition-colors flex items-center gap-1"
           >
@@ -194,16 +1004,16 @@ const DroneDataViewer: React.FC = () => {
           <div className="space-y-1 text-sm text-blue-700">
             <p>纬度: {formatNumber(item.latitude, 6)}</p>
             <p>经度: {formatNumber(item.longitude, 6)}</p>
-            <p>高度: {formatNumber(item.ground_distance)} m</p>
+            <p>高度: {formatDistance(item.ground_distance)}</p>
           </div>
         </div>
 
         <div className="bg-green-50 p-4 rounded-lg">
           <h4 className="font-medium text-green-800 mb-2">飞行状态</h4>
           <div className="space-y-1 text-sm text-green-700">
-            <p>速度: {formatNumber(item.speed)} m/s</p>
-            <p>水平速度: {formatNumber(item.horizontal_speed)} m/s</p>
-            <p>垂直速度: {formatNumber(item.vertical_speed)} m/s</p>
+            <p>速度: {formatSpeed(item.speed)}</p>
+            <p>水平速度: {formatSpeed(item.horizontal_speed)}</p>
+            <p>垂直速度: {formatSpeed(item.vertical_speed)}</p>
           </div>
         </div>
 
@@ -219,12 +1029,15 @@ const DroneDataViewer: React.FC = () => {
         <div className="bg-orange-50 p-4 rounded-lg">
           <h4 className="font-medium text-orange-800 mb-2">速度向量</h4>
           <div className="space-y-1 text-sm text-orange-700">
-            <p>X: {formatNumber(item.velocity_x)}</p>
-            <p>Y: {formatNumber(item.velocity_y)}</p>
-            <p>Z: {formatNumber(item.velocity_z)}</p>
+            <p>东: {formatSpeed(item.velocity_x)}</p>
+            <p>北: {formatSpeed(item.velocity_y)}</p>
+            <p>天: {formatSpeed(item.velocity_z)}</p>
           </div>
         </div>
       </div>
+
+      {renderTelemetryChannels(item)}
+      {renderMissionProgress(item.device_id)}
     </div>
   );
 
@@ -237,6 +1050,17 @@ const DroneDataViewer: React.FC = () => {
       <div className="flex justify-between items-center mb-2">
         <span className="text-sm font-medium text-gray-700">#{index + 1}</span>
         <span className="text-sm text-gray-500 font-mono">
+          {item.quality_flags && (
+            <span className="mr-2 text-xs font-sans text-red-700 bg-red-100 px-2 py-0.5 rounded">
+              {item.quality_flags
+                .split(",")
+                .map(
+                  (reason) =>
+                    QUALITY_REASON_LABELS[reason as QualityReason] || reason
+                )
+                .join("、")}
+            </span>
+          )}
           {item.formatted_time}
         </span>
       </div>
@@ -250,13 +1074,13 @@ const DroneDataViewer: React.FC = () => {
         <div>
           <span className="text-gray-600">速度: </span>
           <span className="font-mono text-black">
-            {formatNumber(item.speed)} m/s
+            {formatSpeed(item.speed)}
           </span>
         </div>
         <div>
           <span className="text-gray-600">高度: </span>
           <span className="font-mono text-black">
-            {formatNumber(item.ground_distance)} m
+            {formatDistance(item.ground_distance)}
           </span>
         </div>
         <div>
@@ -278,17 +1102,17 @@ const DroneDataViewer: React.FC = () => {
         </h1>
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
           <button
-            onClick={togglePolling}
+            onClick={toggleStreaming}
             className={`px-4 py-2 rounded-lg text-white transition-colors flex items-center gap-2 ${
-              isPolling
+              isStreaming
                 ? "bg-red-500 hover:bg-red-600"
                 : "bg-green-500 hover:bg-green-600"
             }`}
           >
-            {isPolling ? (
+            {isStreaming ? (
               <>
                 <div className="w-4 h-4 bg-white rounded-full animate-pulse"></div>
-                停止轮询
+                停止实时
               </>
             ) : (
               <>
@@ -305,7 +1129,7 @@ const DroneDataViewer: React.FC = () => {
                     d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1m4 0h1m-7 4h12a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v5a2 2 0 002 2z"
                   />
                 </svg>
-                开始轮询
+                开始实时
               </>
             )}
           </button>
@@ -338,6 +1162,68 @@ const DroneDataViewer: React.FC = () => {
               </>
             )}
           </button>
+          <a
+            href="/devices"
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            设备管理
+          </a>
+          <button
+            onClick={() => setShowCompare(true)}
+            disabled={latestDeviceData.length < 2}
+            className="px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:bg-gray-400 transition-colors"
+          >
+            设备对比
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            导入数据
+          </button>
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            <span>单位</span>
+            <select
+              value={displayUnits.speed}
+              onChange={(e) =>
+                setDisplayUnits((prev) => ({
+                  ...prev,
+                  speed: e.target.value as SpeedUnit,
+                }))
+              }
+              className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+            >
+              {(Object.keys(SPEED_UNIT_LABELS) as SpeedUnit[]).map((unit) => (
+                <option key={unit} value={unit}>
+                  {SPEED_UNIT_LABELS[unit]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={displayUnits.distance}
+              onChange={(e) =>
+                setDisplayUnits((prev) => ({
+                  ...prev,
+                  distance: e.target.value as DistanceUnit,
+                }))
+              }
+              className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+            >
+              {(Object.keys(DISTANCE_UNIT_LABELS) as DistanceUnit[]).map(
+                (unit) => (
+                  <option key={unit} value={unit}>
+                    {DISTANCE_UNIT_LABELS[unit]}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+          <button
+            onClick={handleLogout}
+            className="px-4 py-2 text-gray-600 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            退出
+          </button>
           {lastUpdated && (
             <span className="text-sm text-gray-500">
               最后更新: {lastUpdated}
@@ -346,22 +1232,101 @@ const DroneDataViewer: React.FC = () => {
         </div>
       </div>
 
+      {/* 告警横幅 */}
+      {alerts.length > 0 && (
+        <div
+          className={`rounded-lg p-4 mb-8 border ${
+            openAlertCount > 0
+              ? "bg-red-50 border-red-200"
+              : "bg-gray-50 border-gray-200"
+          }`}
+        >
+          <h2
+            className={`font-bold mb-3 ${
+              openAlertCount > 0 ? "text-red-700" : "text-gray-700"
+            }`}
+          >
+            {openAlertCount > 0
+              ? `${openAlertCount} 条告警待确认`
+              : "所有告警均已确认"}
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              共 {alerts.length} 条未关闭
+            </span>
+          </h2>
+          <ul className="space-y-2">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className={`flex flex-wrap items-center gap-3 text-sm ${
+                  alert.status === "acknowledged" ? "opacity-60" : ""
+                }`}
+              >
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${
+                    ALERT_SEVERITY_STYLES[alert.severity].badge
+                  }`}
+                >
+                  {ALERT_SEVERITY_STYLES[alert.severity].label}
+                </span>
+                <span className="font-medium text-gray-800">
+                  {deviceLabel(alert.deviceId)}
+                </span>
+                <span className="text-gray-700">{alert.message}</span>
+                <span className="text-gray-500 font-mono">
+                  {new Date(alert.triggeredAt).toLocaleString()}
+                </span>
+                <span className="ml-auto flex gap-2">
+                  {alert.status === "open" ? (
+                    <button
+                      onClick={() => updateAlert(alert.id, "acknowledged")}
+                      className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                    >
+                      确认
+                    </button>
+                  ) : (
+                    <span className="px-2 py-1 text-gray-500">已确认</span>
+                  )}
+                  <button
+                    onClick={() => updateAlert(alert.id, "resolved")}
+                    className="px-2 py-1 text-gray-600 rounded hover:bg-gray-200 transition-colors"
+                  >
+                    关闭
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* 数据概览 */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-8">
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <h3 className="text-sm font-medium text-gray-500 mb-2">在线设备</h3>
           <p className="text-3xl font-bold text-green-600">
-            {latestDeviceData.length}
+            {onlineCount}
+            <span className="text-base font-normal text-gray-500">
+              {" "}
+              / {latestDeviceData.length}
+            </span>
           </p>
         </div>
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-          <h3 className="text-sm font-medium text-gray-500 mb-2">轮询状态</h3>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">实时推送</h3>
           <p
             className={`text-2xl font-bold ${
-              isPolling ? "text-green-600" : "text-red-600"
+              streamStatus === "open"
+                ? "text-green-600"
+                : streamStatus === "connecting"
+                  ? "text-yellow-600"
+                  : "text-red-600"
             }`}
           >
-            {isPolling ? "运行中" : "已停止"}
+            {streamStatus === "open"
+              ? "已连接"
+              : streamStatus === "connecting"
+                ? "连接中"
+                : "已停止"}
           </p>
         </div>
         {latestDeviceData.length > 0 && (
@@ -374,6 +1339,86 @@ const DroneDataViewer: React.FC = () => {
         )}
       </div>
 
+      {/* 地图 */}
+      {latestDeviceData.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-gray-800">实时位置</h2>
+            {mapDevice && (
+              <button
+                onClick={() => setMapDevice("")}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                取消选中: {deviceLabel(mapDevice)}
+              </button>
+            )}
+          </div>
+          <DroneMap
+            registry={registry}
+            devices={latestDeviceData}
+            tracks={tracks}
+            selectedDevice={mapDevice}
+            onSelectDevice={setMapDevice}
+            geofences={geofences}
+            violatingDevices={violatingDevices}
+            routes={missionRoutes}
+          />
+        </div>
+      )}
+
+      {/* 围栏违规事件 */}
+      {geofenceEvents.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-8">
+          <h2 className="text-xl font-bold text-gray-800 mb-4">
+            围栏告警
+            {violatingDevices.size > 0 && (
+              <span className="ml-2 text-sm font-normal text-red-600">
+                {violatingDevices.size} 台设备正在违规
+              </span>
+            )}
+          </h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">设备</th>
+                <th className="py-2 pr-4 font-medium">围栏</th>
+                <th className="py-2 pr-4 font-medium">类型</th>
+                <th className="py-2 pr-4 font-medium">开始时间</th>
+                <th className="py-2 pr-4 font-medium">高度</th>
+                <th className="py-2 font-medium">状态</th>
+              </tr>
+            </thead>
+            <tbody>
+              {geofenceEvents.map((event) => (
+                <tr
+                  key={event.id}
+                  className="border-b border-gray-100 text-gray-700"
+                >
+                  <td className="py-2 pr-4">{deviceLabel(event.deviceId)}</td>
+                  <td className="py-2 pr-4">
+                    {event.geofenceName ?? `#${event.geofenceId}`}
+                  </td>
+                  <td className="py-2 pr-4">{VIOLATION_LABELS[event.type]}</td>
+                  <td className="py-2 pr-4 font-mono">
+                    {new Date(event.startedAt).toLocaleString()}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {formatDistance(event.altitude)}
+                  </td>
+                  <td className="py-2">
+                    {event.endedAt === null ? (
+                      <span className="text-red-600 font-medium">进行中</span>
+                    ) : (
+                      <span className="text-gray-500">已结束</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* 错误显示 */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -402,7 +1447,7 @@ const DroneDataViewer: React.FC = () => {
           <div className="bg-white rounded-lg p-6 max-w-4xl max-h-[80vh] overflow-y-auto m-4 w-full">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-xl font-bold text-gray-800">
-                设备历史数据: {selectedDevice.slice(-8)}
+                设备历史数据: {deviceLabel(selectedDevice)}
               </h3>
               <button
                 onClick={() => setShowHistory(false)}
@@ -424,6 +1469,99 @@ const DroneDataViewer: React.FC = () => {
               </button>
             </div>
 
+            {/* 时间范围选择 */}
+            {historyRange && (
+              <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                <input
+                  type="datetime-local"
+                  step={1}
+                  value={toInputValue(historyRange.start)}
+                  onChange={(e) =>
+                    setHistoryRange({
+                      ...historyRange,
+                      start: fromInputValue(e.target.value),
+                    })
+                  }
+                  className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+                />
+                <span className="text-gray-500">至</span>
+                <input
+                  type="datetime-local"
+                  step={1}
+                  value={toInputValue(historyRange.end)}
+                  onChange={(e) =>
+                    setHistoryRange({
+                      ...historyRange,
+                      end: fromInputValue(e.target.value),
+                    })
+                  }
+                  className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+                />
+                <button
+                  onClick={() => fetchHistoryData(selectedDevice, historyRange)}
+                  disabled={historyLoading}
+                  className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 transition-colors"
+                >
+                  查询
+                </button>
+                {QUICK_RANGES.map((minutes) => (
+                  <button
+                    key={minutes}
+                    onClick={() => selectQuickRange(minutes)}
+                    disabled={historyLoading}
+                    className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:text-gray-400"
+                  >
+                    {minutes >= 1440
+                      ? `${minutes / 1440} 天`
+                      : minutes >= 60
+                        ? `${minutes / 60} 小时`
+                        : `${minutes} 分钟`}
+                  </button>
+                ))}
+                <select
+                  value={historyResolution}
+                  onChange={(e) => {
+                    const resolution = e.target.value as ResolutionOption;
+                    setHistoryResolution(resolution);
+                    fetchHistoryData(selectedDevice, historyRange, resolution);
+                  }}
+                  disabled={historyLoading}
+                  className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+                >
+                  {(Object.keys(RESOLUTION_LABELS) as ResolutionOption[]).map(
+                    (option) => (
+                      <option key={option} value={option}>
+                        分辨率: {RESOLUTION_LABELS[option]}
+                      </option>
+                    )
+                  )}
+                </select>
+                <label className="flex items-center gap-1 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={hideFlagged}
+                    onChange={(e) => {
+                      setHideFlagged(e.target.checked);
+                      fetchHistoryData(
+                        selectedDevice,
+                        historyRange,
+                        historyResolution,
+                        e.target.checked
+                      );
+                    }}
+                    disabled={historyLoading}
+                  />
+                  排除异常样本
+                </label>
+                {!historyLoading && (
+                  <span className="text-gray-500">
+                    当前: {RESOLUTION_LABELS[loadedResolution]}（
+                    {historyData.length} 条）
+                  </span>
+                )}
+              </div>
+            )}
+
             {historyLoading ? (
               <div className="text-center py-8">
                 <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
@@ -431,18 +1569,226 @@ const DroneDataViewer: React.FC = () => {
               </div>
             ) : (
               <div className="space-y-3">
+                {historyStats && (
+                  <FlightStatsCard
+                    stats={historyStats}
+                    truncated={historyStatsTruncated}
+                    units={displayUnits}
+                  />
+                )}
+                <div className="flex gap-2 border-b border-gray-200">
+                  {(["chart", "replay"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setHistoryMode(mode)}
+                      className={`px-4 py-2 text-sm -mb-px border-b-2 ${
+                        historyMode === mode
+                          ? "border-blue-500 text-blue-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      {mode === "chart" ? "图表" : "回放"}
+                    </button>
+                  ))}
+                </div>
+                {historyMode === "replay" ? (
+                  <FlightReplay
+                    deviceId={selectedDevice}
+                    data={historyData}
+                    units={displayUnits}
+                  />
+                ) : (
+                  <>
+                    <TelemetryChart data={historyData} units={displayUnits} />
+                    <DroneMap
+                      registry={registry}
+                      devices={latestDeviceData.filter(
+                        (item) => item.device_id === selectedDevice
+                      )}
+                      tracks={{ [selectedDevice]: historyData }}
+                      selectedDevice={selectedDevice}
+                      height={260}
+                      geofences={geofences}
+                    />
+                  </>
+                )}
+                {historyRange && historyData.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-600">导出:</span>
+                    {EXPORT_OPTIONS.map((option) => (
+                      <a
+                        key={option.format}
+                        href={`/api/flightdata/export?deviceId=${encodeURIComponent(
+                          selectedDevice
+                        )}&startTime=${historyRange.start}&endTime=${
+                          historyRange.end
+                        }&format=${option.format}`}
+                        download
+                        className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                      >
+                        {option.label}
+                      </a>
+                    ))}
+                  </div>
+                )}
                 <p className="text-sm text-gray-600 mb-4">
                   共 {historyData.length} 条历史记录
+                  {historyData.length > HISTORY_LIST_LIMIT &&
+                    `，显示最新 ${HISTORY_LIST_LIMIT} 条`}
                 </p>
-                {historyData.map(renderHistoryItem)}
+                {historyData
+                  .slice(-HISTORY_LIST_LIMIT)
+                  .reverse()
+                  .map(renderHistoryItem)}
               </div>
             )}
           </div>
         </div>
       )}
 
+      {/* 导入数据modal */}
+      {showImport && (
+        <div className="fixed inset-0 backdrop-blur-lg bg-gray-900/10 bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl max-h-[80vh] overflow-y-auto m-4 w-full">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-bold text-gray-800">导入离线记录</h3>
+              <button
+                onClick={() => setShowImport(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <DataImport onImported={() => fetchLatestData(false)} />
+          </div>
+        </div>
+      )}
+
+      {/* 设备命令modal */}
+      {commandDevice && (
+        <div className="fixed inset-0 backdrop-blur-lg bg-gray-900/10 bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl max-h-[80vh] overflow-y-auto m-4 w-full">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-bold text-gray-800">
+                设备命令: {deviceLabel(commandDevice)}
+              </h3>
+              <button
+                onClick={() => setCommandDevice(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <CommandPanel
+              deviceId={commandDevice}
+              latest={latestDeviceData.find(
+                (item) => item.device_id === commandDevice
+              )}
+              units={displayUnits}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* 航线任务modal */}
+      {missionDevice && (
+        <div className="fixed inset-0 backdrop-blur-lg bg-gray-900/10 bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-4xl max-h-[90vh] overflow-y-auto m-4 w-full">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-bold text-gray-800">
+                航线任务: {deviceLabel(missionDevice)}
+              </h3>
+              <button
+                onClick={() => setMissionDevice(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <MissionPanel
+              deviceId={missionDevice}
+              units={displayUnits}
+              registry={registry}
+              onChange={fetchMissions}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* 设备对比modal */}
+      {showCompare && (
+        <div className="fixed inset-0 backdrop-blur-lg bg-gray-900/10 bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-6xl max-h-[90vh] overflow-y-auto m-4 w-full">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-bold text-gray-800">设备对比</h3>
+              <button
+                onClick={() => setShowCompare(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <DeviceComparison
+              devices={latestDeviceData}
+              registry={registry}
+              units={displayUnits}
+            />
+          </div>
+        </div>
+      )}
+
       {/* 主数据显示 */}
-      {loading && latestDeviceData.length === 0 ? (
+      {authRequired ? (
+        <LoginForm onSuccess={handleLogin} />
+      ) : loading && latestDeviceData.length === 0 ? (
         <div className="text-center py-16">
           <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
           <p className="text-gray-500">正在加载数据...</p>
@@ -454,10 +1800,10 @@ const DroneDataViewer: React.FC = () => {
             <div className="flex items-center text-sm text-gray-500">
               <div
                 className={`w-2 h-2 rounded-full mr-2 ${
-                  isPolling ? "bg-green-500 animate-pulse" : "bg-gray-400"
+                  isStreaming ? "bg-green-500 animate-pulse" : "bg-gray-400"
                 }`}
               ></div>
-              {latestDeviceData.length} 个设备在线
+              {onlineCount} 个设备在线
             </div>
           </div>
           <div className="space-y-4">
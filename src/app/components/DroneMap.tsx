@@ -0,0 +1,458 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  DeviceInfo,
+  DroneData,
+  Geofence,
+  GeofenceMode,
+  MissionWaypoint,
+} from "../../types";
+import { getDeviceColor, getDeviceLabel } from "../../lib/colors";
+
+// 设备的任务航线
+export interface MapRoute {
+  deviceId: string;
+  waypoints: MissionWaypoint[];
+  // 正在飞往的航点序号，之前的航点显示为已到达
+  nextWaypoint: number;
+}
+
+interface DroneMapProps {
+  // 每个设备的当前位置
+  devices: DroneData[];
+  // 每个设备的历史轨迹（按时间升序）
+  tracks: Record<string, DroneData[]>;
+  selectedDevice?: string;
+  onSelectDevice?: (deviceId: string) => void;
+  height?: number;
+  // 设备注册信息，用于显示名称和颜色
+  registry?: Record<string, DeviceInfo>;
+  // 自动缩放时参考的点，默认使用所有设备位置和轨迹
+  fitPoints?: { latitude: number; longitude: number }[];
+  // 叠加显示的地理围栏
+  geofences?: Geofence[];
+  // 正在违反围栏的设备，位置外加红色圆圈
+  violatingDevices?: Set<string>;
+  // 叠加显示的任务航线（计划路径）
+  routes?: MapRoute[];
+}
+
+// 视图状态：中心点和每像素对应的米数
+interface MapView {
+  centerLat: number;
+  centerLon: number;
+  metersPerPixel: number;
+}
+
+const METERS_PER_DEGREE = 111320;
+// 自动缩放时的最小显示范围（米）
+const MIN_EXTENT = 50;
+const PADDING = 40;
+// 低于该水平速度（m/s）视为悬停
+const HOVER_SPEED = 0.5;
+
+// 围栏按模式区分颜色
+const GEOFENCE_COLORS: Record<GeofenceMode, string> = {
+  restricted: "#dc2626",
+  allowed: "#16a34a",
+  ceiling: "#d97706",
+};
+
+// 经纬度 -> 以视图中心为原点的平面坐标（米），局部等距投影
+function project(lat: number, lon: number, view: MapView) {
+  const cosLat = Math.cos((view.centerLat * Math.PI) / 180);
+  return {
+    x: (lon - view.centerLon) * METERS_PER_DEGREE * cosLat,
+    y: (lat - view.centerLat) * METERS_PER_DEGREE,
+  };
+}
+
+// 选取 1/2/5 × 10^n 的网格间距
+function niceStep(value: number): number {
+  const exponent = Math.pow(10, Math.floor(Math.log10(value)));
+  const fraction = value / exponent;
+  if (fraction < 1.5) return exponent;
+  if (fraction < 3.5) return 2 * exponent;
+  if (fraction < 7.5) return 5 * exponent;
+  return 10 * exponent;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+}
+
+// 根据所有点计算自适应视图
+function fitView(
+  points: { latitude: number; longitude: number }[],
+  width: number,
+  height: number
+): MapView | null {
+  if (points.length === 0 || width === 0 || height === 0) {
+    return null;
+  }
+  const lats = points.map((p) => p.latitude);
+  const lons = points.map((p) => p.longitude);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const centerLat = (minLat + maxLat) / 2;
+  const centerLon = (minLon + maxLon) / 2;
+  const cosLat = Math.cos((centerLat * Math.PI) / 180);
+  const extentX = Math.max(
+    (maxLon - minLon) * METERS_PER_DEGREE * cosLat,
+    MIN_EXTENT
+  );
+  const extentY = Math.max((maxLat - minLat) * METERS_PER_DEGREE, MIN_EXTENT);
+  const metersPerPixel = Math.max(
+    extentX / Math.max(width - PADDING * 2, 1),
+    extentY / Math.max(height - PADDING * 2, 1)
+  );
+  return { centerLat, centerLon, metersPerPixel };
+}
+
+// 离线矢量地图：用 canvas 绘制设备位置、航向箭头和飞行轨迹，不依赖瓦片服务
+const DroneMap: React.FC<DroneMapProps> = ({
+  devices,
+  tracks,
+  selectedDevice,
+  onSelectDevice,
+  height = 400,
+  fitPoints,
+  registry = {},
+  geofences = [],
+  violatingDevices,
+  routes = [],
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState<number>(0);
+  // 用户手动缩放/平移后的视图；为 null 时自动适配所有点
+  const [manualView, setManualView] = useState<MapView | null>(null);
+  const dragRef = useRef<{ x: number; y: number; view: MapView } | null>(null);
+
+  const allPoints = fitPoints || [
+    ...devices,
+    ...Object.values(tracks).flatMap((track) => track),
+    ...routes.flatMap((route) => route.waypoints),
+  ];
+  const view = manualView || fitView(allPoints, width, height);
+
+  // 跟随容器宽度
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // 绘制
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    ctx.fillStyle = "#f8fafc";
+    ctx.fillRect(0, 0, width, height);
+
+    if (!view) {
+      ctx.fillStyle = "#9ca3af";
+      ctx.font = "14px sans-serif";
+      ctx.textAlign = "center";
+      ctx.fillText("暂无位置数据", width / 2, height / 2);
+      return;
+    }
+
+    const toScreen = (lat: number, lon: number) => {
+      const p = project(lat, lon, view);
+      return {
+        x: width / 2 + p.x / view.metersPerPixel,
+        y: height / 2 - p.y / view.metersPerPixel,
+      };
+    };
+
+    // 网格
+    const step = niceStep(view.metersPerPixel * 100);
+    const stepPx = step / view.metersPerPixel;
+    const origin = toScreen(view.centerLat, view.centerLon);
+    ctx.strokeStyle = "#e5e7eb";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = origin.x % stepPx; x < width; x += stepPx) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    }
+    for (let y = origin.y % stepPx; y < height; y += stepPx) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    }
+    ctx.stroke();
+
+    // 比例尺
+    ctx.strokeStyle = "#374151";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(12, height - 14);
+    ctx.lineTo(12 + stepPx, height - 14);
+    ctx.stroke();
+    ctx.fillStyle = "#374151";
+    ctx.font = "12px sans-serif";
+    ctx.textAlign = "left";
+    ctx.fillText(formatDistance(step), 12, height - 20);
+
+    // 北向指示
+    ctx.textAlign = "center";
+    ctx.fillText("N ↑", width - 20, 20);
+
+    // 地理围栏
+    for (const fence of geofences) {
+      if (!fence.enabled) continue;
+      const color = GEOFENCE_COLORS[fence.mode];
+      ctx.beginPath();
+      let label: { x: number; y: number } | null = null;
+      if (fence.shape === "circle" && fence.center && fence.radius !== null) {
+        const c = toScreen(fence.center[0], fence.center[1]);
+        ctx.arc(c.x, c.y, fence.radius / view.metersPerPixel, 0, Math.PI * 2);
+        label = c;
+      } else if (fence.polygon && fence.polygon.length > 0) {
+        fence.polygon.forEach(([lat, lon], i) => {
+          const p = toScreen(lat, lon);
+          if (i === 0) ctx.moveTo(p.x, p.y);
+          else ctx.lineTo(p.x, p.y);
+        });
+        ctx.closePath();
+        label = toScreen(fence.polygon[0][0], fence.polygon[0][1]);
+      }
+      ctx.fillStyle = color;
+      ctx.globalAlpha = fence.mode === "allowed" ? 0.05 : 0.15;
+      ctx.fill();
+      ctx.globalAlpha = 0.8;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      // 允许区域用虚线边界
+      ctx.setLineDash(fence.mode === "allowed" ? [6, 4] : []);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      if (label) {
+        ctx.fillStyle = color;
+        ctx.font = "11px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillText(fence.name, label.x, label.y - 4);
+      }
+    }
+    ctx.globalAlpha = 1;
+
+    // 任务航线：设备颜色的虚线，航点标注序号，已到达的航点实心，下一航点加粗
+    for (const route of routes) {
+      if (route.waypoints.length === 0) continue;
+      const color = getDeviceColor(
+        route.deviceId,
+        registry[route.deviceId]?.color
+      );
+      ctx.globalAlpha =
+        selectedDevice && selectedDevice !== route.deviceId ? 0.3 : 0.9;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([8, 5]);
+      ctx.beginPath();
+      route.waypoints.forEach((waypoint, i) => {
+        const p = toScreen(waypoint.latitude, waypoint.longitude);
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+      route.waypoints.forEach((waypoint, i) => {
+        const p = toScreen(waypoint.latitude, waypoint.longitude);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+        ctx.fillStyle = i < route.nextWaypoint ? color : "#ffffff";
+        ctx.fill();
+        ctx.lineWidth = i === route.nextWaypoint ? 3 : 1.5;
+        ctx.stroke();
+        ctx.fillStyle = "#1f2937";
+        ctx.font = "10px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillText(String(i + 1), p.x, p.y - 8);
+      });
+    }
+    ctx.globalAlpha = 1;
+
+    // 轨迹
+    for (const [deviceId, track] of Object.entries(tracks)) {
+      if (track.length < 2) continue;
+      ctx.strokeStyle = getDeviceColor(deviceId, registry[deviceId]?.color);
+      ctx.globalAlpha =
+        selectedDevice && selectedDevice !== deviceId ? 0.3 : 0.8;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      track.forEach((point, i) => {
+        const p = toScreen(point.latitude, point.longitude);
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+      });
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+
+    // 设备位置和航向箭头
+    for (const device of devices) {
+      const p = toScreen(device.latitude, device.longitude);
+      // 移动时使用航迹方向，悬停时使用机头偏航角
+      const headingDegrees =
+        device.horizontal_speed > HOVER_SPEED
+          ? device.flight_direction
+          : device.yaw;
+      const heading = (headingDegrees * Math.PI) / 180;
+      const info = registry[device.device_id];
+      const color = getDeviceColor(device.device_id, info?.color);
+      const size = device.device_id === selectedDevice ? 14 : 10;
+
+      if (violatingDevices?.has(device.device_id)) {
+        ctx.strokeStyle = "#dc2626";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, size + 6, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+
+      ctx.save();
+      ctx.translate(p.x, p.y);
+      ctx.rotate(heading);
+      ctx.fillStyle = color;
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(0, -size);
+      ctx.lineTo(size * 0.7, size * 0.7);
+      ctx.lineTo(0, size * 0.3);
+      ctx.lineTo(-size * 0.7, size * 0.7);
+      ctx.closePath();
+      ctx.stroke();
+      ctx.fill();
+      ctx.restore();
+
+      ctx.fillStyle = "#1f2937";
+      ctx.font = "12px sans-serif";
+      ctx.textAlign = "left";
+      ctx.fillText(
+        getDeviceLabel(device.device_id, info?.name),
+        p.x + size + 4,
+        p.y + 4
+      );
+    }
+  }, [
+    devices,
+    tracks,
+    selectedDevice,
+    view,
+    width,
+    height,
+    registry,
+    geofences,
+    violatingDevices,
+    routes,
+  ]);
+
+  // 滚轮缩放（以鼠标位置为中心）
+  const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+    if (!view) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const dx = event.clientX - rect.left - width / 2;
+    const dy = event.clientY - rect.top - height / 2;
+    const factor = event.deltaY > 0 ? 1.2 : 1 / 1.2;
+    const metersPerPixel = view.metersPerPixel * factor;
+    const cosLat = Math.cos((view.centerLat * Math.PI) / 180);
+    // 保持鼠标下的点不动
+    const shift = view.metersPerPixel - metersPerPixel;
+    setManualView({
+      centerLat: view.centerLat - (dy * shift) / METERS_PER_DEGREE,
+      centerLon: view.centerLon + (dx * shift) / (METERS_PER_DEGREE * cosLat),
+      metersPerPixel,
+    });
+  };
+
+  // 拖动平移
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!view) return;
+    dragRef.current = { x: event.clientX, y: event.clientY, view };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const cosLat = Math.cos((drag.view.centerLat * Math.PI) / 180);
+    const dx = (event.clientX - drag.x) * drag.view.metersPerPixel;
+    const dy = (event.clientY - drag.y) * drag.view.metersPerPixel;
+    setManualView({
+      ...drag.view,
+      centerLat: drag.view.centerLat + dy / METERS_PER_DEGREE,
+      centerLon: drag.view.centerLon - dx / (METERS_PER_DEGREE * cosLat),
+    });
+  };
+
+  // 点击选中最近的设备
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || !onSelectDevice) return;
+    const moved =
+      Math.abs(event.clientX - drag.x) + Math.abs(event.clientY - drag.y);
+    if (moved > 3) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    let nearest: { deviceId: string; distance: number } | null = null;
+    for (const device of devices) {
+      const p = project(device.latitude, device.longitude, drag.view);
+      const sx = width / 2 + p.x / drag.view.metersPerPixel;
+      const sy = height / 2 - p.y / drag.view.metersPerPixel;
+      const distance = Math.hypot(sx - x, sy - y);
+      if (distance < 20 && (!nearest || distance < nearest.distance)) {
+        nearest = { deviceId: device.device_id, distance };
+      }
+    }
+    if (nearest) {
+      onSelectDevice(nearest.deviceId);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full rounded-lg overflow-hidden border border-gray-200"
+    >
+      <canvas
+        ref={canvasRef}
+        style={{ width: "100%", height }}
+        className="block cursor-grab active:cursor-grabbing"
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => (dragRef.current = null)}
+      />
+      {manualView && (
+        <button
+          onClick={() => setManualView(null)}
+          className="absolute top-2 left-2 px-2 py-1 bg-white text-sm text-gray-700 rounded shadow hover:bg-gray-100"
+        >
+          自适应
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DroneMap;
@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { DisplayUnits, DroneData } from "../../types";
+import { DEFAULT_DISPLAY_UNITS, formatQuantity } from "../../lib/units";
+import DroneMap from "./DroneMap";
+
+interface FlightReplayProps {
+  deviceId: string;
+  // 按时间升序的样本
+  data: DroneData[];
+  units?: DisplayUnits;
+}
+
+const PLAYBACK_SPEEDS = [1, 2, 10];
+
+// 找到时间戳 <= time 的最后一个样本的下标（二分查找）
+function findSampleIndex(data: DroneData[], time: number): number {
+  let low = 0;
+  let high = data.length - 1;
+  let result = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (data[mid].timestamp <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+// 飞行回放：按倍速播放已记录的样本，时间轴可拖动，
+// 姿态、速度和地图位置与播放头同步
+const FlightReplay: React.FC<FlightReplayProps> = ({
+  deviceId,
+  data,
+  units = DEFAULT_DISPLAY_UNITS,
+}) => {
+  const startTime = data[0]?.timestamp ?? 0;
+  const endTime = data[data.length - 1]?.timestamp ?? 0;
+
+  const [playhead, setPlayhead] = useState<number>(startTime);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(1);
+  const frameRef = useRef<number | null>(null);
+
+  // 数据变化时回到起点
+  useEffect(() => {
+    setPlayhead(startTime);
+    setPlaying(false);
+  }, [data, startTime]);
+
+  // 播放循环
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const elapsed = (now - last) * speed;
+      last = now;
+      setPlayhead((prev) => {
+        const next = prev + elapsed;
+        if (next >= endTime) {
+          setPlaying(false);
+          return endTime;
+        }
+        return next;
+      });
+      frameRef.current = requestAnimationFrame(tick);
+    };
+
+    frameRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, [playing, speed, endTime]);
+
+  if (data.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-8">
+        所选时间范围内没有可回放的数据
+      </p>
+    );
+  }
+
+  const index = findSampleIndex(data, playhead);
+  const current = data[index];
+  const flown = data.slice(0, index + 1);
+
+  const togglePlaying = () => {
+    // 播放结束后重新开始
+    if (!playing && playhead >= endTime) {
+      setPlayhead(startTime);
+    }
+    setPlaying(!playing);
+  };
+
+  const formatNumber = (num: number, decimals: number = 2): string =>
+    num.toFixed(decimals);
+
+  return (
+    <div className="space-y-4">
+      {/* 播放控制 */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          className={`px-4 py-1 rounded text-white transition-colors ${
+            playing
+              ? "bg-red-500 hover:bg-red-600"
+              : "bg-green-500 hover:bg-green-600"
+          }`}
+        >
+          {playing ? "暂停" : "播放"}
+        </button>
+        <div className="flex gap-1">
+          {PLAYBACK_SPEEDS.map((value) => (
+            <button
+              key={value}
+              onClick={() => setSpeed(value)}
+              className={`px-2 py-1 text-sm rounded ${
+                speed === value
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {value}x
+            </button>
+          ))}
+        </div>
+        <span className="text-sm text-gray-500 font-mono">
+          {formatElapsed(playhead - startTime)} /{" "}
+          {formatElapsed(endTime - startTime)}
+        </span>
+        <span className="text-sm text-gray-500 font-mono ml-auto">
+          {current.formatted_time}
+        </span>
+      </div>
+
+      {/* 时间轴 */}
+      <input
+        type="range"
+        min={startTime}
+        max={endTime}
+        step={1}
+        value={playhead}
+        onChange={(e) => setPlayhead(Number(e.target.value))}
+        className="w-full"
+      />
+
+      {/* 当前样本读数 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <h4 className="font-medium text-blue-800 mb-2">位置信息</h4>
+          <div className="space-y-1 text-sm text-blue-700">
+            <p>纬度: {formatNumber(current.latitude, 6)}</p>
+            <p>经度: {formatNumber(current.longitude, 6)}</p>
+            <p>
+              高度: {formatQuantity(current.ground_distance, "distance", units)}
+            </p>
+          </div>
+        </div>
+        <div className="bg-green-50 p-4 rounded-lg">
+          <h4 className="font-medium text-green-800 mb-2">飞行状态</h4>
+          <div className="space-y-1 text-sm text-green-700">
+            <p>速度: {formatQuantity(current.speed, "speed", units)}</p>
+            <p>
+              水平速度:{" "}
+              {formatQuantity(current.horizontal_speed, "speed", units)}
+            </p>
+            <p>
+              垂直速度: {formatQuantity(current.vertical_speed, "speed", units)}
+            </p>
+          </div>
+        </div>
+        <div className="bg-purple-50 p-4 rounded-lg">
+          <h4 className="font-medium text-purple-800 mb-2">飞行姿态</h4>
+          <div className="space-y-1 text-sm text-purple-700">
+            <p>俯仰: {formatNumber(current.pitch)}°</p>
+            <p>偏航: {formatNumber(current.yaw)}°</p>
+            <p>翻滚: {formatNumber(current.roll)}°</p>
+          </div>
+        </div>
+      </div>
+
+      <DroneMap
+        devices={[current]}
+        tracks={{ [deviceId]: flown }}
+        selectedDevice={deviceId}
+        height={300}
+        fitPoints={data}
+      />
+    </div>
+  );
+};
+
+export default FlightReplay;
@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import { DisplayUnits, FlightStats } from "../../types";
+import {
+  DEFAULT_DISPLAY_UNITS,
+  displayUnitLabel,
+  formatQuantity,
+  toDisplayUnit,
+} from "../../lib/units";
+
+interface FlightStatsCardProps {
+  stats: FlightStats;
+  // 样本数超过服务端上限时只统计了部分数据
+  truncated?: boolean;
+  units?: DisplayUnits;
+}
+
+// 公制下超过 1 km 时以千米显示
+function formatDistance(meters: number, units: DisplayUnits): string {
+  if (units.distance !== "m") {
+    return formatQuantity(meters, "distance", units, 1);
+  }
+  return meters >= 1000
+    ? `${(meters / 1000).toFixed(2)} km`
+    : `${meters.toFixed(1)} m`;
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(Math.round(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours} 小时 ${minutes} 分`;
+  }
+  return minutes > 0 ? `${minutes} 分 ${seconds} 秒` : `${seconds} 秒`;
+}
+
+const formatNumber = (num: number, decimals: number = 2): string =>
+  num.toFixed(decimals);
+
+// 一组同类数值共用一个单位，如 "12.00 / 8.50 km/h"
+function formatPair(
+  a: number,
+  b: number,
+  separator: string,
+  quantity: "speed" | "distance",
+  units: DisplayUnits,
+  decimals: number = 2
+): string {
+  return `${formatNumber(
+    toDisplayUnit(a, quantity, units),
+    decimals
+  )}${separator}${formatNumber(
+    toDisplayUnit(b, quantity, units),
+    decimals
+  )} ${displayUnitLabel(quantity, units)}`;
+}
+
+// 统计项的标签和格式化方式，供统计卡片和多设备对比表共用
+export const FLIGHT_STATS_ITEMS: {
+  label: string;
+  format: (stats: FlightStats, units: DisplayUnits) => string;
+}[] = [
+  { label: "水平距离", format: (s, u) => formatDistance(s.distance, u) },
+  { label: "3D 距离", format: (s, u) => formatDistance(s.distance3d, u) },
+  {
+    label: "最大/平均速度",
+    format: (s, u) => formatPair(s.maxSpeed, s.avgSpeed, " / ", "speed", u),
+  },
+  {
+    label: "最大/平均水平速度",
+    format: (s, u) =>
+      formatPair(s.maxHorizontalSpeed, s.avgHorizontalSpeed, " / ", "speed", u),
+  },
+  {
+    label: "垂直速度范围",
+    format: (s, u) =>
+      formatPair(s.minVerticalSpeed, s.maxVerticalSpeed, " ~ ", "speed", u),
+  },
+  {
+    label: "最大高度",
+    format: (s, u) => formatQuantity(s.maxAltitude, "distance", u),
+  },
+  {
+    label: "累计爬升/下降",
+    format: (s, u) => formatPair(s.climb, s.descent, " / ", "distance", u, 1),
+  },
+  {
+    label: "空中时间",
+    format: (s) =>
+      `${formatDuration(s.airborneMs)} / ${formatDuration(s.durationMs)}`,
+  },
+  {
+    label: "最大加速度",
+    format: (s) => `${formatNumber(s.maxAcceleration)} m/s²`,
+  },
+  { label: "最大加加速度", format: (s) => `${formatNumber(s.maxJerk)} m/s³` },
+];
+
+const FlightStatsCard: React.FC<FlightStatsCardProps> = ({
+  stats,
+  truncated,
+  units = DEFAULT_DISPLAY_UNITS,
+}) => {
+  if (stats.sampleCount === 0) {
+    return (
+      <p className="text-sm text-gray-500">该时间范围内没有可统计的数据</p>
+    );
+  }
+
+  return (
+    <div className="bg-indigo-50 p-4 rounded-lg">
+      <h4 className="font-medium text-indigo-800 mb-2">
+        飞行统计（{stats.sampleCount} 个样本）
+      </h4>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+        {FLIGHT_STATS_ITEMS.map((item) => (
+          <div key={item.label}>
+            <p className="text-indigo-600">{item.label}</p>
+            <p className="font-mono text-indigo-900">
+              {item.format(stats, units)}
+            </p>
+          </div>
+        ))}
+      </div>
+      {truncated && (
+        <p className="text-xs text-amber-700 mt-2">
+          数据量超过统计上限，仅统计了时间范围开头的部分样本
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FlightStatsCard;
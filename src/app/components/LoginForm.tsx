@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useState } from "react";
+
+interface LoginFormProps {
+  onSuccess: () => void;
+}
+
+// 看板登录：输入只读或管理员令牌
+const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
+  const [token, setToken] = useState<string>("");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch("/api/auth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? "令牌无效" : "登录失败");
+      }
+
+      setToken("");
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "登录失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="max-w-md mx-auto bg-white p-6 rounded-lg shadow-sm border border-gray-200 space-y-4"
+    >
+      <h2 className="text-xl font-bold text-gray-800">需要访问令牌</h2>
+      <p className="text-sm text-gray-500">
+        请输入看板的只读令牌或管理员令牌。
+      </p>
+      <input
+        type="password"
+        value={token}
+        onChange={(event) => setToken(event.target.value)}
+        placeholder="访问令牌"
+        className="w-full border border-gray-300 rounded px-3 py-2 text-gray-700"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={submitting || !token}
+        className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+      >
+        {submitting ? "登录中..." : "登录"}
+      </button>
+    </form>
+  );
+};
+
+export default LoginForm;
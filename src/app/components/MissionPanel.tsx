@@ -0,0 +1,429 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  DeviceInfo,
+  DisplayUnits,
+  DroneData,
+  FieldError,
+  Mission,
+  MissionAssignment,
+  MissionAssignmentStatus,
+  MissionEvent,
+  MissionEventType,
+} from "../../types";
+import { DEFAULT_DISPLAY_UNITS, formatQuantity } from "../../lib/units";
+import DroneMap from "./DroneMap";
+
+interface MissionPanelProps {
+  deviceId: string;
+  units?: DisplayUnits;
+  registry?: Record<string, DeviceInfo>;
+  // 分配或中止任务后通知外层刷新
+  onChange?: () => void;
+}
+
+interface AssignmentDetailResponse {
+  data: MissionAssignment;
+  mission: Mission | null;
+  events: MissionEvent[];
+}
+
+interface ErrorResponse {
+  error?: string;
+  details?: FieldError[] | string;
+}
+
+// 分配列表和选中分配的刷新间隔（毫秒）
+const MISSION_REFRESH_INTERVAL = 3000;
+// 列表中显示的最近分配数
+const ASSIGNMENT_LIST_LIMIT = 10;
+// 实际轨迹每次加载的最大样本数
+const PATH_PAGE_SIZE = 5000;
+
+export const ASSIGNMENT_STATUS_STYLES: Record<
+  MissionAssignmentStatus,
+  { label: string; className: string }
+> = {
+  active: { label: "执行中", className: "bg-blue-100 text-blue-700" },
+  completed: { label: "已完成", className: "bg-green-100 text-green-700" },
+  aborted: { label: "已中止", className: "bg-gray-100 text-gray-500" },
+};
+
+const EVENT_LABELS: Record<MissionEventType, string> = {
+  waypoint_reached: "到达航点",
+  waypoint_missed: "跳过航点",
+  mission_completed: "任务完成",
+};
+
+const describeError = (body: ErrorResponse, status: number): string => {
+  if (Array.isArray(body.details)) {
+    return body.details.map((e) => `${e.path} ${e.message}`).join("; ");
+  }
+  return body.details || body.error || `HTTP error! status: ${status}`;
+};
+
+// 单个设备的航线任务：分配或中止任务，查看最近的分配、
+// 计划航线与实际轨迹的对比、偏航统计和航点事件
+const MissionPanel: React.FC<MissionPanelProps> = ({
+  deviceId,
+  units = DEFAULT_DISPLAY_UNITS,
+  registry = {},
+  onChange,
+}) => {
+  const [missions, setMissions] = useState<Mission[]>([]);
+  const [assignments, setAssignments] = useState<MissionAssignment[]>([]);
+  const [missionId, setMissionId] = useState<string>("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [detail, setDetail] = useState<AssignmentDetailResponse | null>(null);
+  const [path, setPath] = useState<DroneData[]>([]);
+  // 已加载的轨迹，供定时刷新时计算增量起点
+  const pathRef = useRef<DroneData[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState<boolean>(false);
+
+  const updatePath = (next: DroneData[]) => {
+    pathRef.current = next;
+    setPath(next);
+  };
+
+  const active = assignments.find((item) => item.status === "active");
+
+  const fetchMissions = async (): Promise<void> => {
+    try {
+      const response = await fetch("/api/missions");
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const result: { data: Mission[] } = await response.json();
+      setMissions(result.data);
+    } catch (err) {
+      console.error("Failed to fetch missions:", err);
+    }
+  };
+
+  const fetchAssignments = async (): Promise<void> => {
+    try {
+      const params = new URLSearchParams({
+        deviceId,
+        limit: ASSIGNMENT_LIST_LIMIT.toString(),
+      });
+      const response = await fetch(
+        `/api/missions/assignments?${params.toString()}`
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const result: { data: MissionAssignment[] } = await response.json();
+      setAssignments(result.data);
+      // 默认查看最近的一次分配
+      setSelectedId((prev) => prev ?? result.data[0]?.id ?? null);
+    } catch (err) {
+      console.error("Failed to fetch mission assignments:", err);
+    }
+  };
+
+  const fetchDetail = async (assignmentId: number): Promise<void> => {
+    try {
+      const response = await fetch(`/api/missions/assignments/${assignmentId}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const result: AssignmentDetailResponse = await response.json();
+      setDetail(result);
+      fetchPath(result.data);
+    } catch (err) {
+      console.error("Failed to fetch mission assignment:", err);
+    }
+  };
+
+  // 加载分配期间的实际轨迹，已加载过的部分只追加新样本
+  const fetchPath = async (assignment: MissionAssignment): Promise<void> => {
+    try {
+      const loaded = pathRef.current;
+      const params = new URLSearchParams({
+        deviceId: assignment.deviceId,
+        startTime: String(
+          loaded.length > 0
+            ? loaded[loaded.length - 1].timestamp + 1
+            : assignment.startedAt
+        ),
+        endTime: String(assignment.endedAt ?? Date.now()),
+        resolution: "raw",
+        limit: String(PATH_PAGE_SIZE),
+      });
+      const response = await fetch(`/api/flightdata?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const result: { data: DroneData[] } = await response.json();
+      // 切换分配后丢弃旧请求的结果
+      if (result.data.length === 0 || pathRef.current !== loaded) return;
+      const byId = new Map<number, DroneData>();
+      [...loaded, ...result.data].forEach((item) => byId.set(item.id, item));
+      updatePath(
+        Array.from(byId.values())
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(-PATH_PAGE_SIZE)
+      );
+    } catch (err) {
+      console.error("Failed to fetch mission path:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchMissions();
+  }, []);
+
+  // 定时刷新分配列表；选中的分配仍在执行时同时刷新详情和轨迹
+  const detailStatus = detail?.data.status;
+  useEffect(() => {
+    fetchAssignments();
+    if (selectedId !== null) {
+      fetchDetail(selectedId);
+    }
+    const timer = setInterval(() => {
+      fetchAssignments();
+      if (
+        selectedId !== null &&
+        (detailStatus === undefined || detailStatus === "active")
+      ) {
+        fetchDetail(selectedId);
+      }
+    }, MISSION_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [deviceId, selectedId, detailStatus]);
+
+  // 管理员接口的通用请求，权限不足时提示
+  const send = async (url: string, method: string, body: unknown) => {
+    try {
+      setSending(true);
+      setError(null);
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (response.status === 401 || response.status === 403) {
+        setError("需要管理员权限才能分配任务");
+        return;
+      }
+      const result: ErrorResponse & { data?: MissionAssignment } =
+        await response.json();
+      if (!response.ok) {
+        throw new Error(describeError(result, response.status));
+      }
+      if (result.data) {
+        selectAssignment(result.data.id);
+      }
+      await fetchAssignments();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "操作失败");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const selectAssignment = (assignmentId: number) => {
+    setDetail(null);
+    updatePath([]);
+    setSelectedId(assignmentId);
+  };
+
+  const formatError = (value: number | null): string =>
+    value === null ? "-" : formatQuantity(value, "distance", units);
+
+  const renderProgress = (assignment: MissionAssignment) => (
+    <div className="w-full bg-gray-200 rounded-full h-2">
+      <div
+        className={`h-2 rounded-full ${
+          assignment.status === "aborted" ? "bg-gray-400" : "bg-blue-600"
+        }`}
+        style={{ width: `${assignment.progress}%` }}
+      ></div>
+    </div>
+  );
+
+  const assignment = detail?.data;
+  const mission = detail?.mission;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {active ? (
+          <>
+            <span className="text-sm text-gray-700">
+              正在执行: {active.missionName ?? `#${active.missionId}`}
+            </span>
+            <button
+              onClick={() =>
+                send(`/api/missions/assignments/${active.id}`, "PATCH", {
+                  status: "aborted",
+                })
+              }
+              disabled={sending}
+              className="px-3 py-1 bg-red-500 text-white text-sm rounded hover:bg-red-600 disabled:bg-gray-400 transition-colors"
+            >
+              中止任务
+            </button>
+          </>
+        ) : (
+          <>
+            <select
+              value={missionId}
+              onChange={(e) => setMissionId(e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+            >
+              <option value="">选择任务</option>
+              {missions.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}（{item.waypoints.length} 个航点）
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() =>
+                send("/api/missions/assignments", "POST", {
+                  missionId: parseInt(missionId),
+                  deviceId,
+                })
+              }
+              disabled={sending || !missionId}
+              className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+            >
+              分配任务
+            </button>
+            {missions.length === 0 && (
+              <span className="text-sm text-gray-500">
+                暂无任务，可通过 /api/missions 创建
+              </span>
+            )}
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          错误: {error}
+        </div>
+      )}
+
+      {assignment && mission && (
+        <div className="space-y-3">
+          <DroneMap
+            devices={path.length > 0 ? [path[path.length - 1]] : []}
+            tracks={{ [deviceId]: path }}
+            registry={registry}
+            routes={[
+              {
+                deviceId,
+                waypoints: mission.waypoints,
+                nextWaypoint: assignment.nextWaypoint,
+              },
+            ]}
+            height={320}
+          />
+          <p className="text-xs text-gray-500">
+            虚线为计划航线，实线为实际轨迹
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-gray-500">进度</p>
+              <p className="font-semibold text-gray-800">
+                {assignment.progress.toFixed(1)}%（航点{" "}
+                {Math.min(assignment.nextWaypoint, mission.waypoints.length)}/
+                {mission.waypoints.length}）
+              </p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-gray-500">当前偏航</p>
+              <p className="font-semibold text-gray-800">
+                {formatError(assignment.crossTrackError)}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-gray-500">最大 / 均方根偏航</p>
+              <p className="font-semibold text-gray-800">
+                {formatError(assignment.maxCrossTrackError)} /{" "}
+                {formatError(assignment.rmsCrossTrackError)}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-gray-500">高度偏差</p>
+              <p className="font-semibold text-gray-800">
+                {formatError(assignment.altitudeError)}
+              </p>
+            </div>
+          </div>
+          {detail.events.length > 0 && (
+            <ul className="space-y-1 text-xs text-gray-600">
+              {detail.events.map((event) => (
+                <li key={event.id} className="flex gap-2">
+                  <span className="font-mono text-gray-400">
+                    {new Date(event.timestamp).toLocaleTimeString()}
+                  </span>
+                  <span
+                    className={
+                      event.type === "waypoint_missed" ? "text-red-600" : ""
+                    }
+                  >
+                    {EVENT_LABELS[event.type]}
+                    {event.waypointIndex !== null &&
+                      ` ${event.waypointIndex + 1}`}
+                  </span>
+                  {event.distance !== null && (
+                    <span className="text-gray-500">
+                      距离 {formatError(event.distance)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium text-gray-800 mb-2">最近的任务</h4>
+        {assignments.length === 0 ? (
+          <p className="text-sm text-gray-500">还没有分配过任务</p>
+        ) : (
+          <div className="space-y-2">
+            {assignments.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => selectAssignment(item.id)}
+                className={`w-full text-left border rounded-lg p-3 text-sm space-y-2 ${
+                  item.id === selectedId
+                    ? "border-blue-400 bg-blue-50"
+                    : "border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-800">
+                    {item.missionName ?? `#${item.missionId}`}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 rounded text-xs ${ASSIGNMENT_STATUS_STYLES[item.status].className}`}
+                  >
+                    {ASSIGNMENT_STATUS_STYLES[item.status].label}
+                  </span>
+                  <span className="text-gray-500">
+                    {item.progress.toFixed(1)}%
+                  </span>
+                  <span className="ml-auto text-gray-400 font-mono">
+                    {new Date(item.startedAt).toLocaleString()}
+                  </span>
+                </div>
+                {renderProgress(item)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MissionPanel;
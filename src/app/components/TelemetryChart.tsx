@@ -0,0 +1,413 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { DisplayUnits, DroneData } from "../../types";
+import {
+  DEFAULT_DISPLAY_UNITS,
+  DisplayQuantity,
+  displayUnitLabel,
+  toDisplayUnit,
+} from "../../lib/units";
+
+// 可绘制的遥测字段
+export type SeriesKey =
+  | "ground_distance"
+  | "speed"
+  | "horizontal_speed"
+  | "vertical_speed"
+  | "pitch"
+  | "roll"
+  | "yaw";
+
+export interface SeriesDefinition {
+  key: SeriesKey;
+  label: string;
+  unit: string;
+  color: string;
+  // 可切换显示单位的物理量，未设置时按 unit 显示原值
+  quantity?: DisplayQuantity;
+}
+
+export const TELEMETRY_SERIES: SeriesDefinition[] = [
+  {
+    key: "ground_distance",
+    label: "高度",
+    unit: "m",
+    color: "#2563eb",
+    quantity: "distance",
+  },
+  {
+    key: "speed",
+    label: "速度",
+    unit: "m/s",
+    color: "#16a34a",
+    quantity: "speed",
+  },
+  {
+    key: "horizontal_speed",
+    label: "水平速度",
+    unit: "m/s",
+    color: "#0891b2",
+    quantity: "speed",
+  },
+  {
+    key: "vertical_speed",
+    label: "垂直速度",
+    unit: "m/s",
+    color: "#ca8a04",
+    quantity: "speed",
+  },
+  { key: "pitch", label: "俯仰", unit: "°", color: "#9333ea" },
+  { key: "roll", label: "翻滚", unit: "°", color: "#db2777" },
+  { key: "yaw", label: "偏航", unit: "°", color: "#ea580c" },
+];
+
+interface TelemetryChartProps {
+  // 按时间升序的样本
+  data: DroneData[];
+  initialSeries?: SeriesKey[];
+  height?: number;
+  units?: DisplayUnits;
+}
+
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 48 };
+// 每个像素最多保留的点数，超过时按像素分桶取最小/最大值
+const POINTS_PER_PIXEL = 2;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+// 样本在显示单位下的值
+export function seriesValue(
+  definition: SeriesDefinition,
+  item: DroneData,
+  units: DisplayUnits
+): number {
+  return definition.quantity
+    ? toDisplayUnit(item[definition.key], definition.quantity, units)
+    : item[definition.key];
+}
+
+export function seriesUnit(
+  definition: SeriesDefinition,
+  units: DisplayUnits
+): string {
+  return definition.quantity
+    ? displayUnitLabel(definition.quantity, units)
+    : definition.unit;
+}
+
+// 按像素分桶降采样，保留每个桶内的极值以免丢失尖峰
+export function downsample(
+  data: DroneData[],
+  key: SeriesKey,
+  buckets: number
+): DroneData[] {
+  if (data.length <= buckets * POINTS_PER_PIXEL) {
+    return data;
+  }
+  const size = data.length / buckets;
+  const result: DroneData[] = [];
+  for (let b = 0; b < buckets; b++) {
+    const slice = data.slice(Math.floor(b * size), Math.floor((b + 1) * size));
+    if (slice.length === 0) continue;
+    let min = slice[0];
+    let max = slice[0];
+    for (const item of slice) {
+      if (item[key] < min[key]) min = item;
+      if (item[key] > max[key]) max = item;
+    }
+    if (min.timestamp <= max.timestamp) {
+      result.push(min, max);
+    } else {
+      result.push(max, min);
+    }
+  }
+  return result;
+}
+
+// 多序列叠加的遥测曲线：拖动选择区间缩放，悬停显示读数
+const TelemetryChart: React.FC<TelemetryChartProps> = ({
+  data,
+  initialSeries = ["ground_distance", "speed"],
+  height = 280,
+  units = DEFAULT_DISPLAY_UNITS,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState<number>(0);
+  const [activeSeries, setActiveSeries] = useState<SeriesKey[]>(initialSeries);
+  // 缩放后的时间范围；为 null 时显示全部
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const [selection, setSelection] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // 数据变化时重置缩放
+  useEffect(() => {
+    setZoom(null);
+  }, [data]);
+
+  const plotWidth = Math.max(width - MARGIN.left - MARGIN.right, 1);
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+
+  const visible = useMemo(
+    () =>
+      zoom
+        ? data.filter(
+            (item) => item.timestamp >= zoom[0] && item.timestamp <= zoom[1]
+          )
+        : data,
+    [data, zoom]
+  );
+
+  const series = TELEMETRY_SERIES.filter((s) => activeSeries.includes(s.key));
+
+  const xMin = zoom ? zoom[0] : (visible[0]?.timestamp ?? 0);
+  const xMax = zoom ? zoom[1] : (visible[visible.length - 1]?.timestamp ?? 1);
+  const xSpan = Math.max(xMax - xMin, 1);
+
+  let yMin = Infinity;
+  let yMax = -Infinity;
+  for (const item of visible) {
+    for (const s of series) {
+      const value = seriesValue(s, item, units);
+      yMin = Math.min(yMin, value);
+      yMax = Math.max(yMax, value);
+    }
+  }
+  if (!Number.isFinite(yMin)) {
+    yMin = 0;
+    yMax = 1;
+  }
+  if (yMax - yMin < 1e-6) {
+    yMin -= 1;
+    yMax += 1;
+  }
+  const yPad = (yMax - yMin) * 0.05;
+  yMin -= yPad;
+  yMax += yPad;
+
+  const toX = (t: number) => MARGIN.left + ((t - xMin) / xSpan) * plotWidth;
+  const toY = (v: number) =>
+    MARGIN.top + (1 - (v - yMin) / (yMax - yMin)) * plotHeight;
+  const fromX = (x: number) => xMin + ((x - MARGIN.left) / plotWidth) * xSpan;
+
+  const yTicks = Array.from(
+    { length: 5 },
+    (_, i) => yMin + ((yMax - yMin) * i) / 4
+  );
+  const xTicks = Array.from({ length: 5 }, (_, i) => xMin + (xSpan * i) / 4);
+
+  // 悬停位置最近的样本
+  let hovered: DroneData | null = null;
+  if (hoverX !== null && visible.length > 0) {
+    const t = fromX(hoverX);
+    hovered = visible.reduce((best, item) =>
+      Math.abs(item.timestamp - t) < Math.abs(best.timestamp - t) ? item : best
+    );
+  }
+
+  const getX = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return Math.min(
+      Math.max(event.clientX - rect.left, MARGIN.left),
+      MARGIN.left + plotWidth
+    );
+  };
+
+  const handleMouseUp = () => {
+    if (selection && Math.abs(selection[1] - selection[0]) > 5) {
+      const a = fromX(Math.min(...selection));
+      const b = fromX(Math.max(...selection));
+      setZoom([a, b]);
+    }
+    setSelection(null);
+  };
+
+  const toggleSeries = (key: SeriesKey) => {
+    setActiveSeries((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {TELEMETRY_SERIES.map((s) => (
+          <button
+            key={s.key}
+            onClick={() => toggleSeries(s.key)}
+            className={`px-2 py-1 text-xs rounded border transition-colors ${
+              activeSeries.includes(s.key)
+                ? "text-white"
+                : "bg-white text-gray-600 border-gray-300"
+            }`}
+            style={
+              activeSeries.includes(s.key)
+                ? { backgroundColor: s.color, borderColor: s.color }
+                : undefined
+            }
+          >
+            {s.label} ({seriesUnit(s, units)})
+          </button>
+        ))}
+        {zoom && (
+          <button
+            onClick={() => setZoom(null)}
+            className="ml-auto px-2 py-1 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            重置缩放
+          </button>
+        )}
+      </div>
+
+      <div ref={containerRef} className="relative w-full">
+        {width > 0 && (
+          <svg
+            width={width}
+            height={height}
+            className="select-none"
+            onMouseMove={(event) => {
+              const x = getX(event);
+              setHoverX(x);
+              if (selection) setSelection([selection[0], x]);
+            }}
+            onMouseDown={(event) => {
+              const x = getX(event);
+              setSelection([x, x]);
+            }}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => {
+              setHoverX(null);
+              setSelection(null);
+            }}
+            onDoubleClick={() => setZoom(null)}
+          >
+            {/* 坐标轴和网格 */}
+            {yTicks.map((v) => (
+              <g key={`y-${v}`}>
+                <line
+                  x1={MARGIN.left}
+                  x2={MARGIN.left + plotWidth}
+                  y1={toY(v)}
+                  y2={toY(v)}
+                  stroke="#e5e7eb"
+                />
+                <text
+                  x={MARGIN.left - 6}
+                  y={toY(v) + 4}
+                  textAnchor="end"
+                  fontSize={11}
+                  fill="#6b7280"
+                >
+                  {v.toFixed(1)}
+                </text>
+              </g>
+            ))}
+            {xTicks.map((t) => (
+              <text
+                key={`x-${t}`}
+                x={toX(t)}
+                y={height - 8}
+                textAnchor="middle"
+                fontSize={11}
+                fill="#6b7280"
+              >
+                {formatTime(t)}
+              </text>
+            ))}
+
+            {/* 数据曲线 */}
+            {series.map((s) => (
+              <polyline
+                key={s.key}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={1.5}
+                points={downsample(visible, s.key, Math.floor(plotWidth))
+                  .map(
+                    (item) =>
+                      `${toX(item.timestamp)},${toY(seriesValue(s, item, units))}`
+                  )
+                  .join(" ")}
+              />
+            ))}
+
+            {/* 拖动选择区域 */}
+            {selection && (
+              <rect
+                x={Math.min(...selection)}
+                y={MARGIN.top}
+                width={Math.abs(selection[1] - selection[0])}
+                height={plotHeight}
+                fill="#3b82f6"
+                fillOpacity={0.15}
+              />
+            )}
+
+            {/* 悬停指示线 */}
+            {hovered && (
+              <g>
+                <line
+                  x1={toX(hovered.timestamp)}
+                  x2={toX(hovered.timestamp)}
+                  y1={MARGIN.top}
+                  y2={MARGIN.top + plotHeight}
+                  stroke="#9ca3af"
+                  strokeDasharray="4 3"
+                />
+                {series.map((s) => (
+                  <circle
+                    key={s.key}
+                    cx={toX(hovered!.timestamp)}
+                    cy={toY(seriesValue(s, hovered!, units))}
+                    r={3}
+                    fill={s.color}
+                  />
+                ))}
+              </g>
+            )}
+          </svg>
+        )}
+
+        {/* 悬停读数 */}
+        {hovered && series.length > 0 && (
+          <div
+            className="absolute top-2 pointer-events-none bg-white/90 border border-gray-200 rounded shadow-sm px-2 py-1 text-xs text-gray-700"
+            style={
+              toX(hovered.timestamp) > width / 2
+                ? { left: MARGIN.left + 8 }
+                : { right: MARGIN.right + 8 }
+            }
+          >
+            <p className="font-mono mb-1">{hovered.formatted_time}</p>
+            {series.map((s) => (
+              <p key={s.key} style={{ color: s.color }}>
+                {s.label}: {seriesValue(s, hovered!, units).toFixed(2)}{" "}
+                {seriesUnit(s, units)}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {visible.length === 0 && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+            所选时间范围内没有数据
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TelemetryChart;
@@ -0,0 +1,5 @@
+import DeviceManager from "../components/DeviceManager";
+
+export default function DevicesPage() {
+  return <DeviceManager />;
+}
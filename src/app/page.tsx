@@ -1,4 +1,3 @@
-import Image from "next/image";
 import DroneDataViewer from "./components/DroneDataViewer";
 
 export default function Home() {
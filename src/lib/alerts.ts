@@ -0,0 +1,635 @@
+import {
+  Alert,
+  AlertOperator,
+  AlertRule,
+  AlertRuleInput,
+  AlertStatus,
+  UnityData,
+} from "../types";
+import { DeviceStore } from "./devices";
+
+// 规则可引用的遥测字段（DroneData 字段名 -> 取值）
+export const ALERT_FIELDS: Record<string, (data: UnityData) => number> = {
+  latitude: (d) => d.latitude,
+  longitude: (d) => d.longitude,
+  pitch: (d) => d.pitch,
+  yaw: (d) => d.yaw,
+  roll: (d) => d.roll,
+  speed: (d) => d.speed,
+  velocity_x: (d) => d.velocity.x,
+  velocity_y: (d) => d.velocity.y,
+  velocity_z: (d) => d.velocity.z,
+  horizontal_speed: (d) => d.horizontalSpeed,
+  vertical_speed: (d) => d.verticalSpeed,
+  flight_direction: (d) => d.flightDirection,
+  ground_distance: (d) => d.groundDistance,
+};
+
+// no_data 规则只检查静默时间不超过 durationMs 加上该宽限期的设备，
+// 避免新建规则时长期停用的设备全部告警
+const NO_DATA_LOOKBACK_MS = 60 * 60 * 1000;
+
+// IN 查询每批的设备数
+const DEVICE_ID_CHUNK_SIZE = 50;
+
+export function compareValue(
+  value: number,
+  operator: AlertOperator,
+  threshold: number
+): boolean {
+  switch (operator) {
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+  }
+}
+
+// 规则条件的文字描述，如 "abs(roll) > 45 for 2s"
+export function describeAlertCondition(rule: AlertRuleInput): string {
+  const seconds = rule.durationMs / 1000;
+  if (rule.kind === "no_data") {
+    return `no data for ${seconds}s`;
+  }
+  let expression = rule.kind === "rate" ? `rate(${rule.field})` : rule.field;
+  if (rule.absolute) {
+    expression = `abs(${expression})`;
+  }
+  const unit = rule.kind === "rate" ? "/s" : "";
+  const duration = rule.durationMs > 0 ? ` for ${seconds}s` : "";
+  return `${expression} ${rule.operator} ${rule.threshold}${unit}${duration}`;
+}
+
+function rowToRule(row: any): AlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    field: row.field,
+    absolute: row.absolute === 1,
+    operator: row.operator,
+    threshold: row.threshold,
+    durationMs: row.duration_ms,
+    deviceId: row.device_id,
+    severity: row.severity,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToAlert(row: any): Alert {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name ?? null,
+    deviceId: row.device_id,
+    status: row.status,
+    severity: row.severity,
+    message: row.message,
+    value: row.value,
+    triggeredAt: row.triggered_at,
+    acknowledgedAt: row.acknowledged_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+export interface AlertQuery {
+  deviceId?: string;
+  // active 表示 open 和 acknowledged
+  status?: AlertStatus | "active";
+  limit: number;
+}
+
+// 求值过程中的规则状态
+interface RuleState {
+  pendingSince: number | null;
+  lastValue: number | null;
+  lastTimestamp: number | null;
+}
+
+// 求值过程中新建或关闭的告警
+interface AlertChange {
+  id?: number;
+  rule: AlertRule;
+  deviceId: string;
+  value: number | null;
+  triggeredAt: number;
+  resolvedAt: number | null;
+}
+
+// 告警规则、规则状态和告警记录的 D1 操作类
+export class AlertStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async listRules(enabledOnly: boolean = false): Promise<AlertRule[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM alert_rules ${
+          enabledOnly ? "WHERE enabled = 1" : ""
+        } ORDER BY id ASC`
+      )
+      .all();
+    return (result.results as any[]).map(rowToRule);
+  }
+
+  async getRule(id: number): Promise<AlertRule | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM alert_rules WHERE id = ?`)
+      .bind(id)
+      .first();
+    return row ? rowToRule(row) : null;
+  }
+
+  async createRule(input: AlertRuleInput): Promise<AlertRule | null> {
+    const row = await this.db
+      .prepare(
+        `
+      INSERT INTO alert_rules (
+        name, kind, field, absolute, operator, threshold,
+        duration_ms, device_id, severity, enabled
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `
+      )
+      .bind(
+        input.name,
+        input.kind,
+        input.field,
+        input.absolute ? 1 : 0,
+        input.operator,
+        input.threshold,
+        input.durationMs,
+        input.deviceId,
+        input.severity,
+        input.enabled ? 1 : 0
+      )
+      .first();
+    return row ? rowToRule(row) : null;
+  }
+
+  // 修改规则后清空求值状态，按新条件重新计时
+  async updateRule(
+    id: number,
+    input: AlertRuleInput
+  ): Promise<AlertRule | null> {
+    const [, result] = await this.db.batch([
+      this.db
+        .prepare(`DELETE FROM alert_rule_states WHERE rule_id = ?`)
+        .bind(id),
+      this.db
+        .prepare(
+          `
+      UPDATE alert_rules SET
+        name = ?, kind = ?, field = ?, absolute = ?, operator = ?,
+        threshold = ?, duration_ms = ?, device_id = ?, severity = ?,
+        enabled = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+      RETURNING *
+    `
+        )
+        .bind(
+          input.name,
+          input.kind,
+          input.field,
+          input.absolute ? 1 : 0,
+          input.operator,
+          input.threshold,
+          input.durationMs,
+          input.deviceId,
+          input.severity,
+          input.enabled ? 1 : 0,
+          id
+        ),
+    ]);
+    const row = result.results[0];
+    return row ? rowToRule(row) : null;
+  }
+
+  // 删除规则，并关闭该规则未关闭的告警
+  async deleteRule(id: number): Promise<boolean> {
+    const [, , result] = await this.db.batch([
+      this.db
+        .prepare(
+          `UPDATE alerts SET status = 'resolved', resolved_at = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE rule_id = ? AND status != 'resolved'`
+        )
+        .bind(Date.now(), id),
+      this.db
+        .prepare(`DELETE FROM alert_rule_states WHERE rule_id = ?`)
+        .bind(id),
+      this.db.prepare(`DELETE FROM alert_rules WHERE id = ?`).bind(id),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  // 查询告警记录（按触发时间倒序）
+  async listAlerts(query: AlertQuery): Promise<Alert[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.deviceId) {
+      conditions.push("a.device_id = ?");
+      params.push(query.deviceId);
+    }
+    if (query.status === "active") {
+      conditions.push("a.status != 'resolved'");
+    } else if (query.status) {
+      conditions.push("a.status = ?");
+      params.push(query.status);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db
+      .prepare(
+        `
+      SELECT a.*, r.name AS rule_name
+      FROM alerts a
+      LEFT JOIN alert_rules r ON r.id = a.rule_id
+      ${where}
+      ORDER BY a.triggered_at DESC
+      LIMIT ?
+    `
+      )
+      .bind(...params, query.limit)
+      .all();
+    return (result.results as any[]).map(rowToAlert);
+  }
+
+  async getAlert(id: number): Promise<Alert | null> {
+    const row = await this.db
+      .prepare(
+        `
+      SELECT a.*, r.name AS rule_name
+      FROM alerts a
+      LEFT JOIN alert_rules r ON r.id = a.rule_id
+      WHERE a.id = ?
+    `
+      )
+      .bind(id)
+      .first();
+    return row ? rowToAlert(row) : null;
+  }
+
+  // 确认告警：只有 open 状态的告警可以确认
+  async acknowledgeAlert(id: number, now: number): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE alerts SET status = 'acknowledged', acknowledged_at = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND status = 'open'`
+      )
+      .bind(now, id)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // 手动关闭告警
+  async resolveAlert(id: number, now: number): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE alerts SET status = 'resolved', resolved_at = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND status != 'resolved'`
+      )
+      .bind(now, id)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // 查询设备未关闭的告警，键为 `${ruleId}:${deviceId}`
+  private async getActiveAlerts(
+    deviceIds?: string[]
+  ): Promise<Map<string, number>> {
+    const active = new Map<string, number>();
+    const collect = (rows: any[]) =>
+      rows.forEach((row) =>
+        active.set(`${row.rule_id}:${row.device_id}`, row.id)
+      );
+
+    if (!deviceIds) {
+      const result = await this.db
+        .prepare(
+          `SELECT id, rule_id, device_id FROM alerts WHERE status != 'resolved'`
+        )
+        .all();
+      collect(result.results as any[]);
+      return active;
+    }
+
+    for (let i = 0; i < deviceIds.length; i += DEVICE_ID_CHUNK_SIZE) {
+      const chunk = deviceIds.slice(i, i + DEVICE_ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.db
+        .prepare(
+          `SELECT id, rule_id, device_id FROM alerts
+           WHERE status != 'resolved' AND device_id IN (${placeholders})`
+        )
+        .bind(...chunk)
+        .all();
+      collect(result.results as any[]);
+    }
+    return active;
+  }
+
+  // 各规则和设备自 since 起最近一次触发告警的时间（无论告警是否已关闭）
+  private async getLastTriggered(
+    ruleIds: number[],
+    since: number
+  ): Promise<Map<string, number>> {
+    const placeholders = ruleIds.map(() => "?").join(", ");
+    const result = await this.db
+      .prepare(
+        `SELECT rule_id, device_id, MAX(triggered_at) AS triggered_at FROM alerts
+         WHERE triggered_at >= ? AND rule_id IN (${placeholders})
+         GROUP BY rule_id, device_id`
+      )
+      .bind(since, ...ruleIds)
+      .all();
+    const triggered = new Map<string, number>();
+    for (const row of result.results as any[]) {
+      triggered.set(`${row.rule_id}:${row.device_id}`, row.triggered_at);
+    }
+    return triggered;
+  }
+
+  private async getRuleStates(
+    deviceIds: string[]
+  ): Promise<Map<string, RuleState>> {
+    const states = new Map<string, RuleState>();
+    for (let i = 0; i < deviceIds.length; i += DEVICE_ID_CHUNK_SIZE) {
+      const chunk = deviceIds.slice(i, i + DEVICE_ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.db
+        .prepare(
+          `SELECT * FROM alert_rule_states WHERE device_id IN (${placeholders})`
+        )
+        .bind(...chunk)
+        .all();
+      for (const row of result.results as any[]) {
+        states.set(`${row.rule_id}:${row.device_id}`, {
+          pendingSince: row.pending_since,
+          lastValue: row.last_value,
+          lastTimestamp: row.last_timestamp,
+        });
+      }
+    }
+    return states;
+  }
+
+  // 把新建和关闭的告警写入数据库
+  private alertStatements(changes: AlertChange[]): D1PreparedStatement[] {
+    const insert = this.db.prepare(`
+      INSERT INTO alerts (
+        rule_id, device_id, status, severity, message, value,
+        triggered_at, resolved_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const resolve = this.db.prepare(
+      `UPDATE alerts SET status = 'resolved', resolved_at = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status != 'resolved'`
+    );
+
+    return changes.map((change) => {
+      if (change.id !== undefined) {
+        return resolve.bind(change.resolvedAt, change.id);
+      }
+      const condition = describeAlertCondition(change.rule);
+      const message =
+        change.value === null
+          ? `${change.rule.name}: ${condition}`
+          : `${change.rule.name}: ${condition} (value ${change.value.toFixed(2)})`;
+      return insert.bind(
+        change.rule.id,
+        change.deviceId,
+        change.resolvedAt === null ? "open" : "resolved",
+        change.rule.severity,
+        message,
+        change.value,
+        change.triggeredAt,
+        change.resolvedAt
+      );
+    });
+  }
+
+  // 按时间顺序对新样本求值阈值/变化率规则；设备恢复上报时关闭其 no_data 告警
+  async evaluateSamples(samples: UnityData[]): Promise<void> {
+    const rules = await this.listRules(true);
+    if (rules.length === 0 || samples.length === 0) {
+      return;
+    }
+
+    const byDevice = new Map<string, UnityData[]>();
+    for (const sample of samples) {
+      const list = byDevice.get(sample.deviceId) || [];
+      list.push(sample);
+      byDevice.set(sample.deviceId, list);
+    }
+    const deviceIds = Array.from(byDevice.keys());
+    const active = await this.getActiveAlerts(deviceIds);
+    const states = await this.getRuleStates(deviceIds);
+
+    const changes: AlertChange[] = [];
+    const touched = new Set<string>();
+
+    for (const [deviceId, deviceSamples] of byDevice) {
+      deviceSamples.sort((a, b) => a.timestamp - b.timestamp);
+
+      for (const rule of rules) {
+        if (rule.deviceId && rule.deviceId !== deviceId) continue;
+        const key = `${rule.id}:${deviceId}`;
+
+        if (rule.kind === "no_data") {
+          const alertId = active.get(key);
+          if (alertId !== undefined) {
+            changes.push({
+              id: alertId,
+              rule,
+              deviceId,
+              value: null,
+              triggeredAt: 0,
+              resolvedAt: deviceSamples[0].timestamp,
+            });
+          }
+          continue;
+        }
+
+        const getValue = ALERT_FIELDS[rule.field ?? ""];
+        if (!getValue || rule.operator === null || rule.threshold === null) {
+          continue;
+        }
+
+        const state = states.get(key) || {
+          pendingSince: null,
+          lastValue: null,
+          lastTimestamp: null,
+        };
+        // 当前未关闭的告警：已存在的用 id 表示，本次新建的用对象表示
+        let current: number | AlertChange | undefined = active.get(key);
+
+        for (const sample of deviceSamples) {
+          // 忽略比已处理样本更早的乱序数据
+          if (
+            state.lastTimestamp !== null &&
+            sample.timestamp <= state.lastTimestamp
+          ) {
+            continue;
+          }
+
+          const raw = getValue(sample);
+          let value: number | null = raw;
+          if (rule.kind === "rate") {
+            value =
+              state.lastTimestamp === null || state.lastValue === null
+                ? null
+                : (raw - state.lastValue) /
+                  ((sample.timestamp - state.lastTimestamp) / 1000);
+          }
+          state.lastValue = raw;
+          state.lastTimestamp = sample.timestamp;
+          if (value === null) continue;
+          if (rule.absolute) value = Math.abs(value);
+
+          if (compareValue(value, rule.operator, rule.threshold)) {
+            state.pendingSince ??= sample.timestamp;
+            if (
+              current === undefined &&
+              sample.timestamp - state.pendingSince >= rule.durationMs
+            ) {
+              current = {
+                rule,
+                deviceId,
+                value,
+                triggeredAt: sample.timestamp,
+                resolvedAt: null,
+              };
+              changes.push(current);
+            }
+          } else {
+            state.pendingSince = null;
+            if (typeof current === "number") {
+              changes.push({
+                id: current,
+                rule,
+                deviceId,
+                value: null,
+                triggeredAt: 0,
+                resolvedAt: sample.timestamp,
+              });
+            } else if (current) {
+              current.resolvedAt = sample.timestamp;
+            }
+            current = undefined;
+          }
+        }
+
+        states.set(key, state);
+        touched.add(key);
+      }
+    }
+
+    const upsertState = this.db.prepare(`
+      INSERT INTO alert_rule_states (
+        rule_id, device_id, pending_since, last_value, last_timestamp
+      ) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(rule_id, device_id) DO UPDATE SET
+        pending_since = excluded.pending_since,
+        last_value = excluded.last_value,
+        last_timestamp = excluded.last_timestamp
+    `);
+    const statements = Array.from(touched).map((key) => {
+      const [ruleId, ...rest] = key.split(":");
+      const state = states.get(key)!;
+      return upsertState.bind(
+        parseInt(ruleId),
+        rest.join(":"),
+        state.pendingSince,
+        state.lastValue,
+        state.lastTimestamp
+      );
+    });
+    statements.push(...this.alertStatements(changes));
+
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+  }
+
+  // 心跳检查：对 no_data 规则，设备静默超过 durationMs 时告警，恢复上报后关闭。
+  // 由每分钟一次的定时任务调用（见 wrangler.jsonc），告警最多比 durationMs 晚约 1 分钟。
+  // 同一段静默只告警一次：告警被手动关闭后，设备恢复上报前不再重新触发
+  async evaluateHeartbeat(now: number): Promise<void> {
+    const rules = (await this.listRules(true)).filter(
+      (rule) => rule.kind === "no_data"
+    );
+    if (rules.length === 0) {
+      return;
+    }
+
+    const maxDurationMs = rules.reduce(
+      (max, rule) => Math.max(max, rule.durationMs),
+      0
+    );
+    const latest = await new DeviceStore(this.db).getLatestPerDevice();
+    const recent = latest.filter(
+      (row) => now - row.timestamp <= maxDurationMs + NO_DATA_LOOKBACK_MS
+    );
+    const disabled = await new DeviceStore(this.db).getDisabledDeviceIds(
+      recent.map((row) => row.device_id)
+    );
+    const active = await this.getActiveAlerts();
+    const triggered = await this.getLastTriggered(
+      rules.map((rule) => rule.id),
+      now - maxDurationMs - NO_DATA_LOOKBACK_MS
+    );
+
+    const changes: AlertChange[] = [];
+    for (const rule of rules) {
+      for (const row of recent) {
+        const deviceId: string = row.device_id;
+        if (disabled.has(deviceId)) continue;
+        if (rule.deviceId && rule.deviceId !== deviceId) continue;
+
+        const silentMs = now - row.timestamp;
+        if (silentMs > rule.durationMs + NO_DATA_LOOKBACK_MS) continue;
+
+        const key = `${rule.id}:${deviceId}`;
+        const alertId = active.get(key);
+        const firedInSilence =
+          (triggered.get(key) ?? -Infinity) > row.timestamp;
+        if (
+          silentMs >= rule.durationMs &&
+          alertId === undefined &&
+          !firedInSilence
+        ) {
+          changes.push({
+            rule,
+            deviceId,
+            value: silentMs / 1000,
+            triggeredAt: now,
+            resolvedAt: null,
+          });
+        } else if (silentMs < rule.durationMs && alertId !== undefined) {
+          changes.push({
+            id: alertId,
+            rule,
+            deviceId,
+            value: null,
+            triggeredAt: 0,
+            resolvedAt: now,
+          });
+        }
+      }
+    }
+
+    if (changes.length > 0) {
+      await this.db.batch(this.alertStatements(changes));
+    }
+  }
+}
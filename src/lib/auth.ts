@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// 看板登录后保存令牌的 Cookie
+export const SESSION_COOKIE = "panel_token";
+
+export type AccessRole = "read" | "admin";
+
+// 是否关闭鉴权（仅用于本地开发）
+export function isAuthDisabled(env: CloudflareEnv): boolean {
+  return env.AUTH_DISABLED === "true";
+}
+
+// SHA-256 哈希，数据库中只保存设备密钥的哈希值
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// 生成随机设备密钥（32 字节，十六进制）
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return (
+    "dk_" +
+    Array.from(bytes)
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+// 常量时间比较，避免通过响应时间猜测令牌
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// 从 Authorization: Bearer 头读取令牌
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// 根据令牌判断角色：ADMIN_TOKEN 为管理员，READ_TOKEN 为只读
+export function getTokenRole(
+  token: string | null | undefined,
+  env: CloudflareEnv
+): AccessRole | null {
+  if (!token) {
+    return null;
+  }
+  if (env.ADMIN_TOKEN && safeEqual(token, env.ADMIN_TOKEN)) {
+    return "admin";
+  }
+  if (env.READ_TOKEN && safeEqual(token, env.READ_TOKEN)) {
+    return "read";
+  }
+  return null;
+}
+
+// 请求的访问角色：优先取 Authorization 头，其次取看板 Cookie
+export function getRequestRole(
+  request: NextRequest,
+  env: CloudflareEnv
+): AccessRole | null {
+  if (isAuthDisabled(env)) {
+    return "admin";
+  }
+  return getTokenRole(
+    getBearerToken(request) || request.cookies.get(SESSION_COOKIE)?.value,
+    env
+  );
+}
+
+// 检查读权限，未授权时返回 401 响应
+export function requireReadAccess(
+  request: NextRequest,
+  env: CloudflareEnv
+): NextResponse | null {
+  if (getRequestRole(request, env)) {
+    return null;
+  }
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+// 检查管理员权限，未授权时返回 401/403 响应
+export function requireAdminAccess(
+  request: NextRequest,
+  env: CloudflareEnv
+): NextResponse | null {
+  const role = getRequestRole(request, env);
+  if (role === "admin") {
+    return null;
+  }
+  return NextResponse.json(
+    { error: role ? "Forbidden" : "Unauthorized" },
+    { status: role ? 403 : 401 }
+  );
+}
+
+// 用 Authorization: Bearer <设备密钥> 认证设备，返回设备 ID；
+// 认证失败返回 null
+export async function authenticateDevice(
+  request: NextRequest,
+  db: D1Database
+): Promise<string | null> {
+  const key = getBearerToken(request);
+  if (!key) {
+    return null;
+  }
+  const row = await db
+    .prepare(`SELECT device_id FROM devices WHERE api_key_hash = ?`)
+    .bind(await hashApiKey(key))
+    .first<{ device_id: string }>();
+  return row ? row.device_id : null;
+}
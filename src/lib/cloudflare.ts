@@ -0,0 +1,37 @@
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+
+// 获取 Cloudflare 环境的函数
+export function getCloudflareEnv() {
+  try {
+    const context = getCloudflareContext();
+    return context?.env;
+  } catch (error) {
+    console.error("Failed to get Cloudflare context:", error);
+    return null;
+  }
+}
+
+// 响应返回后继续执行后台任务（Workers 的 waitUntil），不可用时直接等待完成
+export async function runInBackground(task: Promise<unknown>): Promise<void> {
+  const guarded = task.catch((error) =>
+    console.error("Background task failed:", error)
+  );
+  try {
+    const { ctx } = getCloudflareContext();
+    if (ctx?.waitUntil) {
+      ctx.waitUntil(guarded);
+      return;
+    }
+  } catch {
+    // 不在 Cloudflare 环境中
+  }
+  await guarded;
+}
+
+// 错误处理工具函数
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
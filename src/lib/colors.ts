@@ -0,0 +1,30 @@
+// 设备配色，按 deviceId 哈希选取，保证同一设备在各视图中颜色一致
+const DEVICE_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#dc2626",
+  "#9333ea",
+  "#ea580c",
+  "#0891b2",
+  "#ca8a04",
+  "#db2777",
+];
+
+export function getDeviceColor(
+  deviceId: string,
+  custom?: string | null
+): string {
+  if (custom) {
+    return custom;
+  }
+  let hash = 0;
+  for (let i = 0; i < deviceId.length; i++) {
+    hash = (hash * 31 + deviceId.charCodeAt(i)) | 0;
+  }
+  return DEVICE_COLORS[Math.abs(hash) % DEVICE_COLORS.length];
+}
+
+// 设备显示名称：优先使用注册名称，否则取 deviceId 末 8 位
+export function getDeviceLabel(deviceId: string, name?: string | null): string {
+  return name || deviceId.slice(-8);
+}
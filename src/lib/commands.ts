@@ -0,0 +1,300 @@
+import {
+  CommandActor,
+  DeviceCommand,
+  DeviceCommandEvent,
+  DeviceCommandInput,
+  DeviceCommandStatus,
+  DeviceCommandType,
+} from "../types";
+
+export const COMMAND_TYPES: DeviceCommandType[] = [
+  "return_home",
+  "land",
+  "hold",
+  "goto",
+  "set_speed",
+];
+
+// 等待设备确认的默认时长和上限（毫秒）
+export const DEFAULT_COMMAND_TIMEOUT_MS = 30 * 1000;
+export const MAX_COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+// 每次下发给设备的最大命令数
+const MAX_DELIVERED_COMMANDS = 10;
+
+// 设备可回报的状态，以及各状态允许的前置状态
+export const DEVICE_REPORTED_STATUSES: Partial<
+  Record<DeviceCommandStatus, DeviceCommandStatus[]>
+> = {
+  acknowledged: ["pending", "delivered"],
+  rejected: ["pending", "delivered"],
+  completed: ["pending", "delivered", "acknowledged"],
+  failed: ["pending", "delivered", "acknowledged"],
+};
+
+// 操作员只能取消设备尚未确认的命令
+const CANCELLABLE_STATUSES: DeviceCommandStatus[] = ["pending", "delivered"];
+
+// 等待设备确认、会重复下发和超时的状态
+const AWAITING_STATUSES: DeviceCommandStatus[] = ["pending", "delivered"];
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => "?").join(", ");
+}
+
+function rowToCommand(row: any): DeviceCommand {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    type: row.type,
+    params: row.params ? JSON.parse(row.params) : null,
+    status: row.status,
+    issuedAt: row.issued_at,
+    expiresAt: row.expires_at,
+    deliveredAt: row.delivered_at,
+    acknowledgedAt: row.acknowledged_at,
+    completedAt: row.completed_at,
+    message: row.message,
+  };
+}
+
+function rowToEvent(row: any): DeviceCommandEvent {
+  return {
+    id: row.id,
+    commandId: row.command_id,
+    status: row.status,
+    actor: row.actor,
+    message: row.message,
+    at: row.at,
+  };
+}
+
+export interface CommandQuery {
+  deviceId?: string;
+  // active 表示 pending、delivered 和 acknowledged
+  status?: DeviceCommandStatus | "active";
+  limit: number;
+}
+
+// 设备命令队列及其审计记录的 D1 操作类
+export class CommandStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  private eventStatement(
+    commandId: number,
+    status: DeviceCommandStatus,
+    actor: CommandActor,
+    message: string | null,
+    at: number
+  ): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO device_command_events (command_id, status, actor, message, at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .bind(commandId, status, actor, message, at);
+  }
+
+  async createCommand(
+    input: DeviceCommandInput,
+    now: number
+  ): Promise<DeviceCommand | null> {
+    const row = await this.db
+      .prepare(
+        `
+      INSERT INTO device_commands (device_id, type, params, status, issued_at, expires_at)
+      VALUES (?, ?, ?, 'pending', ?, ?)
+      RETURNING id
+    `
+      )
+      .bind(
+        input.deviceId,
+        input.type,
+        input.params ? JSON.stringify(input.params) : null,
+        now,
+        now + input.timeoutMs
+      )
+      .first<{ id: number }>();
+    if (!row) {
+      return null;
+    }
+    await this.eventStatement(row.id, "pending", "operator", null, now).run();
+    return this.getCommand(row.id);
+  }
+
+  async getCommand(id: number): Promise<DeviceCommand | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM device_commands WHERE id = ?`)
+      .bind(id)
+      .first();
+    return row ? rowToCommand(row) : null;
+  }
+
+  // 查询命令（按下发时间倒序）
+  async listCommands(query: CommandQuery): Promise<DeviceCommand[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.deviceId) {
+      conditions.push("device_id = ?");
+      params.push(query.deviceId);
+    }
+    if (query.status === "active") {
+      conditions.push("status IN ('pending', 'delivered', 'acknowledged')");
+    } else if (query.status) {
+      conditions.push("status = ?");
+      params.push(query.status);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db
+      .prepare(
+        `
+      SELECT * FROM device_commands
+      ${where}
+      ORDER BY issued_at DESC, id DESC
+      LIMIT ?
+    `
+      )
+      .bind(...params, query.limit)
+      .all();
+    return (result.results as any[]).map(rowToCommand);
+  }
+
+  // 命令的审计记录（按时间升序）
+  async getHistory(commandId: number): Promise<DeviceCommandEvent[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM device_command_events WHERE command_id = ? ORDER BY at ASC, id ASC`
+      )
+      .bind(commandId)
+      .all();
+    return (result.results as any[]).map(rowToEvent);
+  }
+
+  // 把超时未确认的命令标记为 expired，返回被标记的数量
+  async expireCommands(now: number, deviceId?: string): Promise<number> {
+    const params: unknown[] = [...AWAITING_STATUSES, now];
+    let deviceFilter = "";
+    if (deviceId) {
+      deviceFilter = "AND device_id = ?";
+      params.push(deviceId);
+    }
+    const result = await this.db
+      .prepare(
+        `
+      UPDATE device_commands SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+      WHERE status IN (${placeholders(AWAITING_STATUSES)}) AND expires_at <= ? ${deviceFilter}
+      RETURNING id
+    `
+      )
+      .bind(...params)
+      .all<{ id: number }>();
+    const ids = result.results.map((row) => row.id);
+    if (ids.length > 0) {
+      await this.db.batch(
+        ids.map((id) =>
+          this.eventStatement(
+            id,
+            "expired",
+            "system",
+            "not acknowledged in time",
+            now
+          )
+        )
+      );
+    }
+    return ids.length;
+  }
+
+  // 取出下发给设备的命令：先处理超时，再返回所有等待确认的命令（按下发时间升序）。
+  // 首次下发的命令标记为 delivered；设备未确认前每次都会重复下发，由设备按 id 去重
+  async takePending(deviceId: string, now: number): Promise<DeviceCommand[]> {
+    await this.expireCommands(now, deviceId);
+
+    const result = await this.db
+      .prepare(
+        `
+      SELECT * FROM device_commands
+      WHERE device_id = ? AND status IN (${placeholders(AWAITING_STATUSES)})
+      ORDER BY issued_at ASC, id ASC
+      LIMIT ?
+    `
+      )
+      .bind(deviceId, ...AWAITING_STATUSES, MAX_DELIVERED_COMMANDS)
+      .all();
+    const commands = (result.results as any[]).map(rowToCommand);
+
+    const fresh = commands.filter((command) => command.status === "pending");
+    if (fresh.length > 0) {
+      await this.db.batch(
+        fresh.flatMap((command) => [
+          this.db
+            .prepare(
+              `UPDATE device_commands SET status = 'delivered', delivered_at = ?, updated_at = CURRENT_TIMESTAMP
+               WHERE id = ? AND status = 'pending'`
+            )
+            .bind(now, command.id),
+          this.eventStatement(command.id, "delivered", "system", null, now),
+        ])
+      );
+      for (const command of fresh) {
+        command.status = "delivered";
+        command.deliveredAt = now;
+      }
+    }
+    return commands;
+  }
+
+  // 设备回报命令状态；当前状态不允许该变化时返回 false
+  async reportStatus(
+    id: number,
+    status: DeviceCommandStatus,
+    message: string | null,
+    now: number
+  ): Promise<boolean> {
+    const allowed = DEVICE_REPORTED_STATUSES[status];
+    if (!allowed) {
+      return false;
+    }
+    const timeColumn =
+      status === "acknowledged" ? "acknowledged_at" : "completed_at";
+    const result = await this.db
+      .prepare(
+        `
+      UPDATE device_commands
+      SET status = ?, ${timeColumn} = ?, message = COALESCE(?, message), updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status IN (${placeholders(allowed)}) AND (expires_at > ? OR status = 'acknowledged')
+    `
+      )
+      .bind(status, now, message, id, ...allowed, now)
+      .run();
+    if (result.meta.changes === 0) {
+      return false;
+    }
+    await this.eventStatement(id, status, "device", message, now).run();
+    return true;
+  }
+
+  // 操作员取消设备尚未确认的命令
+  async cancelCommand(id: number, now: number): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `
+      UPDATE device_commands SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status IN (${placeholders(CANCELLABLE_STATUSES)})
+    `
+      )
+      .bind(id, ...CANCELLABLE_STATUSES)
+      .run();
+    if (result.meta.changes === 0) {
+      return false;
+    }
+    await this.eventStatement(id, "cancelled", "operator", null, now).run();
+    return true;
+  }
+}
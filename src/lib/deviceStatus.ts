@@ -0,0 +1,22 @@
+import { DeviceStatus, HeartbeatThresholds } from "../types";
+
+export const DEFAULT_HEARTBEAT_THRESHOLDS: HeartbeatThresholds = {
+  heartbeatMs: 5000,
+  offlineMs: 60000,
+};
+
+// 根据最后上报时间计算设备状态
+export function getDeviceStatus(
+  lastSeen: number,
+  now: number,
+  thresholds: HeartbeatThresholds = DEFAULT_HEARTBEAT_THRESHOLDS
+): DeviceStatus {
+  const age = now - lastSeen;
+  if (age <= thresholds.heartbeatMs) {
+    return "online";
+  }
+  if (age <= thresholds.offlineMs) {
+    return "stale";
+  }
+  return "offline";
+}
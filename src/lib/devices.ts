@@ -0,0 +1,160 @@
+import { DeviceInfo, DeviceInput } from "../types";
+
+// 数据库行 -> DeviceInfo
+function rowToDevice(row: any): DeviceInfo {
+  return {
+    deviceId: row.device_id,
+    name: row.name,
+    model: row.model,
+    owner: row.owner,
+    color: row.color,
+    notes: row.notes,
+    enabled: row.enabled === 1,
+    hasApiKey: row.api_key_hash !== null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// IN 查询每批的设备数
+const DEVICE_ID_CHUNK_SIZE = 50;
+
+// 可由 DeviceInput 更新的列
+const DEVICE_COLUMNS = ["name", "model", "owner", "color", "notes"] as const;
+
+// 设备相关的 D1 操作类
+export class DeviceStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  // 查询每个设备最新的一条数据，由写入时维护的 device_latest 表定位
+  async getLatestPerDevice(): Promise<any[]> {
+    const stmt = this.db.prepare(`
+      SELECT u.* FROM device_latest l
+      JOIN unity_data u ON u.id = l.sample_id
+      ORDER BY u.timestamp DESC
+    `);
+
+    const result = await stmt.all();
+    return result.results;
+  }
+
+  // 设置设备密钥哈希（不存在时注册设备），传入 null 表示吊销密钥
+  async setApiKeyHash(deviceId: string, hash: string | null): Promise<void> {
+    await this.db
+      .prepare(
+        `
+      INSERT INTO devices (device_id, api_key_hash) VALUES (?, ?)
+      ON CONFLICT (device_id) DO UPDATE SET api_key_hash = excluded.api_key_hash
+    `
+      )
+      .bind(deviceId, hash)
+      .run();
+  }
+
+  // 查询所有注册设备，附带最后上报时间
+  async listDevices(): Promise<(DeviceInfo & { lastSeen: number | null })[]> {
+    const result = await this.db
+      .prepare(
+        `
+      SELECT d.*, (
+        SELECT MAX(u.timestamp) FROM unity_data u WHERE u.device_id = d.device_id
+      ) AS last_seen
+      FROM devices d
+      ORDER BY d.created_at DESC
+    `
+      )
+      .all();
+    return (result.results as any[]).map((row) => ({
+      ...rowToDevice(row),
+      lastSeen: row.last_seen,
+    }));
+  }
+
+  // 根据 deviceId 查询注册信息
+  async getDevice(deviceId: string): Promise<DeviceInfo | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM devices WHERE device_id = ?`)
+      .bind(deviceId)
+      .first();
+    return row ? rowToDevice(row) : null;
+  }
+
+  // 注册新设备，设备已存在时返回 false
+  async createDevice(deviceId: string, input: DeviceInput): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `
+      INSERT INTO devices (device_id, name, model, owner, color, notes, enabled)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (device_id) DO NOTHING
+    `
+      )
+      .bind(
+        deviceId,
+        input.name ?? null,
+        input.model ?? null,
+        input.owner ?? null,
+        input.color ?? null,
+        input.notes ?? null,
+        input.enabled === false ? 0 : 1
+      )
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // 更新设备信息，只修改 input 中出现的字段；设备不存在时返回 false
+  async updateDevice(deviceId: string, input: DeviceInput): Promise<boolean> {
+    const sets: string[] = [];
+    const params: unknown[] = [];
+    for (const column of DEVICE_COLUMNS) {
+      if (input[column] !== undefined) {
+        sets.push(`${column} = ?`);
+        params.push(input[column]);
+      }
+    }
+    if (input.enabled !== undefined) {
+      sets.push("enabled = ?");
+      params.push(input.enabled ? 1 : 0);
+    }
+    sets.push("updated_at = CURRENT_TIMESTAMP");
+
+    const result = await this.db
+      .prepare(`UPDATE devices SET ${sets.join(", ")} WHERE device_id = ?`)
+      .bind(...params, deviceId)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // 删除设备注册信息（同时吊销密钥），不删除已上报的数据
+  async deleteDevice(deviceId: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(`DELETE FROM devices WHERE device_id = ?`)
+      .bind(deviceId)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // 返回给定设备中已被停用的设备
+  async getDisabledDeviceIds(deviceIds: string[]): Promise<Set<string>> {
+    const disabled = new Set<string>();
+    // D1 单条语句的绑定参数数量有限，分批查询
+    for (let i = 0; i < deviceIds.length; i += DEVICE_ID_CHUNK_SIZE) {
+      const chunk = deviceIds.slice(i, i + DEVICE_ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.db
+        .prepare(
+          `SELECT device_id FROM devices WHERE enabled = 0 AND device_id IN (${placeholders})`
+        )
+        .bind(...chunk)
+        .all();
+      for (const row of result.results as { device_id: string }[]) {
+        disabled.add(row.device_id);
+      }
+    }
+    return disabled;
+  }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { isExportFormat } from "./export";
+
+describe("isExportFormat", () => {
+  it("只接受已定义的导出格式", () => {
+    for (const format of ["csv", "geojson", "kml", "gpx"]) {
+      expect(isExportFormat(format)).toBe(true);
+    }
+    expect(isExportFormat("xml")).toBe(false);
+  });
+
+  it("不把对象原型上的属性当作格式", () => {
+    expect(isExportFormat("constructor")).toBe(false);
+    expect(isExportFormat("toString")).toBe(false);
+    expect(isExportFormat("__proto__")).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { DroneData } from "../types";
+
+export type ExportFormatName = "csv" | "geojson" | "kml" | "gpx";
+
+// 导出元信息
+export interface ExportMeta {
+  deviceId: string;
+  startTime: number;
+  endTime: number;
+}
+
+// 流式导出格式：header + 每行 + footer 拼接成完整文件
+interface ExportFormat {
+  contentType: string;
+  extension: string;
+  header(meta: ExportMeta): string;
+  row(item: DroneData, index: number): string;
+  footer(meta: ExportMeta): string;
+}
+
+const CSV_COLUMNS: (keyof DroneData)[] = [
+  "id",
+  "device_id",
+  "formatted_time",
+  "timestamp",
+  "latitude",
+  "longitude",
+  "pitch",
+  "yaw",
+  "roll",
+  "speed",
+  "velocity_x",
+  "velocity_y",
+  "velocity_z",
+  "horizontal_speed",
+  "vertical_speed",
+  "flight_direction",
+  "ground_distance",
+  "created_at",
+];
+
+function escapeCsv(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function toIsoTime(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function trackName(meta: ExportMeta): string {
+  return `${meta.deviceId} ${toIsoTime(meta.startTime)} - ${toIsoTime(
+    meta.endTime
+  )}`;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormatName, ExportFormat> = {
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    header: () => CSV_COLUMNS.join(",") + "\n",
+    row: (item) =>
+      CSV_COLUMNS.map((column) => escapeCsv(item[column])).join(",") + "\n",
+    footer: () => "",
+  },
+
+  // FeatureCollection，包含一条 [经度, 纬度, 高度] 的 LineString 轨迹
+  geojson: {
+    contentType: "application/geo+json",
+    extension: "geojson",
+    header: (meta) =>
+      `{"type":"FeatureCollection","features":[{"type":"Feature","properties":${JSON.stringify(
+        {
+          deviceId: meta.deviceId,
+          startTime: meta.startTime,
+          endTime: meta.endTime,
+        }
+      )},"geometry":{"type":"LineString","coordinates":[`,
+    row: (item, index) =>
+      `${index > 0 ? "," : ""}[${item.longitude},${item.latitude},${
+        item.ground_distance
+      }]`,
+    footer: () => "]}}]}\n",
+  },
+
+  // 高度取 ground_distance，按相对地面高度显示
+  kml: {
+    contentType: "application/vnd.google-earth.kml+xml",
+    extension: "kml",
+    header: (meta) =>
+      `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+<name>${escapeXml(trackName(meta))}</name>
+<Placemark>
+<name>${escapeXml(meta.deviceId)}</name>
+<LineString>
+<altitudeMode>relativeToGround</altitudeMode>
+<coordinates>
+`,
+    row: (item) =>
+      `${item.longitude},${item.latitude},${item.ground_distance}\n`,
+    footer: () => `</coordinates>
+</LineString>
+</Placemark>
+</Document>
+</kml>
+`,
+  },
+
+  gpx: {
+    contentType: "application/gpx+xml",
+    extension: "gpx",
+    header: (meta) =>
+      `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="drone-simulator" xmlns="http://www.topografix.com/GPX/1/1">
+<trk>
+<name>${escapeXml(trackName(meta))}</name>
+<trkseg>
+`,
+    row: (item) =>
+      `<trkpt lat="${item.latitude}" lon="${item.longitude}"><ele>${
+        item.ground_distance
+      }</ele><time>${toIsoTime(item.timestamp)}</time></trkpt>\n`,
+    footer: () => `</trkseg>
+</trk>
+</gpx>
+`,
+  },
+};
+
+export function isExportFormat(value: string): value is ExportFormatName {
+  return Object.hasOwn(EXPORT_FORMATS, value);
+}
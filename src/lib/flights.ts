@@ -0,0 +1,377 @@
+import { FlightSession, UnityData } from "../types";
+import { haversineDistance } from "./geo";
+
+// 架次切分参数
+export interface FlightDetectionOptions {
+  // 两个样本间隔超过该值（毫秒）视为新的架次
+  gapMs: number;
+  // 离地高度超过该值（米）视为起飞
+  takeoffAltitude: number;
+  // 离地高度和速度同时低于以下阈值视为降落
+  landingAltitude: number;
+  landingSpeed: number;
+}
+
+export const DEFAULT_FLIGHT_OPTIONS: FlightDetectionOptions = {
+  gapMs: 30_000,
+  takeoffAltitude: 0.5,
+  landingAltitude: 0.3,
+  landingSpeed: 0.5,
+};
+
+// 架次切分所需的最少样本字段
+export interface FlightSample {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  groundDistance: number;
+}
+
+function startSession(deviceId: string, sample: FlightSample): FlightSession {
+  return {
+    deviceId,
+    startTime: sample.timestamp,
+    endTime: sample.timestamp,
+    durationMs: 0,
+    distance: 0,
+    maxAltitude: sample.groundDistance,
+    maxSpeed: sample.speed,
+    sampleCount: 1,
+    startLatitude: sample.latitude,
+    startLongitude: sample.longitude,
+    endLatitude: sample.latitude,
+    endLongitude: sample.longitude,
+    status: "active",
+  };
+}
+
+function extendSession(session: FlightSession, sample: FlightSample): void {
+  session.distance += haversineDistance(
+    session.endLatitude,
+    session.endLongitude,
+    sample.latitude,
+    sample.longitude
+  );
+  session.endTime = sample.timestamp;
+  session.durationMs = session.endTime - session.startTime;
+  session.maxAltitude = Math.max(session.maxAltitude, sample.groundDistance);
+  session.maxSpeed = Math.max(session.maxSpeed, sample.speed);
+  session.sampleCount += 1;
+  session.endLatitude = sample.latitude;
+  session.endLongitude = sample.longitude;
+}
+
+// 把一个设备的新样本切分成飞行架次。
+// previous 为该设备最近的架次：若仍在进行中则继续累加，
+// 早于或等于其结束时间的样本（乱序/重复）会被忽略。
+// 返回所有被修改或新建的架次。
+export function segmentFlights(
+  deviceId: string,
+  previous: FlightSession | null,
+  samples: FlightSample[],
+  options: FlightDetectionOptions = DEFAULT_FLIGHT_OPTIONS
+): FlightSession[] {
+  const sessions: FlightSession[] = [];
+  let current: FlightSession | null = null;
+  let lastTime = previous ? previous.endTime : -Infinity;
+
+  if (previous && previous.status === "active") {
+    current = { ...previous };
+    sessions.push(current);
+  }
+
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const sample of sorted) {
+    if (sample.timestamp <= lastTime) {
+      continue;
+    }
+
+    // 数据中断过久，结束当前架次
+    if (current && sample.timestamp - current.endTime > options.gapMs) {
+      current.status = "completed";
+      current = null;
+    }
+    lastTime = sample.timestamp;
+
+    if (!current) {
+      if (sample.groundDistance > options.takeoffAltitude) {
+        current = startSession(deviceId, sample);
+        sessions.push(current);
+      }
+      continue;
+    }
+
+    extendSession(current, sample);
+
+    // 降落：结束当前架次（降落样本计入本架次）
+    if (
+      sample.groundDistance <= options.landingAltitude &&
+      sample.speed <= options.landingSpeed
+    ) {
+      current.status = "completed";
+      current = null;
+    }
+  }
+
+  return sessions;
+}
+
+// 中断超过 gapMs 仍未收到新样本的架次视为已结束
+export function resolveFlightStatus(
+  session: FlightSession,
+  now: number = Date.now(),
+  options: FlightDetectionOptions = DEFAULT_FLIGHT_OPTIONS
+): FlightSession {
+  if (session.status === "active" && now - session.endTime > options.gapMs) {
+    return { ...session, status: "completed" };
+  }
+  return session;
+}
+
+function toFlightSample(data: UnityData): FlightSample {
+  return {
+    timestamp: data.timestamp,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    speed: data.speed,
+    groundDistance: data.groundDistance,
+  };
+}
+
+// 数据库行 -> FlightSession
+function rowToSession(row: any): FlightSession {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    durationMs: row.duration_ms,
+    distance: row.distance,
+    maxAltitude: row.max_altitude,
+    maxSpeed: row.max_speed,
+    sampleCount: row.sample_count,
+    startLatitude: row.start_latitude,
+    startLongitude: row.start_longitude,
+    endLatitude: row.end_latitude,
+    endLongitude: row.end_longitude,
+    status: row.status,
+  };
+}
+
+export interface FlightQuery {
+  deviceId?: string;
+  startTime?: number;
+  endTime?: number;
+  limit: number;
+}
+
+// 重建架次时每次读取的原始样本数
+const REBUILD_PAGE_SIZE = 1000;
+
+// 飞行架次的 D1 操作类
+export class FlightSessionStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  // 查询设备最近的一个架次
+  async getLatestFlight(deviceId: string): Promise<FlightSession | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT * FROM flights WHERE device_id = ? ORDER BY start_time DESC LIMIT 1`
+      )
+      .bind(deviceId)
+      .first();
+    return row ? rowToSession(row) : null;
+  }
+
+  // 按 (device_id, start_time) 插入或更新架次
+  async saveFlights(sessions: FlightSession[]): Promise<void> {
+    if (sessions.length === 0) {
+      return;
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO flights (
+        device_id, start_time, end_time, duration_ms, distance,
+        max_altitude, max_speed, sample_count, start_latitude,
+        start_longitude, end_latitude, end_longitude, status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (device_id, start_time) DO UPDATE SET
+        end_time = excluded.end_time,
+        duration_ms = excluded.duration_ms,
+        distance = excluded.distance,
+        max_altitude = excluded.max_altitude,
+        max_speed = excluded.max_speed,
+        sample_count = excluded.sample_count,
+        end_latitude = excluded.end_latitude,
+        end_longitude = excluded.end_longitude,
+        status = excluded.status,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+    await this.db.batch(
+      sessions.map((session) =>
+        stmt.bind(
+          session.deviceId,
+          session.startTime,
+          session.endTime,
+          session.durationMs,
+          session.distance,
+          session.maxAltitude,
+          session.maxSpeed,
+          session.sampleCount,
+          session.startLatitude,
+          session.startLongitude,
+          session.endLatitude,
+          session.endLongitude,
+          session.status
+        )
+      )
+    );
+  }
+
+  // 根据新写入的样本更新各设备的架次
+  async updateFromSamples(samples: UnityData[]): Promise<void> {
+    const byDevice = new Map<string, FlightSample[]>();
+    for (const data of samples) {
+      const list = byDevice.get(data.deviceId) || [];
+      list.push(toFlightSample(data));
+      byDevice.set(data.deviceId, list);
+    }
+
+    const updated: FlightSession[] = [];
+    for (const [deviceId, deviceSamples] of byDevice) {
+      const previous = await this.getLatestFlight(deviceId);
+      const earliest = Math.min(
+        ...deviceSamples.map((sample) => sample.timestamp)
+      );
+      // 补传的旧样本落在已有架次之前或之中时，从受影响的架次开始重新切分
+      if (previous && earliest <= previous.endTime) {
+        await this.rebuild(deviceId, earliest);
+        continue;
+      }
+      updated.push(...segmentFlights(deviceId, previous, deviceSamples));
+    }
+
+    await this.saveFlights(updated);
+  }
+
+  // 删除设备的架次并从原始数据重新切分；指定 since 时只重建包含或晚于该时间的架次
+  async rebuild(deviceId: string, since?: number): Promise<number> {
+    let from = -1;
+    if (since !== undefined) {
+      const anchor = await this.db
+        .prepare(
+          `SELECT start_time FROM flights WHERE device_id = ? AND start_time <= ? ORDER BY start_time DESC LIMIT 1`
+        )
+        .bind(deviceId, since)
+        .first<{ start_time: number }>();
+      from = anchor ? anchor.start_time : -1;
+    }
+
+    await this.db
+      .prepare(`DELETE FROM flights WHERE device_id = ? AND start_time >= ?`)
+      .bind(deviceId, from)
+      .run();
+
+    const stmt = this.db.prepare(`
+      SELECT timestamp, latitude, longitude, speed, ground_distance
+      FROM unity_data
+      WHERE device_id = ? AND timestamp > ?
+      ORDER BY timestamp ASC
+      LIMIT ?
+    `);
+
+    let previous: FlightSession | null = null;
+    let cursor = from - 1;
+
+    while (true) {
+      const result = await stmt.bind(deviceId, cursor, REBUILD_PAGE_SIZE).all();
+      const rows = result.results as any[];
+      if (rows.length === 0) {
+        break;
+      }
+
+      const samples: FlightSample[] = rows.map((row) => ({
+        timestamp: row.timestamp,
+        latitude: row.latitude,
+        longitude: row.longitude,
+        speed: row.speed,
+        groundDistance: row.ground_distance,
+      }));
+
+      const sessions = segmentFlights(deviceId, previous, samples);
+      await this.saveFlights(sessions);
+
+      // 直接沿用内存中的最后一个架次继续切分下一页
+      if (sessions.length > 0) {
+        previous = sessions[sessions.length - 1];
+      }
+      cursor = rows[rows.length - 1].timestamp;
+
+      if (rows.length < REBUILD_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const row = await this.db
+      .prepare(`SELECT COUNT(*) AS count FROM flights WHERE device_id = ?`)
+      .bind(deviceId)
+      .first<{ count: number }>();
+    return row ? row.count : 0;
+  }
+
+  // 查询所有上报过数据的设备
+  async getDeviceIds(): Promise<string[]> {
+    const result = await this.db
+      .prepare(`SELECT DISTINCT device_id FROM unity_data`)
+      .all();
+    return (result.results as any[]).map((row) => row.device_id);
+  }
+
+  // 按条件查询架次列表（按开始时间倒序）
+  async listFlights(query: FlightQuery): Promise<FlightSession[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.deviceId) {
+      conditions.push("device_id = ?");
+      params.push(query.deviceId);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push("end_time >= ?");
+      params.push(query.startTime);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push("start_time <= ?");
+      params.push(query.endTime);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM flights ${where} ORDER BY start_time DESC LIMIT ?`
+      )
+      .bind(...params, query.limit)
+      .all();
+
+    return (result.results as any[]).map((row) =>
+      resolveFlightStatus(rowToSession(row))
+    );
+  }
+
+  // 根据 id 查询单个架次
+  async getFlight(id: number): Promise<FlightSession | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM flights WHERE id = ?`)
+      .bind(id)
+      .first();
+    return row ? resolveFlightStatus(rowToSession(row)) : null;
+  }
+}
@@ -0,0 +1,36 @@
+// 地球平均半径（米）
+const EARTH_RADIUS = 6371008.8;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// 使用 haversine 公式计算两个经纬度点之间的地面距离（米）
+export function haversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// 以 (lat0, lon0) 为原点的局部平面坐标（米，x 东、y 北），小范围内按等距投影近似
+export function toLocalMeters(
+  lat0: number,
+  lon0: number,
+  lat: number,
+  lon: number
+): { x: number; y: number } {
+  return {
+    x: toRadians(lon - lon0) * EARTH_RADIUS * Math.cos(toRadians(lat0)),
+    y: toRadians(lat - lat0) * EARTH_RADIUS,
+  };
+}
@@ -0,0 +1,393 @@
+import {
+  Geofence,
+  GeofenceEvent,
+  GeofenceInput,
+  GeofenceViolationType,
+  UnityData,
+} from "../types";
+import { haversineDistance } from "./geo";
+
+// 围栏判断所需的样本字段
+export interface GeofenceSample {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+// 射线法判断点是否在多边形内（顶点为 [纬度, 经度]，小范围内按平面处理）
+export function isPointInPolygon(
+  latitude: number,
+  longitude: number,
+  polygon: [number, number][]
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    if (
+      latI > latitude !== latJ > latitude &&
+      longitude < ((lonJ - lonI) * (latitude - latI)) / (latJ - latI) + lonI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// 点是否在围栏范围内
+export function isInsideGeofence(
+  fence: Geofence,
+  latitude: number,
+  longitude: number
+): boolean {
+  if (fence.shape === "circle" && fence.center && fence.radius !== null) {
+    return (
+      haversineDistance(
+        latitude,
+        longitude,
+        fence.center[0],
+        fence.center[1]
+      ) <= fence.radius
+    );
+  }
+  if (fence.shape === "polygon" && fence.polygon) {
+    return isPointInPolygon(latitude, longitude, fence.polygon);
+  }
+  return false;
+}
+
+// 判断样本是否违反围栏，返回违规类型；未违规返回 null
+export function evaluateGeofence(
+  fence: Geofence,
+  sample: GeofenceSample
+): GeofenceViolationType | null {
+  const inside = isInsideGeofence(fence, sample.latitude, sample.longitude);
+  const aboveCeiling =
+    fence.maxAltitude !== null && sample.altitude > fence.maxAltitude;
+
+  switch (fence.mode) {
+    case "restricted":
+      return inside ? "entered_restricted_zone" : null;
+    case "allowed":
+      if (!inside) return "left_allowed_area";
+      return aboveCeiling ? "exceeded_ceiling" : null;
+    case "ceiling":
+      return inside && aboveCeiling ? "exceeded_ceiling" : null;
+  }
+}
+
+// 数据库行 -> Geofence
+function rowToGeofence(row: any): Geofence {
+  const geometry = JSON.parse(row.geometry || "{}");
+  return {
+    id: row.id,
+    name: row.name,
+    shape: row.shape,
+    mode: row.mode,
+    polygon: geometry.polygon ?? null,
+    center: geometry.center ?? null,
+    radius: geometry.radius ?? null,
+    maxAltitude: row.max_altitude,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToEvent(row: any): GeofenceEvent {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    geofenceId: row.geofence_id,
+    geofenceName: row.geofence_name ?? null,
+    type: row.type,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    altitude: row.altitude,
+  };
+}
+
+function toGeometry(input: GeofenceInput): string {
+  return JSON.stringify(
+    input.shape === "circle"
+      ? { center: input.center, radius: input.radius }
+      : { polygon: input.polygon }
+  );
+}
+
+// 修改后判断违规的结果可能变化：形状、模式、限高或启用状态改变
+function affectsViolations(fence: Geofence, input: GeofenceInput): boolean {
+  return (
+    fence.mode !== input.mode ||
+    fence.maxAltitude !== input.maxAltitude ||
+    fence.enabled !== input.enabled ||
+    toGeometry(fence) !== toGeometry(input)
+  );
+}
+
+export interface GeofenceEventQuery {
+  deviceId?: string;
+  // 只返回仍在违规的事件
+  active?: boolean;
+  limit: number;
+}
+
+// 检查违规时内存中的事件状态
+interface EventState {
+  id?: number;
+  deviceId: string;
+  geofenceId: number;
+  type: GeofenceViolationType;
+  startedAt: number;
+  endedAt: number | null;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+// IN 查询每批的设备数
+const DEVICE_ID_CHUNK_SIZE = 50;
+
+// 地理围栏的 D1 操作类
+export class GeofenceStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async listGeofences(enabledOnly: boolean = false): Promise<Geofence[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM geofences ${
+          enabledOnly ? "WHERE enabled = 1" : ""
+        } ORDER BY id ASC`
+      )
+      .all();
+    return (result.results as any[]).map(rowToGeofence);
+  }
+
+  async getGeofence(id: number): Promise<Geofence | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM geofences WHERE id = ?`)
+      .bind(id)
+      .first();
+    return row ? rowToGeofence(row) : null;
+  }
+
+  async createGeofence(input: GeofenceInput): Promise<Geofence | null> {
+    const row = await this.db
+      .prepare(
+        `
+      INSERT INTO geofences (name, shape, mode, geometry, max_altitude, enabled)
+      VALUES (?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `
+      )
+      .bind(
+        input.name,
+        input.shape,
+        input.mode,
+        toGeometry(input),
+        input.maxAltitude,
+        input.enabled ? 1 : 0
+      )
+      .first();
+    return row ? rowToGeofence(row) : null;
+  }
+
+  // 结束围栏仍在进行的违规事件，结束时间取设备最后一条样本的时间
+  private closeOpenEvents(id: number): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `
+      UPDATE geofence_events SET ended_at = MAX(started_at, COALESCE(
+        (SELECT l.timestamp FROM device_latest l WHERE l.device_id = geofence_events.device_id),
+        started_at
+      ))
+      WHERE geofence_id = ? AND ended_at IS NULL
+    `
+      )
+      .bind(id);
+  }
+
+  // 修改围栏；判断违规的条件改变时结束该围栏仍在进行的违规事件：
+  // 停用的围栏不再参与检查，修改后的围栏由后续样本重新判断是否违规
+  async updateGeofence(
+    id: number,
+    input: GeofenceInput
+  ): Promise<Geofence | null> {
+    const existing = await this.getGeofence(id);
+    if (!existing) {
+      return null;
+    }
+    const statements: D1PreparedStatement[] = [];
+    if (affectsViolations(existing, input)) {
+      statements.push(this.closeOpenEvents(id));
+    }
+    statements.push(
+      this.db
+        .prepare(
+          `
+      UPDATE geofences SET
+        name = ?, shape = ?, mode = ?, geometry = ?, max_altitude = ?,
+        enabled = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+      RETURNING *
+    `
+        )
+        .bind(
+          input.name,
+          input.shape,
+          input.mode,
+          toGeometry(input),
+          input.maxAltitude,
+          input.enabled ? 1 : 0,
+          id
+        )
+    );
+    const results = await this.db.batch(statements);
+    const row = results[results.length - 1].results[0];
+    return row ? rowToGeofence(row) : null;
+  }
+
+  // 删除围栏，并结束该围栏仍在进行的违规事件
+  async deleteGeofence(id: number): Promise<boolean> {
+    const [, result] = await this.db.batch([
+      this.closeOpenEvents(id),
+      this.db.prepare(`DELETE FROM geofences WHERE id = ?`).bind(id),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  // 查询违规事件（按开始时间倒序）
+  async listEvents(query: GeofenceEventQuery): Promise<GeofenceEvent[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.deviceId) {
+      conditions.push("e.device_id = ?");
+      params.push(query.deviceId);
+    }
+    if (query.active) {
+      conditions.push("e.ended_at IS NULL");
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db
+      .prepare(
+        `
+      SELECT e.*, g.name AS geofence_name
+      FROM geofence_events e
+      LEFT JOIN geofences g ON g.id = e.geofence_id
+      ${where}
+      ORDER BY e.started_at DESC
+      LIMIT ?
+    `
+      )
+      .bind(...params, query.limit)
+      .all();
+    return (result.results as any[]).map(rowToEvent);
+  }
+
+  // 查询设备仍在进行的违规事件
+  private async getOpenEvents(deviceIds: string[]): Promise<EventState[]> {
+    const events: EventState[] = [];
+    for (let i = 0; i < deviceIds.length; i += DEVICE_ID_CHUNK_SIZE) {
+      const chunk = deviceIds.slice(i, i + DEVICE_ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.db
+        .prepare(
+          `SELECT * FROM geofence_events WHERE ended_at IS NULL AND device_id IN (${placeholders})`
+        )
+        .bind(...chunk)
+        .all();
+      events.push(...(result.results as any[]).map(rowToEvent));
+    }
+    return events;
+  }
+
+  // 按时间顺序检查新样本：进入违规状态时新建事件，恢复正常或违规类型变化时结束事件
+  async checkSamples(samples: UnityData[]): Promise<void> {
+    const fences = await this.listGeofences(true);
+    if (fences.length === 0 || samples.length === 0) {
+      return;
+    }
+
+    const deviceIds = Array.from(new Set(samples.map((s) => s.deviceId)));
+    const open = new Map<string, EventState>();
+    for (const event of await this.getOpenEvents(deviceIds)) {
+      open.set(`${event.deviceId}:${event.geofenceId}`, event);
+    }
+
+    const created: EventState[] = [];
+    const closed: EventState[] = [];
+    const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const sample of sorted) {
+      for (const fence of fences) {
+        const key = `${sample.deviceId}:${fence.id}`;
+        const current = open.get(key);
+        const violation = evaluateGeofence(fence, {
+          latitude: sample.latitude,
+          longitude: sample.longitude,
+          altitude: sample.groundDistance,
+        });
+
+        if (current && current.type !== violation) {
+          current.endedAt = sample.timestamp;
+          if (current.id !== undefined) {
+            closed.push(current);
+          }
+          open.delete(key);
+        }
+        if (violation && !open.has(key)) {
+          const event: EventState = {
+            deviceId: sample.deviceId,
+            geofenceId: fence.id,
+            type: violation,
+            startedAt: sample.timestamp,
+            endedAt: null,
+            latitude: sample.latitude,
+            longitude: sample.longitude,
+            altitude: sample.groundDistance,
+          };
+          open.set(key, event);
+          created.push(event);
+        }
+      }
+    }
+
+    if (created.length === 0 && closed.length === 0) {
+      return;
+    }
+
+    const insert = this.db.prepare(`
+      INSERT INTO geofence_events (
+        device_id, geofence_id, type, started_at, ended_at,
+        latitude, longitude, altitude
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const close = this.db.prepare(
+      `UPDATE geofence_events SET ended_at = ? WHERE id = ?`
+    );
+
+    await this.db.batch([
+      ...closed.map((event) => close.bind(event.endedAt, event.id!)),
+      ...created.map((event) =>
+        insert.bind(
+          event.deviceId,
+          event.geofenceId,
+          event.type,
+          event.startedAt,
+          event.endedAt,
+          event.latitude,
+          event.longitude,
+          event.altitude
+        )
+      ),
+    ]);
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { autoMapColumns, parseCsv, parseImportFile } from "./importParser";
+import { validateUnityData } from "./validation";
+
+describe("parseCsv", () => {
+  it("支持引号、转义引号、字段内换行和 CRLF", () => {
+    expect(parseCsv('a,b\r\n"x, ""y""","1\n2"\r\n')).toEqual({
+      headers: ["a", "b"],
+      rows: [['x, "y"', "1\n2"]],
+    });
+  });
+});
+
+describe("autoMapColumns", () => {
+  it("按别名匹配列名，忽略大小写和分隔符", () => {
+    expect(autoMapColumns(["device_id", "Lat", "LNG", "velocity.x"])).toEqual({
+      deviceId: "device_id",
+      latitude: "Lat",
+      longitude: "LNG",
+      "velocity.x": "velocity.x",
+    });
+  });
+});
+
+describe("parseImportFile", () => {
+  it("CSV 数值列转为数字，缺少设备和时间时使用默认设备并由时间戳生成", () => {
+    const [row] = parseImportFile("ts,lat,lon,vx\n1000,31.2,121.5,\n", {
+      format: "csv",
+      deviceId: "drone-1",
+    });
+    expect(row).toEqual({
+      line: 2,
+      record: {
+        deviceId: "drone-1",
+        formattedTime: "1970-01-01T00:00:01.000Z",
+        timestamp: 1000,
+        latitude: 31.2,
+        longitude: 121.5,
+      },
+    });
+  });
+
+  it("NDJSON 按嵌套路径取值，无法解析的行记为 undefined", () => {
+    const rows = parseImportFile(
+      '{"deviceId":"d1","velocity":{"x":1}}\n\nnot json\n[1]\n',
+      { format: "ndjson" }
+    );
+    expect(rows.map((row) => row.line)).toEqual([1, 3, 4]);
+    expect(rows[0].record).toMatchObject({ velocity: { x: 1 } });
+    expect(rows[1].record).toBeUndefined();
+    expect(rows[2].record).toBeUndefined();
+  });
+
+  it("超出 Date 范围的时间戳不抛出异常，由校验拒绝该行", () => {
+    const [row] = parseImportFile('{"deviceId":"d1","timestamp":1e20}\n', {
+      format: "ndjson",
+    });
+    expect(row.record).toEqual({ deviceId: "d1", timestamp: 1e20 });
+
+    const result = validateUnityData(row.record);
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toContainEqual({
+      path: "timestamp",
+      message: "must be <= 8640000000000000",
+    });
+  });
+});
@@ -0,0 +1,310 @@
+// 导入文件解析：CSV / NDJSON -> UnityData 结构的原始对象（尚未校验）
+
+import { CoordinateFrame, TelemetryUnits } from "../types";
+
+export type ImportFormat = "csv" | "ndjson";
+
+// 可映射的 UnityData 字段（velocity 分量用点号路径表示）
+export const IMPORT_FIELDS = [
+  "deviceId",
+  "formattedTime",
+  "timestamp",
+  "latitude",
+  "longitude",
+  "pitch",
+  "yaw",
+  "roll",
+  "speed",
+  "velocity.x",
+  "velocity.y",
+  "velocity.z",
+  "horizontalSpeed",
+  "verticalSpeed",
+  "flightDirection",
+  "groundDistance",
+  "frame",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// 列名 -> 字段
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// 除以下字段外均按数值解析
+const STRING_FIELDS: ImportField[] = ["deviceId", "formattedTime", "frame"];
+
+// 各字段可识别的列名别名（比较时忽略大小写和分隔符）
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  deviceId: ["deviceid", "device"],
+  formattedTime: ["formattedtime", "time", "datetime"],
+  timestamp: ["timestamp", "ts"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "lon", "lng"],
+  pitch: ["pitch"],
+  yaw: ["yaw", "heading"],
+  roll: ["roll"],
+  speed: ["speed"],
+  "velocity.x": ["velocityx", "vx"],
+  "velocity.y": ["velocityy", "vy"],
+  "velocity.z": ["velocityz", "vz"],
+  horizontalSpeed: ["horizontalspeed", "hspeed"],
+  verticalSpeed: ["verticalspeed", "vspeed"],
+  flightDirection: ["flightdirection", "course"],
+  groundDistance: ["grounddistance", "altitude", "alt"],
+  frame: ["frame", "coordinateframe"],
+};
+
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[\s_.\-]/g, "");
+}
+
+// 按列名自动匹配字段，同时兼容 UnityData 驼峰命名和 unity_data 表的下划线命名
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const header = headers.find((h) =>
+      FIELD_ALIASES[field].includes(normalizeColumnName(h))
+    );
+    if (header !== undefined) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+// 解析 CSV 文本（支持引号、转义引号和字段内换行），返回表头和数据行
+export function parseCsv(text: string): {
+  headers: string[];
+  rows: string[][];
+} {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      // 只有字段开头的引号表示带引号的字段
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(
+    (r) => !(r.length === 1 && r[0].trim() === "")
+  );
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+// 读取文本的表头（CSV 首行或 NDJSON 首个对象的键），供前端显示列映射
+export function readHeaders(text: string, format: ImportFormat): string[] {
+  if (format === "csv") {
+    const firstLine = text.split(/\r?\n/, 1)[0] || "";
+    return parseCsv(firstLine).headers;
+  }
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== "");
+  try {
+    return firstLine ? flattenKeys(JSON.parse(firstLine)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function flattenKeys(value: unknown, prefix: string = ""): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return prefix ? [prefix] : [];
+  }
+  return Object.entries(value).flatMap(([key, child]) =>
+    flattenKeys(child, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+// 根据文件名、Content-Type 或内容判断格式
+export function detectFormat(
+  text: string,
+  filename: string = "",
+  contentType: string = ""
+): ImportFormat {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith(".csv") || contentType.includes("text/csv")) {
+    return "csv";
+  }
+  if (
+    lower.endsWith(".ndjson") ||
+    lower.endsWith(".jsonl") ||
+    contentType.includes("ndjson")
+  ) {
+    return "ndjson";
+  }
+  return text.trimStart().startsWith("{") ? "ndjson" : "csv";
+}
+
+// 把扁平的 { 字段路径: 值 } 转换成 UnityData 结构
+function buildRecord(
+  values: Partial<Record<ImportField, unknown>>
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  const velocity: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(values)) {
+    if (field.startsWith("velocity.")) {
+      velocity[field.slice("velocity.".length)] = value;
+    } else {
+      record[field] = value;
+    }
+  }
+  if (Object.keys(velocity).length > 0) {
+    record.velocity = velocity;
+  }
+  return record;
+}
+
+function getPath(source: Record<string, unknown>, path: string): unknown {
+  if (path in source) {
+    return source[path];
+  }
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (typeof value === "object" && value !== null) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, source);
+}
+
+// 解析后的一行，line 为源文件中的行号（从 1 开始，CSV 含表头）
+export interface ParsedImportRow {
+  line: number;
+  record: unknown;
+}
+
+export interface ParseImportOptions {
+  format: ImportFormat;
+  // 自定义列映射，未指定的字段按列名自动匹配
+  mapping?: ColumnMapping;
+  // 文件中没有设备列时使用的 deviceId
+  deviceId?: string;
+  // 文件中没有坐标系列时使用的坐标系
+  frame?: CoordinateFrame;
+  // 文件中数值使用的单位
+  units?: Partial<TelemetryUnits>;
+}
+
+// 解析导入文件，返回待校验的记录
+export function parseImportFile(
+  text: string,
+  options: ParseImportOptions
+): ParsedImportRow[] {
+  const rows: { line: number; source: Record<string, unknown> | null }[] = [];
+  let headers: string[] = [];
+
+  if (options.format === "csv") {
+    const parsed = parseCsv(text);
+    headers = parsed.headers;
+    parsed.rows.forEach((values, i) => {
+      const source: Record<string, unknown> = {};
+      headers.forEach((header, column) => {
+        source[header] = values[column];
+      });
+      rows.push({ line: i + 2, source });
+    });
+  } else {
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (line.trim() === "") return;
+      try {
+        const value = JSON.parse(line);
+        rows.push({
+          line: i + 1,
+          source:
+            typeof value === "object" && value !== null && !Array.isArray(value)
+              ? value
+              : null,
+        });
+      } catch {
+        rows.push({ line: i + 1, source: null });
+      }
+    });
+    headers =
+      rows.length > 0 && rows[0].source ? flattenKeys(rows[0].source) : [];
+  }
+
+  const mapping: ColumnMapping = {
+    ...autoMapColumns(headers),
+    ...options.mapping,
+  };
+
+  return rows.map(({ line, source }) => {
+    if (!source) {
+      return { line, record: undefined };
+    }
+
+    const values: Partial<Record<ImportField, unknown>> = {};
+    for (const field of IMPORT_FIELDS) {
+      const column = mapping[field];
+      let value = column !== undefined ? getPath(source, column) : undefined;
+      // CSV 中的数值以字符串形式出现，空字符串视为缺失
+      if (typeof value === "string") {
+        const trimmed = value.trim();
+        if (trimmed === "") {
+          value = undefined;
+        } else if (!STRING_FIELDS.includes(field)) {
+          value = Number(trimmed);
+        }
+      }
+      if (value !== undefined) {
+        values[field] = value;
+      }
+    }
+
+    if (values.deviceId === undefined && options.deviceId) {
+      values.deviceId = options.deviceId;
+    }
+    // 缺少格式化时间时由时间戳生成；超出 Date 范围的时间戳留给校验拒绝该行
+    if (
+      values.formattedTime === undefined &&
+      typeof values.timestamp === "number"
+    ) {
+      const date = new Date(values.timestamp);
+      if (!Number.isNaN(date.getTime())) {
+        values.formattedTime = date.toISOString();
+      }
+    }
+
+    if (values.frame === undefined && options.frame) {
+      values.frame = options.frame;
+    }
+    const record = buildRecord(values);
+    if (options.units) {
+      record.units = options.units;
+    }
+
+    return { line, record };
+  });
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { Mission, MissionWaypoint } from "../types";
+import {
+  MissionTrackingState,
+  getLegPosition,
+  trackMissionSample,
+} from "./missions";
+
+// 纬度每 0.001 度约 111 米，经度在赤道附近相同
+function waypoint(latitude: number, altitude = 10): MissionWaypoint {
+  return { latitude, longitude: 0, altitude, speed: 5 };
+}
+
+// 沿经线向北的三个航点，间隔约 111 米
+const mission: Mission = {
+  id: 1,
+  name: "north",
+  waypoints: [waypoint(0), waypoint(0.001, 20), waypoint(0.002, 20)],
+  acceptanceRadius: 5,
+  createdAt: "",
+  updatedAt: "",
+};
+
+function initialState(): MissionTrackingState {
+  return {
+    status: "active",
+    endedAt: null,
+    nextWaypoint: 0,
+    currentLeg: null,
+    progress: 0,
+    crossTrackError: null,
+    altitudeError: null,
+    distanceToWaypoint: null,
+    maxCrossTrackError: null,
+    crossTrackSquareSum: 0,
+    trackedSamples: 0,
+    lastTimestamp: null,
+  };
+}
+
+describe("getLegPosition", () => {
+  it("计算沿航段距离和偏航距离（右侧为正）", () => {
+    const position = getLegPosition(
+      waypoint(0),
+      waypoint(0.001),
+      0.0005,
+      0.0001
+    );
+    expect(position.length).toBeCloseTo(111.2, 0);
+    expect(position.alongTrack).toBeCloseTo(55.6, 0);
+    expect(position.crossTrack).toBeCloseTo(11.1, 0);
+
+    const left = getLegPosition(waypoint(0), waypoint(0.001), 0.0005, -0.0001);
+    expect(left.crossTrack).toBeCloseTo(-11.1, 0);
+  });
+
+  it("起点之前和终点之后的沿航段距离超出 [0, length]", () => {
+    const from = waypoint(0);
+    const to = waypoint(0.001);
+    expect(getLegPosition(from, to, -0.0005, 0).alongTrack).toBeLessThan(0);
+    const beyond = getLegPosition(from, to, 0.0015, 0);
+    expect(beyond.alongTrack).toBeGreaterThan(beyond.length);
+  });
+
+  it("航段长度为 0 时偏航距离为到起点的距离", () => {
+    const position = getLegPosition(waypoint(0), waypoint(0), 0.0001, 0);
+    expect(position).toEqual({
+      alongTrack: 0,
+      crossTrack: expect.closeTo(11.1, 0),
+      length: 0,
+    });
+  });
+});
+
+describe("trackMissionSample", () => {
+  it("到达第一个航点之前不计算航段", () => {
+    const state = initialState();
+    const events = trackMissionSample(mission, state, {
+      timestamp: 1000,
+      latitude: -0.001,
+      longitude: 0,
+      altitude: 0,
+    });
+    expect(events).toEqual([]);
+    expect(state.currentLeg).toBeNull();
+    expect(state.progress).toBe(0);
+    expect(state.distanceToWaypoint).toBeCloseTo(111.2, 0);
+    expect(state.trackedSamples).toBe(0);
+  });
+
+  it("进入到达半径时记录到达并沿航段推进进度", () => {
+    const state = initialState();
+    expect(
+      trackMissionSample(mission, state, {
+        timestamp: 1000,
+        latitude: 0.00002,
+        longitude: 0,
+        altitude: 10,
+      }).map((event) => [event.type, event.waypointIndex])
+    ).toEqual([["waypoint_reached", 0]]);
+    expect(state.nextWaypoint).toBe(1);
+    expect(state.currentLeg).toBe(0);
+
+    trackMissionSample(mission, state, {
+      timestamp: 2000,
+      latitude: 0.0005,
+      longitude: 0.0001,
+      altitude: 12,
+    });
+    expect(state.progress).toBeCloseTo(25, 0);
+    expect(state.crossTrackError).toBeCloseTo(11.1, 0);
+    // 航段中点的计划高度为 15 米
+    expect(state.altitudeError).toBeCloseTo(-3, 1);
+    expect(state.maxCrossTrackError).toBeCloseTo(11.1, 0);
+    expect(state.trackedSamples).toBe(2);
+    expect(state.lastTimestamp).toBe(2000);
+  });
+
+  it("直接进入再下一个航点时前一个记为跳过，到达最后一个航点时完成任务", () => {
+    const state = { ...initialState(), nextWaypoint: 1 };
+    const events = trackMissionSample(mission, state, {
+      timestamp: 3000,
+      latitude: 0.002,
+      longitude: 0,
+      altitude: 20,
+    });
+    expect(events.map((event) => [event.type, event.waypointIndex])).toEqual([
+      ["waypoint_missed", 1],
+      ["waypoint_reached", 2],
+      ["mission_completed", null],
+    ]);
+    expect(state.status).toBe("completed");
+    expect(state.endedAt).toBe(3000);
+    expect(state.progress).toBe(100);
+    expect(state.distanceToWaypoint).toBeNull();
+    expect(state.currentLeg).toBe(1);
+  });
+
+  it("已结束的任务不再变化", () => {
+    const state = { ...initialState(), status: "aborted" as const };
+    expect(
+      trackMissionSample(mission, state, {
+        timestamp: 1000,
+        latitude: 0,
+        longitude: 0,
+        altitude: 10,
+      })
+    ).toEqual([]);
+    expect(state.nextWaypoint).toBe(0);
+  });
+});
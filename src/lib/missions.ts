@@ -0,0 +1,587 @@
+import {
+  Mission,
+  MissionAssignment,
+  MissionAssignmentStatus,
+  MissionEvent,
+  MissionEventType,
+  MissionInput,
+  MissionWaypoint,
+  UnityData,
+} from "../types";
+import { haversineDistance, toLocalMeters } from "./geo";
+
+// 默认到达半径（米）和每个任务的航点数量上限
+export const DEFAULT_ACCEPTANCE_RADIUS = 5;
+export const MAX_MISSION_WAYPOINTS = 200;
+
+// 任务跟踪所需的样本字段，altitude 对应 ground_distance
+export interface MissionSample {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+// 点相对航段的位置
+export interface LegPosition {
+  // 沿航段方向到起点的距离（米），在起点之前为负，越过终点时大于 length
+  alongTrack: number;
+  // 偏航距离（米，航线右侧为正）
+  crossTrack: number;
+  length: number;
+}
+
+// 计算点相对航段 from -> to 的位置（以 from 为原点的局部平面坐标）
+export function getLegPosition(
+  from: MissionWaypoint,
+  to: MissionWaypoint,
+  latitude: number,
+  longitude: number
+): LegPosition {
+  const end = toLocalMeters(
+    from.latitude,
+    from.longitude,
+    to.latitude,
+    to.longitude
+  );
+  const point = toLocalMeters(
+    from.latitude,
+    from.longitude,
+    latitude,
+    longitude
+  );
+  const length = Math.hypot(end.x, end.y);
+  if (length === 0) {
+    return { alongTrack: 0, crossTrack: Math.hypot(point.x, point.y), length };
+  }
+  return {
+    alongTrack: (point.x * end.x + point.y * end.y) / length,
+    crossTrack: (point.x * end.y - point.y * end.x) / length,
+    length,
+  };
+}
+
+// 各航段的长度（米）
+function getLegLengths(waypoints: MissionWaypoint[]): number[] {
+  return waypoints
+    .slice(1)
+    .map((to, i) =>
+      haversineDistance(
+        waypoints[i].latitude,
+        waypoints[i].longitude,
+        to.latitude,
+        to.longitude
+      )
+    );
+}
+
+// 跟踪时内存中的分配状态，对应 mission_assignments 中随样本变化的列
+export interface MissionTrackingState {
+  status: MissionAssignmentStatus;
+  endedAt: number | null;
+  nextWaypoint: number;
+  currentLeg: number | null;
+  progress: number;
+  crossTrackError: number | null;
+  altitudeError: number | null;
+  distanceToWaypoint: number | null;
+  maxCrossTrackError: number | null;
+  crossTrackSquareSum: number;
+  trackedSamples: number;
+  lastTimestamp: number | null;
+}
+
+// 处理单个样本时产生的事件
+export interface MissionTrackingEvent {
+  type: MissionEventType;
+  waypointIndex: number | null;
+  distance: number | null;
+}
+
+// 用一个样本推进任务跟踪（直接修改 state），返回产生的事件。
+// 进入下一航点的到达半径视为到达；未到达下一航点却进入了再下一个航点的半径时，前者记为跳过。
+// 到达第一个航点之后才计算航段、偏航距离和高度偏差
+export function trackMissionSample(
+  mission: Mission,
+  state: MissionTrackingState,
+  sample: MissionSample
+): MissionTrackingEvent[] {
+  const { waypoints, acceptanceRadius } = mission;
+  const events: MissionTrackingEvent[] = [];
+  if (state.status !== "active" || waypoints.length === 0) {
+    return events;
+  }
+
+  const distanceTo = (index: number) =>
+    haversineDistance(
+      sample.latitude,
+      sample.longitude,
+      waypoints[index].latitude,
+      waypoints[index].longitude
+    );
+
+  const next = state.nextWaypoint;
+  if (next < waypoints.length) {
+    const nextDistance = distanceTo(next);
+    if (nextDistance <= acceptanceRadius) {
+      events.push({
+        type: "waypoint_reached",
+        waypointIndex: next,
+        distance: nextDistance,
+      });
+      state.nextWaypoint = next + 1;
+    } else if (next + 1 < waypoints.length) {
+      const afterDistance = distanceTo(next + 1);
+      if (afterDistance <= acceptanceRadius) {
+        events.push(
+          {
+            type: "waypoint_missed",
+            waypointIndex: next,
+            distance: nextDistance,
+          },
+          {
+            type: "waypoint_reached",
+            waypointIndex: next + 1,
+            distance: afterDistance,
+          }
+        );
+        state.nextWaypoint = next + 2;
+      }
+    }
+  }
+
+  const completed = state.nextWaypoint >= waypoints.length;
+  if (completed) {
+    events.push({
+      type: "mission_completed",
+      waypointIndex: null,
+      distance: null,
+    });
+    state.status = "completed";
+    state.endedAt = sample.timestamp;
+  }
+
+  state.lastTimestamp = sample.timestamp;
+  state.distanceToWaypoint = completed ? null : distanceTo(state.nextWaypoint);
+
+  // 完成后仍以最后一个航段计算偏差
+  const leg = Math.min(state.nextWaypoint, waypoints.length - 1) - 1;
+  if (leg < 0) {
+    state.currentLeg = null;
+    state.crossTrackError = null;
+    state.altitudeError = null;
+    state.progress = completed ? 100 : 0;
+    return events;
+  }
+
+  const from = waypoints[leg];
+  const to = waypoints[leg + 1];
+  const position = getLegPosition(from, to, sample.latitude, sample.longitude);
+  const along = Math.min(Math.max(position.alongTrack, 0), position.length);
+  const ratio = position.length > 0 ? along / position.length : 1;
+
+  state.currentLeg = leg;
+  state.crossTrackError = position.crossTrack;
+  state.altitudeError =
+    sample.altitude - (from.altitude + (to.altitude - from.altitude) * ratio);
+
+  const lengths = getLegLengths(waypoints);
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const before = lengths.slice(0, leg).reduce((sum, length) => sum + length, 0);
+  state.progress = completed
+    ? 100
+    : total > 0
+      ? Math.min(((before + along) / total) * 100, 100)
+      : 0;
+
+  const error = Math.abs(position.crossTrack);
+  state.maxCrossTrackError = Math.max(state.maxCrossTrackError ?? 0, error);
+  state.crossTrackSquareSum += error * error;
+  state.trackedSamples += 1;
+
+  return events;
+}
+
+// 数据库行 -> Mission
+function rowToMission(row: any): Mission {
+  return {
+    id: row.id,
+    name: row.name,
+    waypoints: JSON.parse(row.waypoints || "[]"),
+    acceptanceRadius: row.acceptance_radius,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToAssignment(row: any): MissionAssignment {
+  return {
+    id: row.id,
+    missionId: row.mission_id,
+    missionName: row.mission_name ?? null,
+    deviceId: row.device_id,
+    status: row.status,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    nextWaypoint: row.next_waypoint,
+    currentLeg: row.current_leg,
+    progress: row.progress,
+    crossTrackError: row.cross_track_error,
+    altitudeError: row.altitude_error,
+    distanceToWaypoint: row.distance_to_waypoint,
+    maxCrossTrackError: row.max_cross_track_error,
+    rmsCrossTrackError:
+      row.tracked_samples > 0
+        ? Math.sqrt(row.cross_track_square_sum / row.tracked_samples)
+        : null,
+    trackedSamples: row.tracked_samples,
+    lastTimestamp: row.last_timestamp,
+  };
+}
+
+function rowToTrackingState(row: any): MissionTrackingState {
+  return {
+    status: row.status,
+    endedAt: row.ended_at,
+    nextWaypoint: row.next_waypoint,
+    currentLeg: row.current_leg,
+    progress: row.progress,
+    crossTrackError: row.cross_track_error,
+    altitudeError: row.altitude_error,
+    distanceToWaypoint: row.distance_to_waypoint,
+    maxCrossTrackError: row.max_cross_track_error,
+    crossTrackSquareSum: row.cross_track_square_sum,
+    trackedSamples: row.tracked_samples,
+    lastTimestamp: row.last_timestamp,
+  };
+}
+
+function rowToEvent(row: any): MissionEvent {
+  return {
+    id: row.id,
+    assignmentId: row.assignment_id,
+    deviceId: row.device_id,
+    type: row.type,
+    waypointIndex: row.waypoint_index,
+    timestamp: row.timestamp,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    altitude: row.altitude,
+    distance: row.distance,
+  };
+}
+
+export interface MissionAssignmentQuery {
+  deviceId?: string;
+  missionId?: number;
+  status?: MissionAssignmentStatus;
+  limit: number;
+}
+
+// IN 查询每批的设备数
+const DEVICE_ID_CHUNK_SIZE = 50;
+
+// 航线任务及其分配的 D1 操作类
+export class MissionStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async listMissions(): Promise<Mission[]> {
+    const result = await this.db
+      .prepare(`SELECT * FROM missions ORDER BY id ASC`)
+      .all();
+    return (result.results as any[]).map(rowToMission);
+  }
+
+  async getMission(id: number): Promise<Mission | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM missions WHERE id = ?`)
+      .bind(id)
+      .first();
+    return row ? rowToMission(row) : null;
+  }
+
+  async createMission(input: MissionInput): Promise<Mission | null> {
+    const row = await this.db
+      .prepare(
+        `
+      INSERT INTO missions (name, waypoints, acceptance_radius)
+      VALUES (?, ?, ?)
+      RETURNING *
+    `
+      )
+      .bind(input.name, JSON.stringify(input.waypoints), input.acceptanceRadius)
+      .first();
+    return row ? rowToMission(row) : null;
+  }
+
+  async updateMission(
+    id: number,
+    input: MissionInput
+  ): Promise<Mission | null> {
+    const row = await this.db
+      .prepare(
+        `
+      UPDATE missions SET
+        name = ?, waypoints = ?, acceptance_radius = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+      RETURNING *
+    `
+      )
+      .bind(
+        input.name,
+        JSON.stringify(input.waypoints),
+        input.acceptanceRadius,
+        id
+      )
+      .first();
+    return row ? rowToMission(row) : null;
+  }
+
+  // 删除任务，并中止该任务仍在执行的分配
+  async deleteMission(id: number, now: number): Promise<boolean> {
+    const [, result] = await this.db.batch([
+      this.db
+        .prepare(
+          `UPDATE mission_assignments SET status = 'aborted', ended_at = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE mission_id = ? AND status = 'active'`
+        )
+        .bind(now, id),
+      this.db.prepare(`DELETE FROM missions WHERE id = ?`).bind(id),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  // 任务是否有正在执行的分配
+  async hasActiveAssignments(missionId: number): Promise<boolean> {
+    const row = await this.db
+      .prepare(
+        `SELECT 1 FROM mission_assignments WHERE mission_id = ? AND status = 'active' LIMIT 1`
+      )
+      .bind(missionId)
+      .first();
+    return row !== null;
+  }
+
+  // 查询任务分配（按开始时间倒序）
+  async listAssignments(
+    query: MissionAssignmentQuery
+  ): Promise<MissionAssignment[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.deviceId) {
+      conditions.push("a.device_id = ?");
+      params.push(query.deviceId);
+    }
+    if (query.missionId !== undefined) {
+      conditions.push("a.mission_id = ?");
+      params.push(query.missionId);
+    }
+    if (query.status) {
+      conditions.push("a.status = ?");
+      params.push(query.status);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db
+      .prepare(
+        `
+      SELECT a.*, m.name AS mission_name
+      FROM mission_assignments a
+      LEFT JOIN missions m ON m.id = a.mission_id
+      ${where}
+      ORDER BY a.started_at DESC, a.id DESC
+      LIMIT ?
+    `
+      )
+      .bind(...params, query.limit)
+      .all();
+    return (result.results as any[]).map(rowToAssignment);
+  }
+
+  async getAssignment(id: number): Promise<MissionAssignment | null> {
+    const row = await this.db
+      .prepare(
+        `
+      SELECT a.*, m.name AS mission_name
+      FROM mission_assignments a
+      LEFT JOIN missions m ON m.id = a.mission_id
+      WHERE a.id = ?
+    `
+      )
+      .bind(id)
+      .first();
+    return row ? rowToAssignment(row) : null;
+  }
+
+  // 分配的事件（按时间升序）
+  async getEvents(assignmentId: number): Promise<MissionEvent[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM mission_events WHERE assignment_id = ? ORDER BY timestamp ASC, id ASC`
+      )
+      .bind(assignmentId)
+      .all();
+    return (result.results as any[]).map(rowToEvent);
+  }
+
+  // 把任务分配给设备；设备已有正在执行的任务时返回 null
+  async assignMission(
+    missionId: number,
+    deviceId: string,
+    now: number
+  ): Promise<MissionAssignment | null> {
+    const row = await this.db
+      .prepare(
+        `
+      INSERT INTO mission_assignments (mission_id, device_id, status, started_at)
+      SELECT ?, ?, 'active', ?
+      WHERE NOT EXISTS (
+        SELECT 1 FROM mission_assignments WHERE device_id = ? AND status = 'active'
+      )
+      RETURNING id
+    `
+      )
+      .bind(missionId, deviceId, now, deviceId)
+      .first<{ id: number }>();
+    return row ? this.getAssignment(row.id) : null;
+  }
+
+  // 中止正在执行的分配
+  async abortAssignment(id: number, now: number): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `
+      UPDATE mission_assignments SET status = 'aborted', ended_at = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'active'
+    `
+      )
+      .bind(now, id)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // 查询设备正在执行的分配
+  private async getActiveAssignmentRows(deviceIds: string[]): Promise<any[]> {
+    const rows: any[] = [];
+    for (let i = 0; i < deviceIds.length; i += DEVICE_ID_CHUNK_SIZE) {
+      const chunk = deviceIds.slice(i, i + DEVICE_ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.db
+        .prepare(
+          `SELECT * FROM mission_assignments WHERE status = 'active' AND device_id IN (${placeholders})`
+        )
+        .bind(...chunk)
+        .all();
+      rows.push(...(result.results as any[]));
+    }
+    return rows;
+  }
+
+  // 按时间顺序用新样本推进各设备正在执行的任务，保存跟踪状态和事件。
+  // 早于分配已处理的最后一个样本的数据会被忽略
+  async trackSamples(samples: UnityData[]): Promise<void> {
+    if (samples.length === 0) {
+      return;
+    }
+    const deviceIds = Array.from(new Set(samples.map((s) => s.deviceId)));
+    const rows = await this.getActiveAssignmentRows(deviceIds);
+    if (rows.length === 0) {
+      return;
+    }
+
+    const missions = new Map<number, Mission>();
+    for (const missionId of new Set(rows.map((row) => row.mission_id))) {
+      const mission = await this.getMission(missionId);
+      if (mission) {
+        missions.set(missionId, mission);
+      }
+    }
+
+    const insertEvent = this.db.prepare(`
+      INSERT INTO mission_events (
+        assignment_id, device_id, type, waypoint_index, timestamp,
+        latitude, longitude, altitude, distance
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const update = this.db.prepare(`
+      UPDATE mission_assignments SET
+        status = ?, ended_at = ?, next_waypoint = ?, current_leg = ?, progress = ?,
+        cross_track_error = ?, altitude_error = ?, distance_to_waypoint = ?,
+        max_cross_track_error = ?, cross_track_square_sum = ?, tracked_samples = ?,
+        last_timestamp = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'active'
+    `);
+
+    const statements: D1PreparedStatement[] = [];
+    const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const row of rows) {
+      const mission = missions.get(row.mission_id);
+      if (!mission) continue;
+      const state = rowToTrackingState(row);
+      let tracked = false;
+
+      for (const sample of sorted) {
+        if (state.status !== "active") break;
+        if (sample.deviceId !== row.device_id) continue;
+        if (
+          state.lastTimestamp !== null &&
+          sample.timestamp <= state.lastTimestamp
+        ) {
+          continue;
+        }
+        const events = trackMissionSample(mission, state, {
+          timestamp: sample.timestamp,
+          latitude: sample.latitude,
+          longitude: sample.longitude,
+          altitude: sample.groundDistance,
+        });
+        tracked = true;
+        for (const event of events) {
+          statements.push(
+            insertEvent.bind(
+              row.id,
+              row.device_id,
+              event.type,
+              event.waypointIndex,
+              sample.timestamp,
+              sample.latitude,
+              sample.longitude,
+              sample.groundDistance,
+              event.distance
+            )
+          );
+        }
+      }
+
+      if (tracked) {
+        statements.push(
+          update.bind(
+            state.status,
+            state.endedAt,
+            state.nextWaypoint,
+            state.currentLeg,
+            state.progress,
+            state.crossTrackError,
+            state.altitudeError,
+            state.distanceToWaypoint,
+            state.maxCrossTrackError,
+            state.crossTrackSquareSum,
+            state.trackedSamples,
+            state.lastTimestamp,
+            row.id
+          )
+        );
+      }
+    }
+
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+  }
+}
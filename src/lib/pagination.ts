@@ -0,0 +1,38 @@
+// 基于 (timestamp, id) 的分页游标，对外编码为 base64url 字符串
+export interface Cursor {
+  timestamp: number;
+  id: number;
+}
+
+export type SortOrder = "asc" | "desc";
+
+export function encodeCursor(cursor: Cursor): string {
+  return btoa(`${cursor.timestamp}:${cursor.id}`)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// 解析游标，格式不正确时返回 null
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const decoded = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    const match = /^(\d+):(\d+)$/.exec(decoded);
+    if (!match) {
+      return null;
+    }
+    return { timestamp: parseInt(match[1]), id: parseInt(match[2]) };
+  } catch {
+    return null;
+  }
+}
+
+// 游标之后（按排序方向）的条件，timestamp 相同时按 id 区分
+export function cursorCondition(
+  timeColumn: string,
+  idColumn: string,
+  order: SortOrder
+): string {
+  const op = order === "asc" ? ">" : "<";
+  return `(${timeColumn} ${op} ? OR (${timeColumn} = ? AND ${idColumn} ${op} ?))`;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { QualitySample, checkSample, createQualityState } from "./quality";
+
+// 纬度每 0.001 度约 111 米
+function sample(
+  timestamp: number,
+  latitude: number,
+  overrides: Partial<QualitySample> = {}
+): QualitySample {
+  return {
+    id: timestamp,
+    device_id: "drone-1",
+    timestamp,
+    latitude,
+    longitude: 121.5,
+    speed: 0,
+    velocity_x: 0,
+    velocity_y: 0,
+    velocity_z: 0,
+    ...overrides,
+  };
+}
+
+function reasons(
+  state: ReturnType<typeof createQualityState>,
+  s: QualitySample
+) {
+  return checkSample(state, s).map((issue) => issue.reason);
+}
+
+describe("checkSample", () => {
+  it("正常移动的样本没有标记", () => {
+    const state = createQualityState();
+    expect(reasons(state, sample(1000, 31.2))).toEqual([]);
+    expect(reasons(state, sample(2000, 31.2001))).toEqual([]);
+  });
+
+  it("标记隐含速度过大的位置跳变，并忽略小范围抖动", () => {
+    const state = createQualityState(sample(1000, 31.2));
+    expect(reasons(state, sample(2000, 31.21))).toEqual(["gps_jump"]);
+    // 跳变样本不作为后续检查的起点
+    expect(reasons(state, sample(3000, 31.2003))).toEqual([]);
+  });
+
+  it("跳变后与上一个样本连续时视为设备确实到了新位置", () => {
+    const state = createQualityState(sample(1000, 31.2));
+    expect(reasons(state, sample(2000, 31.21))).toEqual(["gps_jump"]);
+    expect(reasons(state, sample(3000, 31.2101))).toEqual([]);
+  });
+
+  it("按到达顺序检测时间倒退，倒退的样本不作为跳变检查的起点", () => {
+    const state = createQualityState(sample(1000, 31.2));
+    expect(reasons(state, sample(5000, 31.2))).toEqual([]);
+    expect(reasons(state, sample(4000, 31.2))).toEqual([
+      "timestamp_regression",
+    ]);
+    expect(state.lastGood?.timestamp).toBe(5000);
+    expect(reasons(state, sample(6000, 31.2))).toEqual([]);
+  });
+
+  it("补传的旧样本只与时间上紧挨的已有样本比较，不记为时间倒退", () => {
+    // 设备已有 1000 和 9000 两个样本，断线期间的 2000、3000 晚到
+    const state = createQualityState(sample(1000, 31.2));
+    expect(reasons(state, sample(2000, 31.2001))).toEqual([]);
+    expect(reasons(state, sample(3000, 31.2002))).toEqual([]);
+  });
+
+  it("标记 speed 与速度向量模长不符的样本", () => {
+    const state = createQualityState();
+    expect(
+      reasons(
+        state,
+        sample(1000, 31.2, { speed: 5, velocity_x: 3, velocity_y: 4 })
+      )
+    ).toEqual([]);
+    expect(
+      reasons(state, sample(2000, 31.2, { speed: 20, velocity_x: 3 }))
+    ).toEqual(["speed_mismatch"]);
+  });
+});
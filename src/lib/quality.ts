@@ -0,0 +1,448 @@
+import {
+  DeviceQualitySummary,
+  DroneData,
+  QualityFlag,
+  QualityReason,
+  UnityData,
+} from "../types";
+import { haversineDistance } from "./geo";
+
+export const QUALITY_REASONS: QualityReason[] = [
+  "gps_jump",
+  "timestamp_regression",
+  "speed_mismatch",
+];
+
+// 检查所需的样本字段
+export type QualitySample = Pick<
+  DroneData,
+  | "id"
+  | "device_id"
+  | "timestamp"
+  | "latitude"
+  | "longitude"
+  | "speed"
+  | "velocity_x"
+  | "velocity_y"
+  | "velocity_z"
+>;
+
+const QUALITY_COLUMNS =
+  "id, device_id, timestamp, latitude, longitude, speed, velocity_x, velocity_y, velocity_z";
+
+// 查询样本时附带其质量标记（逗号分隔的原因代码，无标记时为 null）
+export const QUALITY_FLAGS_COLUMN = `(
+  SELECT group_concat(reason) FROM data_quality_flags q
+  WHERE q.sample_id = unity_data.id
+) AS quality_flags`;
+
+// 排除有质量标记的样本的 SQL 条件
+export const CLEAN_SAMPLE_CONDITION = `NOT EXISTS (
+  SELECT 1 FROM data_quality_flags q WHERE q.sample_id = unity_data.id
+)`;
+
+export interface QualityOptions {
+  // 相邻样本之间允许的最大隐含速度（m/s）
+  maxSpeed: number;
+  // 位置跳变小于该距离（米）时不视为跳变，避免 GPS 抖动误报
+  minJumpDistance: number;
+  // speed 与 velocity 模长允许的绝对误差（m/s）和相对误差
+  speedTolerance: number;
+  speedToleranceRatio: number;
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityOptions = {
+  maxSpeed: 150,
+  minJumpDistance: 50,
+  speedTolerance: 2,
+  speedToleranceRatio: 0.2,
+};
+
+// 单个设备的检查状态：按顺序逐个检查样本
+export interface QualityState {
+  // 最后一个位置正常的样本，用于检测跳变
+  lastGood: QualitySample | null;
+  // 上一个样本（无论是否有标记）
+  last: QualitySample | null;
+  // 本次检查中已见过的最大时间戳，用于检测时间倒退。
+  // 只在同一次上报内按到达顺序比较：断线后补传的旧样本晚到是正常的，不算倒退；
+  // 重发的样本（相同设备和时间戳）在写入时就被忽略，不会进入检查
+  maxTimestamp: number;
+}
+
+// previous 为时间上紧挨在待检查样本之前的已有样本，作为跳变检查的起点
+export function createQualityState(
+  previous: QualitySample | null = null
+): QualityState {
+  return {
+    lastGood: previous,
+    last: previous,
+    maxTimestamp: -Infinity,
+  };
+}
+
+// 位置相对 from 是否为跳变：距离超过阈值且隐含速度超过上限（时间未前进时只看距离）
+function isJump(
+  from: QualitySample,
+  sample: QualitySample,
+  options: QualityOptions
+): { jump: boolean; distance: number; speed: number } {
+  const distance = haversineDistance(
+    from.latitude,
+    from.longitude,
+    sample.latitude,
+    sample.longitude
+  );
+  const dt = (sample.timestamp - from.timestamp) / 1000;
+  const speed = dt > 0 ? distance / dt : Infinity;
+  return {
+    jump: distance > options.minJumpDistance && speed > options.maxSpeed,
+    distance,
+    speed,
+  };
+}
+
+// 检查一个样本并更新状态，返回发现的问题
+export function checkSample(
+  state: QualityState,
+  sample: QualitySample,
+  options: QualityOptions = DEFAULT_QUALITY_OPTIONS
+): { reason: QualityReason; detail: string }[] {
+  const issues: { reason: QualityReason; detail: string }[] = [];
+
+  if (sample.timestamp < state.maxTimestamp) {
+    issues.push({
+      reason: "timestamp_regression",
+      detail: `${state.maxTimestamp - sample.timestamp} ms earlier than a previous sample`,
+    });
+  }
+
+  // 时间倒退的样本无法计算隐含速度，不做跳变检查
+  let positionOk = true;
+  if (state.lastGood && sample.timestamp >= state.lastGood.timestamp) {
+    const check = isJump(state.lastGood, sample, options);
+    if (check.jump) {
+      // 与上一个（已标记的）样本连续时视为设备确实到了新位置，不再标记
+      const relocated =
+        state.last !== null &&
+        state.last !== state.lastGood &&
+        sample.timestamp > state.last.timestamp &&
+        !isJump(state.last, sample, options).jump;
+      if (!relocated) {
+        positionOk = false;
+        issues.push({
+          reason: "gps_jump",
+          detail: `moved ${check.distance.toFixed(0)} m${
+            Number.isFinite(check.speed)
+              ? ` at ${check.speed.toFixed(1)} m/s`
+              : ""
+          }`,
+        });
+      }
+    }
+  }
+
+  const magnitude = Math.hypot(
+    sample.velocity_x,
+    sample.velocity_y,
+    sample.velocity_z
+  );
+  const tolerance = Math.max(
+    options.speedTolerance,
+    magnitude * options.speedToleranceRatio
+  );
+  if (Math.abs(sample.speed - magnitude) > tolerance) {
+    issues.push({
+      reason: "speed_mismatch",
+      detail: `speed ${sample.speed.toFixed(2)} vs |velocity| ${magnitude.toFixed(2)} m/s`,
+    });
+  }
+
+  if (positionOk && sample.timestamp >= state.maxTimestamp) {
+    state.lastGood = sample;
+  }
+  state.last = sample;
+  state.maxTimestamp = Math.max(state.maxTimestamp, sample.timestamp);
+  return issues;
+}
+
+// 把写入的 UnityData 转为检查用的样本
+export function toQualitySample(data: UnityData, id: number): QualitySample {
+  return {
+    id,
+    device_id: data.deviceId,
+    timestamp: data.timestamp,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    speed: data.speed,
+    velocity_x: data.velocity.x,
+    velocity_y: data.velocity.y,
+    velocity_z: data.velocity.z,
+  };
+}
+
+// 回填的条件和进度
+export interface QualityBackfillQuery {
+  deviceId?: string;
+  startTime?: number;
+  endTime?: number;
+  // 从该位置之后继续（按 device_id, timestamp 排序）
+  after?: { deviceId: string; timestamp: number };
+  // 本次最多处理的样本数
+  limit: number;
+}
+
+export interface QualityBackfillResult {
+  processed: number;
+  flagged: number;
+  next: { deviceId: string; timestamp: number } | null;
+}
+
+// 每次读取的样本数，以及每个 D1 batch 写入的标记数
+const BACKFILL_PAGE_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 100;
+
+// 把样本按设备分组，保持各设备内的顺序
+function groupByDevice(samples: QualitySample[]): Map<string, QualitySample[]> {
+  const groups = new Map<string, QualitySample[]>();
+  for (const sample of samples) {
+    const group = groups.get(sample.device_id) || [];
+    group.push(sample);
+    groups.set(sample.device_id, group);
+  }
+  return groups;
+}
+
+// 数据质量标记的 D1 操作类
+export class QualityStore {
+  private db: D1Database;
+  private options: QualityOptions;
+
+  constructor(
+    db: D1Database,
+    options: QualityOptions = DEFAULT_QUALITY_OPTIONS
+  ) {
+    this.db = db;
+    this.options = options;
+  }
+
+  // 设备在 beforeTimestamp 之前的最后一个样本
+  private async getPreviousSample(
+    deviceId: string,
+    beforeTimestamp: number
+  ): Promise<QualitySample | null> {
+    return await this.db
+      .prepare(
+        `
+      SELECT ${QUALITY_COLUMNS} FROM unity_data
+      WHERE device_id = ? AND timestamp < ?
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `
+      )
+      .bind(deviceId, beforeTimestamp)
+      .first<QualitySample>();
+  }
+
+  // 依次检查一个设备的样本，返回产生的标记；state 在调用间延续
+  private checkDevice(
+    deviceId: string,
+    samples: QualitySample[],
+    state: QualityState
+  ): QualityFlag[] {
+    const flags: QualityFlag[] = [];
+    for (const sample of samples) {
+      for (const issue of checkSample(state, sample, this.options)) {
+        flags.push({
+          sampleId: sample.id,
+          deviceId,
+          timestamp: sample.timestamp,
+          ...issue,
+        });
+      }
+    }
+    return flags;
+  }
+
+  private async insertFlags(flags: QualityFlag[]): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO data_quality_flags (sample_id, device_id, timestamp, reason, detail)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (let i = 0; i < flags.length; i += INSERT_CHUNK_SIZE) {
+      await this.db.batch(
+        flags
+          .slice(i, i + INSERT_CHUNK_SIZE)
+          .map((flag) =>
+            stmt.bind(
+              flag.sampleId,
+              flag.deviceId,
+              flag.timestamp,
+              flag.reason,
+              flag.detail
+            )
+          )
+      );
+    }
+  }
+
+  // 检查同一次上报中刚写入的样本（按上报顺序）并保存标记，返回标记列表
+  async checkSamples(samples: QualitySample[]): Promise<QualityFlag[]> {
+    const flags: QualityFlag[] = [];
+    for (const [deviceId, group] of groupByDevice(samples)) {
+      const start = group.reduce(
+        (min, sample) => Math.min(min, sample.timestamp),
+        Infinity
+      );
+      const previous = await this.getPreviousSample(deviceId, start);
+      flags.push(
+        ...this.checkDevice(deviceId, group, createQualityState(previous))
+      );
+    }
+    await this.insertFlags(flags);
+    return flags;
+  }
+
+  // 按 (device_id, timestamp) 顺序重新检查已有样本，替换其原有标记。
+  // 时间倒退只能在写入时按上报顺序发现，回填时保留这类标记。
+  // 每次最多处理 limit 个样本，返回 next 用于继续
+  async backfill(query: QualityBackfillQuery): Promise<QualityBackfillResult> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.deviceId) {
+      conditions.push("device_id = ?");
+      params.push(query.deviceId);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(query.startTime);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(query.endTime);
+    }
+    const page = this.db.prepare(`
+      SELECT ${QUALITY_COLUMNS} FROM unity_data
+      WHERE (device_id > ? OR (device_id = ? AND timestamp > ?))
+      ${conditions.map((condition) => `AND ${condition}`).join(" ")}
+      ORDER BY device_id, timestamp
+      LIMIT ?
+    `);
+    const clear = this.db.prepare(`
+      DELETE FROM data_quality_flags
+      WHERE device_id = ? AND timestamp >= ? AND timestamp <= ?
+        AND reason != 'timestamp_regression'
+    `);
+
+    let after = query.after || { deviceId: "", timestamp: 0 };
+    let processed = 0;
+    let flagged = 0;
+    let state: QualityState | null = null;
+    let stateDevice: string | null = null;
+
+    while (processed < query.limit) {
+      const result = await page
+        .bind(
+          after.deviceId,
+          after.deviceId,
+          after.timestamp,
+          ...params,
+          Math.min(BACKFILL_PAGE_SIZE, query.limit - processed)
+        )
+        .all();
+      const rows = result.results as QualitySample[];
+      if (rows.length === 0) {
+        return { processed, flagged, next: null };
+      }
+
+      for (const [deviceId, group] of groupByDevice(rows)) {
+        // 跨页延续同一设备的状态，新设备从其前一个样本开始
+        if (stateDevice !== deviceId || !state) {
+          state = createQualityState(
+            await this.getPreviousSample(deviceId, group[0].timestamp)
+          );
+          stateDevice = deviceId;
+        }
+        const flags = this.checkDevice(deviceId, group, state);
+        await clear
+          .bind(deviceId, group[0].timestamp, group[group.length - 1].timestamp)
+          .run();
+        await this.insertFlags(flags);
+        flagged += flags.length;
+      }
+
+      processed += rows.length;
+      const last = rows[rows.length - 1];
+      after = { deviceId: last.device_id, timestamp: last.timestamp };
+    }
+    return { processed, flagged, next: after };
+  }
+
+  // 各设备在 since 之后的样本数和被标记的样本数
+  async getSummary(
+    since: number,
+    deviceId?: string
+  ): Promise<DeviceQualitySummary[]> {
+    const deviceFilter = deviceId ? "AND device_id = ?" : "";
+    const params: unknown[] = deviceId ? [since, deviceId] : [since];
+
+    const [samples, flagged, reasons] = await this.db.batch([
+      this.db
+        .prepare(
+          `
+        SELECT device_id, COUNT(*) AS count FROM unity_data
+        WHERE timestamp >= ? ${deviceFilter}
+        GROUP BY device_id
+      `
+        )
+        .bind(...params),
+      this.db
+        .prepare(
+          `
+        SELECT device_id, COUNT(DISTINCT sample_id) AS count FROM data_quality_flags
+        WHERE timestamp >= ? ${deviceFilter}
+        GROUP BY device_id
+      `
+        )
+        .bind(...params),
+      this.db
+        .prepare(
+          `
+        SELECT device_id, reason, COUNT(*) AS count FROM data_quality_flags
+        WHERE timestamp >= ? ${deviceFilter}
+        GROUP BY device_id, reason
+      `
+        )
+        .bind(...params),
+    ]);
+
+    const summaries = new Map<string, DeviceQualitySummary>();
+    for (const row of samples.results as {
+      device_id: string;
+      count: number;
+    }[]) {
+      summaries.set(row.device_id, {
+        deviceId: row.device_id,
+        sampleCount: row.count,
+        flaggedCount: 0,
+        reasons: {},
+      });
+    }
+    for (const row of flagged.results as {
+      device_id: string;
+      count: number;
+    }[]) {
+      const summary = summaries.get(row.device_id);
+      if (summary) summary.flaggedCount = row.count;
+    }
+    for (const row of reasons.results as {
+      device_id: string;
+      reason: QualityReason;
+      count: number;
+    }[]) {
+      const summary = summaries.get(row.device_id);
+      if (summary) summary.reasons[row.reason] = row.count;
+    }
+    return Array.from(summaries.values());
+  }
+}
@@ -0,0 +1,316 @@
+import { DataResolution, RollupData } from "../types";
+import { projectFields, SampleQuery, SamplePage } from "./unityData";
+import { CLEAN_SAMPLE_CONDITION } from "./quality";
+
+// 聚合表及其桶宽
+export const ROLLUP_TABLES: Record<
+  Exclude<DataResolution, "raw">,
+  { table: string; bucketMs: number }
+> = {
+  "1s": { table: "unity_data_1s", bucketMs: 1000 },
+  "1m": { table: "unity_data_1m", bucketMs: 60 * 1000 },
+};
+
+// 聚合时求平均值的字段
+const SUM_FIELDS = [
+  "latitude",
+  "longitude",
+  "pitch",
+  "yaw",
+  "roll",
+  "speed",
+  "velocity_x",
+  "velocity_y",
+  "velocity_z",
+  "horizontal_speed",
+  "vertical_speed",
+  "flight_direction",
+  "ground_distance",
+];
+
+// 聚合时另外保存最小/最大值的字段（偏航角按算术值处理，不考虑 0/360 回绕）
+const RANGE_FIELDS = ["speed", "ground_distance", "pitch", "yaw", "roll"];
+
+// 聚合数据额外可通过 fields= 选择的列
+export const ROLLUP_EXTRA_FIELDS = [
+  "sample_count",
+  ...RANGE_FIELDS.flatMap((field) => [`${field}_min`, `${field}_max`]),
+];
+
+// 每步聚合的原始行数，以及每次任务最多执行的步数
+const ROLLUP_CHUNK_ROWS = 10000;
+const MAX_ROLLUP_STEPS = 10;
+// 每条 DELETE 删除的最大行数，以及每次任务每张表最多执行的次数
+const PURGE_CHUNK_ROWS = 5000;
+const MAX_PURGE_STEPS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 保留策略（天）；rollup1mDays 为 null 时按分钟聚合的数据永久保留
+export interface RetentionPolicy {
+  rawDays: number;
+  rollup1sDays: number;
+  rollup1mDays: number | null;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  rawDays: 7,
+  rollup1sDays: 30,
+  rollup1mDays: null,
+};
+
+function parseDays(value: string | undefined): number | null {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+// 从环境变量读取保留策略：RAW_RETENTION_DAYS、ROLLUP_1S_RETENTION_DAYS、ROLLUP_1M_RETENTION_DAYS
+export function getRetentionPolicy(env: CloudflareEnv): RetentionPolicy {
+  return {
+    rawDays:
+      parseDays(env.RAW_RETENTION_DAYS) ?? DEFAULT_RETENTION_POLICY.rawDays,
+    rollup1sDays:
+      parseDays(env.ROLLUP_1S_RETENTION_DAYS) ??
+      DEFAULT_RETENTION_POLICY.rollup1sDays,
+    rollup1mDays: parseDays(env.ROLLUP_1M_RETENTION_DAYS),
+  };
+}
+
+// resolution=auto 时按时间跨度和数据是否仍在保留期内选择分辨率
+export function chooseResolution(
+  startTime: number,
+  endTime: number,
+  now: number,
+  policy: RetentionPolicy
+): DataResolution {
+  const span = endTime - startTime;
+  const age = now - startTime;
+  if (span <= 15 * 60 * 1000 && age <= policy.rawDays * DAY_MS) {
+    return "raw";
+  }
+  if (span <= 3 * 60 * 60 * 1000 && age <= policy.rollup1sDays * DAY_MS) {
+    return "1s";
+  }
+  return "1m";
+}
+
+// 把一段 unity_data 聚合到指定表，与已有的桶累加合并；有质量标记的样本不参与聚合
+function rollupSql(table: string, bucketMs: number): string {
+  const columns = [
+    "device_id",
+    "bucket",
+    "sample_count",
+    ...SUM_FIELDS.map((field) => `${field}_sum`),
+    ...RANGE_FIELDS.flatMap((field) => [`${field}_min`, `${field}_max`]),
+  ];
+  const selects = [
+    "device_id",
+    `(timestamp / ${bucketMs}) * ${bucketMs} AS bucket`,
+    "COUNT(*)",
+    ...SUM_FIELDS.map((field) => `SUM(${field})`),
+    ...RANGE_FIELDS.flatMap((field) => [`MIN(${field})`, `MAX(${field})`]),
+  ];
+  const updates = [
+    "sample_count = sample_count + excluded.sample_count",
+    ...SUM_FIELDS.map(
+      (field) => `${field}_sum = ${field}_sum + excluded.${field}_sum`
+    ),
+    ...RANGE_FIELDS.flatMap((field) => [
+      `${field}_min = MIN(${field}_min, excluded.${field}_min)`,
+      `${field}_max = MAX(${field}_max, excluded.${field}_max)`,
+    ]),
+  ];
+  return `
+    INSERT INTO ${table} (${columns.join(", ")})
+    SELECT ${selects.join(", ")}
+    FROM unity_data
+    WHERE id > ? AND id <= ? AND ${CLEAN_SAMPLE_CONDITION}
+    GROUP BY device_id, bucket
+    ON CONFLICT(device_id, bucket) DO UPDATE SET ${updates.join(", ")}
+  `;
+}
+
+// 降采样与数据保留的 D1 操作类
+export class RollupStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  // 把上次之后新增的原始样本按 id 顺序增量聚合到各聚合表，返回本次聚合的行数上界
+  async rollup(): Promise<number> {
+    const state = await this.db
+      .prepare(`SELECT last_id FROM rollup_state WHERE name = 'raw'`)
+      .first<{ last_id: number }>();
+    const max = await this.db
+      .prepare(`SELECT MAX(id) AS max_id FROM unity_data`)
+      .first<{ max_id: number | null }>();
+    let lastId = state?.last_id ?? 0;
+    const maxId = max?.max_id ?? 0;
+    const startId = lastId;
+
+    const statements = Object.values(ROLLUP_TABLES).map(({ table, bucketMs }) =>
+      this.db.prepare(rollupSql(table, bucketMs))
+    );
+    const saveState = this.db.prepare(`
+      INSERT INTO rollup_state (name, last_id) VALUES ('raw', ?)
+      ON CONFLICT(name) DO UPDATE SET last_id = excluded.last_id
+    `);
+
+    // 每步在一个 batch（事务）中完成聚合和进度更新，中途失败不会重复累加
+    for (let step = 0; step < MAX_ROLLUP_STEPS && lastId < maxId; step++) {
+      const toId = Math.min(lastId + ROLLUP_CHUNK_ROWS, maxId);
+      await this.db.batch([
+        ...statements.map((statement) => statement.bind(lastId, toId)),
+        saveState.bind(toId),
+      ]);
+      lastId = toId;
+    }
+    return lastId - startId;
+  }
+
+  // 分批删除早于 cutoff 的行，返回删除的行数
+  private async purgeTable(
+    table: string,
+    timeColumn: string,
+    cutoff: number,
+    extraCondition: string = "",
+    extraParams: unknown[] = []
+  ): Promise<number> {
+    const statement = this.db.prepare(`
+      DELETE FROM ${table} WHERE rowid IN (
+        SELECT rowid FROM ${table}
+        WHERE ${timeColumn} < ? ${extraCondition}
+        LIMIT ${PURGE_CHUNK_ROWS}
+      )
+    `);
+    let deleted = 0;
+    for (let step = 0; step < MAX_PURGE_STEPS; step++) {
+      const result = await statement.bind(cutoff, ...extraParams).run();
+      deleted += result.meta.changes;
+      if (result.meta.changes < PURGE_CHUNK_ROWS) break;
+    }
+    return deleted;
+  }
+
+  // 删除超过保留期的数据；原始样本只删除已经聚合过的部分，
+  // 质量标记随对应的原始样本一起删除
+  async purge(
+    now: number,
+    policy: RetentionPolicy
+  ): Promise<Record<string, number>> {
+    const state = await this.db
+      .prepare(`SELECT last_id FROM rollup_state WHERE name = 'raw'`)
+      .first<{ last_id: number }>();
+    const deleted: Record<string, number> = {
+      unity_data: await this.purgeTable(
+        "unity_data",
+        "timestamp",
+        now - policy.rawDays * DAY_MS,
+        "AND id <= ?",
+        [state?.last_id ?? 0]
+      ),
+      data_quality_flags: await this.purgeTable(
+        "data_quality_flags",
+        "timestamp",
+        now - policy.rawDays * DAY_MS,
+        "AND NOT EXISTS (SELECT 1 FROM unity_data u WHERE u.id = data_quality_flags.sample_id)"
+      ),
+      [ROLLUP_TABLES["1s"].table]: await this.purgeTable(
+        ROLLUP_TABLES["1s"].table,
+        "bucket",
+        now - policy.rollup1sDays * DAY_MS
+      ),
+    };
+    if (policy.rollup1mDays !== null) {
+      deleted[ROLLUP_TABLES["1m"].table] = await this.purgeTable(
+        ROLLUP_TABLES["1m"].table,
+        "bucket",
+        now - policy.rollup1mDays * DAY_MS
+      );
+    }
+    return deleted;
+  }
+
+  // 定时任务：先聚合再删除过期数据
+  async runRetention(now: number, policy: RetentionPolicy): Promise<void> {
+    const rolledUp = await this.rollup();
+    const deleted = await this.purge(now, policy);
+    console.log("Retention job finished:", { rolledUp, deleted });
+  }
+
+  // 分页查询聚合数据，返回与原始样本相同的字段（取桶内平均值），
+  // id 和 timestamp 均为桶的起始时间
+  async getRollups(
+    resolution: Exclude<DataResolution, "raw">,
+    query: SampleQuery & { deviceId: string }
+  ): Promise<SamplePage> {
+    const { table, bucketMs } = ROLLUP_TABLES[resolution];
+    const averages = SUM_FIELDS.map(
+      (field) => `${field}_sum / sample_count AS ${field}`
+    );
+    const ranges = RANGE_FIELDS.flatMap((field) => [
+      `${field}_min`,
+      `${field}_max`,
+    ]);
+
+    const conditions = ["device_id = ?"];
+    const params: unknown[] = [query.deviceId];
+    if (query.startTime !== undefined) {
+      conditions.push("bucket >= ?");
+      params.push(Math.floor(query.startTime / bucketMs) * bucketMs);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push("bucket <= ?");
+      params.push(query.endTime);
+    }
+    if (query.after) {
+      conditions.push(`bucket ${query.order === "asc" ? ">" : "<"} ?`);
+      params.push(query.after.timestamp);
+    }
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+
+    const result = await this.db
+      .prepare(
+        `
+      SELECT device_id, bucket, sample_count, ${[...averages, ...ranges].join(", ")}
+      FROM ${table}
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY bucket ${direction}
+      LIMIT ?
+    `
+      )
+      .bind(...params, query.limit + 1)
+      .all();
+
+    const rows: RollupData[] = (result.results as any[]).map((row) => {
+      const { bucket, ...fields } = row;
+      return {
+        ...fields,
+        id: bucket,
+        timestamp: bucket,
+        formatted_time: new Date(bucket).toISOString(),
+        created_at: new Date(bucket).toISOString(),
+      };
+    });
+    const hasMore = rows.length > query.limit;
+    const page = hasMore ? rows.slice(0, query.limit) : rows;
+    const last = page[page.length - 1];
+
+    const fields =
+      query.fields && query.fields.length > 0
+        ? projectFields(query.fields)
+        : null;
+    return {
+      rows: fields
+        ? page.map((row) =>
+            Object.fromEntries(
+              fields.map((field) => [field, row[field as keyof RollupData]])
+            )
+          )
+        : page,
+      next: hasMore ? { timestamp: last.timestamp, id: last.id } : null,
+    };
+  }
+}
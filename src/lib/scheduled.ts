@@ -0,0 +1,54 @@
+import { AlertStore } from "./alerts";
+import { CommandStore } from "./commands";
+import { WebhookStore } from "./webhooks";
+import { DEFAULT_HEARTBEAT_THRESHOLDS } from "./deviceStatus";
+import { getRetentionPolicy, RollupStore } from "./retention";
+
+// 设备停止上报的判定时间（毫秒）：DEVICE_STOPPED_TIMEOUT_MS，未配置时沿用离线阈值
+function getStoppedTimeout(env: CloudflareEnv): number {
+  for (const value of [env.DEVICE_STOPPED_TIMEOUT_MS, env.DEVICE_OFFLINE_MS]) {
+    const parsed = parseInt(value || "");
+    if (Number.isFinite(parsed) && parsed > 0) {
+      return parsed;
+    }
+  }
+  return DEFAULT_HEARTBEAT_THRESHOLDS.offlineMs;
+}
+
+// 定时触发器（见 wrangler.jsonc 的 triggers.crons）执行的后台任务，
+// 按顺序执行，单个任务失败不影响其他任务
+export async function runScheduledTasks(
+  env: CloudflareEnv,
+  now: number
+): Promise<void> {
+  const tasks: [string, () => Promise<void>][] = [
+    ["alert heartbeat", () => new AlertStore(env.DB).evaluateHeartbeat(now)],
+    [
+      "device reporting",
+      () =>
+        new WebhookStore(env.DB).checkStoppedDevices(
+          now,
+          getStoppedTimeout(env)
+        ),
+    ],
+    ["webhook retries", () => new WebhookStore(env.DB).deliverPending(now)],
+    [
+      "command timeouts",
+      async () => {
+        await new CommandStore(env.DB).expireCommands(now);
+      },
+    ],
+    [
+      "retention",
+      () => new RollupStore(env.DB).runRetention(now, getRetentionPolicy(env)),
+    ],
+  ];
+
+  for (const [name, task] of tasks) {
+    try {
+      await task();
+    } catch (error) {
+      console.error(`Scheduled task "${name}" failed:`, error);
+    }
+  }
+}
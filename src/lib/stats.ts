@@ -0,0 +1,192 @@
+import { DroneData, FlightStats, MotionPoint } from "../types";
+import { haversineDistance } from "./geo";
+import { DEFAULT_FLIGHT_OPTIONS, FlightDetectionOptions } from "./flights";
+
+// 统计所需的样本字段
+export type StatsSample = Pick<
+  DroneData,
+  | "timestamp"
+  | "latitude"
+  | "longitude"
+  | "speed"
+  | "horizontal_speed"
+  | "vertical_speed"
+  | "ground_distance"
+  | "velocity_x"
+  | "velocity_y"
+  | "velocity_z"
+>;
+
+export const STATS_FIELDS: (keyof StatsSample)[] = [
+  "timestamp",
+  "latitude",
+  "longitude",
+  "speed",
+  "horizontal_speed",
+  "vertical_speed",
+  "ground_distance",
+  "velocity_x",
+  "velocity_y",
+  "velocity_z",
+];
+
+// 按时间顺序逐个加入样本，增量计算统计值，不需要一次加载全部样本。
+// 相邻样本间隔超过 gapMs 时视为数据中断：不计空中时间和加速度，但仍累计距离
+export class FlightStatsAccumulator {
+  private stats: FlightStats;
+  private previous: StatsSample | null = null;
+  private previousAcceleration: MotionPoint | null = null;
+  private speedSum = 0;
+  private horizontalSpeedSum = 0;
+  private series: MotionPoint[] = [];
+  private options: Pick<FlightDetectionOptions, "gapMs" | "takeoffAltitude">;
+  private collectSeries: boolean;
+
+  constructor(
+    deviceId: string,
+    collectSeries: boolean = false,
+    options: FlightDetectionOptions = DEFAULT_FLIGHT_OPTIONS
+  ) {
+    this.collectSeries = collectSeries;
+    this.options = options;
+    this.stats = {
+      deviceId,
+      startTime: null,
+      endTime: null,
+      sampleCount: 0,
+      durationMs: 0,
+      distance: 0,
+      distance3d: 0,
+      maxSpeed: 0,
+      avgSpeed: 0,
+      maxHorizontalSpeed: 0,
+      avgHorizontalSpeed: 0,
+      maxVerticalSpeed: 0,
+      minVerticalSpeed: 0,
+      maxAltitude: 0,
+      climb: 0,
+      descent: 0,
+      airborneMs: 0,
+      maxAcceleration: 0,
+      maxJerk: 0,
+    };
+  }
+
+  add(sample: StatsSample): void {
+    const stats = this.stats;
+    const previous = this.previous;
+    // 忽略乱序或重复时间戳的样本
+    if (previous && sample.timestamp <= previous.timestamp) {
+      return;
+    }
+
+    if (stats.sampleCount === 0) {
+      stats.startTime = sample.timestamp;
+      stats.maxVerticalSpeed = sample.vertical_speed;
+      stats.minVerticalSpeed = sample.vertical_speed;
+      stats.maxAltitude = sample.ground_distance;
+    }
+    stats.sampleCount += 1;
+    stats.endTime = sample.timestamp;
+    stats.durationMs = sample.timestamp - (stats.startTime ?? sample.timestamp);
+    stats.maxSpeed = Math.max(stats.maxSpeed, sample.speed);
+    stats.maxHorizontalSpeed = Math.max(
+      stats.maxHorizontalSpeed,
+      sample.horizontal_speed
+    );
+    stats.maxVerticalSpeed = Math.max(
+      stats.maxVerticalSpeed,
+      sample.vertical_speed
+    );
+    stats.minVerticalSpeed = Math.min(
+      stats.minVerticalSpeed,
+      sample.vertical_speed
+    );
+    stats.maxAltitude = Math.max(stats.maxAltitude, sample.ground_distance);
+    this.speedSum += sample.speed;
+    this.horizontalSpeedSum += sample.horizontal_speed;
+
+    if (previous) {
+      const dt = sample.timestamp - previous.timestamp;
+      const horizontal = haversineDistance(
+        previous.latitude,
+        previous.longitude,
+        sample.latitude,
+        sample.longitude
+      );
+      const dz = sample.ground_distance - previous.ground_distance;
+      stats.distance += horizontal;
+      stats.distance3d += Math.hypot(horizontal, dz);
+      if (dz > 0) stats.climb += dz;
+      else stats.descent -= dz;
+
+      if (dt <= this.options.gapMs) {
+        if (
+          previous.ground_distance > this.options.takeoffAltitude &&
+          sample.ground_distance > this.options.takeoffAltitude
+        ) {
+          stats.airborneMs += dt;
+        }
+        this.addMotion(previous, sample, dt);
+      } else {
+        this.previousAcceleration = null;
+      }
+    }
+    this.previous = sample;
+  }
+
+  // 由速度向量差分得到加速度，再由加速度差分得到加加速度
+  private addMotion(previous: StatsSample, sample: StatsSample, dt: number) {
+    const seconds = dt / 1000;
+    const acceleration =
+      Math.hypot(
+        sample.velocity_x - previous.velocity_x,
+        sample.velocity_y - previous.velocity_y,
+        sample.velocity_z - previous.velocity_z
+      ) / seconds;
+    const last = this.previousAcceleration;
+    const jerk =
+      last === null
+        ? null
+        : Math.abs(acceleration - last.acceleration) /
+          ((sample.timestamp - last.timestamp) / 1000);
+
+    const point: MotionPoint = {
+      timestamp: sample.timestamp,
+      acceleration,
+      jerk,
+    };
+    this.stats.maxAcceleration = Math.max(
+      this.stats.maxAcceleration,
+      acceleration
+    );
+    if (jerk !== null) {
+      this.stats.maxJerk = Math.max(this.stats.maxJerk, jerk);
+    }
+    if (this.collectSeries) {
+      this.series.push(point);
+    }
+    this.previousAcceleration = point;
+  }
+
+  getStats(): FlightStats {
+    const count = this.stats.sampleCount;
+    return {
+      ...this.stats,
+      avgSpeed: count > 0 ? this.speedSum / count : 0,
+      avgHorizontalSpeed: count > 0 ? this.horizontalSpeedSum / count : 0,
+    };
+  }
+
+  // 加速度/加加速度序列，超过 maxPoints 时等间隔抽取
+  getSeries(maxPoints: number): MotionPoint[] {
+    if (this.series.length <= maxPoints) {
+      return this.series;
+    }
+    const step = this.series.length / maxPoints;
+    return Array.from(
+      { length: maxPoints },
+      (_, i) => this.series[Math.floor(i * step)]
+    );
+  }
+}
@@ -0,0 +1,9 @@
+// 毫秒时间戳 <-> datetime-local 输入框的值（本地时间）
+export const toInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(timestamp - offset).toISOString().slice(0, 19);
+};
+
+export const fromInputValue = (value: string): number =>
+  new Date(value).getTime();
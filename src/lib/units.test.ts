@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { formatQuantity, toDisplayUnit, toEnu } from "./units";
+
+describe("toEnu", () => {
+  it("Unity 坐标系：y 轴朝上、z 轴朝北", () => {
+    expect(toEnu("unity", { x: 1, y: 2, z: 3 })).toEqual({ x: 1, y: 3, z: 2 });
+  });
+
+  it("NED 坐标系：交换东北分量并反转垂直分量", () => {
+    expect(toEnu("ned", { x: 1, y: 2, z: 3 })).toEqual({ x: 2, y: 1, z: -3 });
+  });
+
+  it("ENU 坐标系保持不变并返回新对象", () => {
+    const vector = { x: 1, y: 2, z: 3 };
+    const result = toEnu("enu", vector);
+    expect(result).toEqual(vector);
+    expect(result).not.toBe(vector);
+  });
+});
+
+describe("toDisplayUnit", () => {
+  it("把标准单位换算为显示单位", () => {
+    const units = { speed: "km/h", distance: "ft" } as const;
+    expect(toDisplayUnit(10, "speed", units)).toBeCloseTo(36);
+    expect(toDisplayUnit(30.48, "distance", units)).toBeCloseTo(100);
+    expect(formatQuantity(10, "speed", units, 1)).toBe("36.0 km/h");
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  AngleUnit,
+  CoordinateFrame,
+  DisplayUnits,
+  DistanceUnit,
+  SpeedUnit,
+  TelemetryUnits,
+} from "../types";
+
+export const COORDINATE_FRAMES: CoordinateFrame[] = ["unity", "enu", "ned"];
+
+// 入库使用的标准单位；坐标系统一为 ENU
+export const CANONICAL_UNITS: TelemetryUnits = {
+  speed: "m/s",
+  distance: "m",
+  angle: "deg",
+};
+
+// 各单位换算为标准单位的系数（标准值 = 原始值 × 系数）
+export const SPEED_UNITS: Record<SpeedUnit, number> = {
+  "m/s": 1,
+  "km/h": 1 / 3.6,
+  knots: 1852 / 3600,
+};
+
+export const DISTANCE_UNITS: Record<DistanceUnit, number> = {
+  m: 1,
+  ft: 0.3048,
+};
+
+export const ANGLE_UNITS: Record<AngleUnit, number> = {
+  deg: 1,
+  rad: 180 / Math.PI,
+};
+
+// 按物理量查找单位换算表
+export const UNIT_FACTORS: {
+  [K in keyof TelemetryUnits]: Record<TelemetryUnits[K], number>;
+} = {
+  speed: SPEED_UNITS,
+  distance: DISTANCE_UNITS,
+  angle: ANGLE_UNITS,
+};
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// 把声明坐标系下的向量转换为 ENU（x 东、y 北、z 上）
+export function toEnu(frame: CoordinateFrame, vector: Vector3): Vector3 {
+  switch (frame) {
+    case "unity":
+      return { x: vector.x, y: vector.z, z: vector.y };
+    case "ned":
+      return { x: vector.y, y: vector.x, z: -vector.z };
+    default:
+      return { ...vector };
+  }
+}
+
+// 页面可切换单位的物理量
+export type DisplayQuantity = keyof DisplayUnits;
+
+export const DEFAULT_DISPLAY_UNITS: DisplayUnits = {
+  speed: "m/s",
+  distance: "m",
+};
+
+export const SPEED_UNIT_LABELS: Record<SpeedUnit, string> = {
+  "m/s": "m/s",
+  "km/h": "km/h",
+  knots: "kn",
+};
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  m: "m",
+  ft: "ft",
+};
+
+// 把标准单位的值换算为显示单位
+export function toDisplayUnit(
+  value: number,
+  quantity: DisplayQuantity,
+  units: DisplayUnits
+): number {
+  return quantity === "speed"
+    ? value / SPEED_UNITS[units.speed]
+    : value / DISTANCE_UNITS[units.distance];
+}
+
+export function displayUnitLabel(
+  quantity: DisplayQuantity,
+  units: DisplayUnits
+): string {
+  return quantity === "speed"
+    ? SPEED_UNIT_LABELS[units.speed]
+    : DISTANCE_UNIT_LABELS[units.distance];
+}
+
+// 按显示单位格式化数值，如 "12.30 km/h"
+export function formatQuantity(
+  value: number,
+  quantity: DisplayQuantity,
+  units: DisplayUnits,
+  decimals: number = 2
+): string {
+  return `${toDisplayUnit(value, quantity, units).toFixed(
+    decimals
+  )} ${displayUnitLabel(quantity, units)}`;
+}
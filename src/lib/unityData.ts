@@ -0,0 +1,275 @@
+import { QualityFilter, UnityData } from "../types";
+import { Cursor, cursorCondition, SortOrder } from "./pagination";
+import { CLEAN_SAMPLE_CONDITION, QUALITY_FLAGS_COLUMN } from "./quality";
+
+// unity_data 中可通过 fields= 选择的列
+export const SAMPLE_FIELDS = [
+  "id",
+  "device_id",
+  "formatted_time",
+  "timestamp",
+  "latitude",
+  "longitude",
+  "pitch",
+  "yaw",
+  "roll",
+  "speed",
+  "velocity_x",
+  "velocity_y",
+  "velocity_z",
+  "horizontal_speed",
+  "vertical_speed",
+  "flight_direction",
+  "ground_distance",
+  "created_at",
+];
+
+// 样本的质量标记，由 data_quality_flags 计算得到，不查询聚合数据时可选
+export const QUALITY_FLAGS_FIELD = "quality_flags";
+
+// 上报时声明的原始坐标系和单位，聚合数据没有这两列
+export const SOURCE_FIELDS = ["source_frame", "source_units"];
+
+// 扩展遥测通道，聚合数据没有这些列
+export const TELEMETRY_FIELDS = [
+  "battery_voltage",
+  "battery_percent",
+  "gps_satellites",
+  "gps_hdop",
+  "rssi",
+  "flight_mode",
+  "armed",
+  "extras",
+];
+
+// 样本分页查询条件
+export interface SampleQuery {
+  deviceId?: string;
+  startTime?: number;
+  endTime?: number;
+  order: SortOrder;
+  limit: number;
+  // 从该游标之后开始
+  after?: Cursor;
+  // 只返回这些列；id 和 timestamp 总会返回，用于生成游标
+  fields?: string[];
+  // 按质量标记过滤，默认 all
+  quality?: QualityFilter;
+  // 按飞行模式和解锁状态过滤，只用于原始数据
+  flightMode?: string;
+  armed?: boolean;
+}
+
+export interface SamplePage {
+  rows: any[];
+  next: Cursor | null;
+}
+
+// 需要查询的列：未指定时返回全部，指定时补上 id 和 timestamp
+export function projectFields(fields?: string[]): string[] {
+  if (!fields || fields.length === 0) {
+    return SAMPLE_FIELDS;
+  }
+  return Array.from(new Set(["id", "timestamp", ...fields]));
+}
+
+const INSERT_SAMPLE_SQL = `
+  INSERT INTO unity_data (
+    device_id, formatted_time, timestamp, latitude, longitude,
+    pitch, yaw, roll, speed, velocity_x, velocity_y, velocity_z,
+    horizontal_speed, vertical_speed, flight_direction, ground_distance,
+    source_frame, source_units,
+    battery_voltage, battery_percent, gps_satellites, gps_hdop, rssi,
+    flight_mode, armed, extras
+  ) VALUES (${Array(26).fill("?").join(", ")})
+  ON CONFLICT (device_id, timestamp) DO NOTHING
+  RETURNING id
+`;
+
+// 写入后更新设备的最新样本；样本比已记录的更新时才替换
+const UPDATE_LATEST_SQL = `
+  INSERT INTO device_latest (device_id, sample_id, timestamp)
+  SELECT device_id, id, timestamp FROM unity_data
+  WHERE device_id = ? AND timestamp = ?
+  ON CONFLICT (device_id) DO UPDATE SET
+    sample_id = excluded.sample_id, timestamp = excluded.timestamp
+  WHERE excluded.timestamp > device_latest.timestamp
+`;
+
+// INSERT_SAMPLE_SQL 的参数，未上报的扩展遥测写入 NULL
+function sampleParams(data: UnityData): unknown[] {
+  return [
+    data.deviceId,
+    data.formattedTime,
+    data.timestamp,
+    data.latitude,
+    data.longitude,
+    data.pitch,
+    data.yaw,
+    data.roll,
+    data.speed,
+    data.velocity.x,
+    data.velocity.y,
+    data.velocity.z,
+    data.horizontalSpeed,
+    data.verticalSpeed,
+    data.flightDirection,
+    data.groundDistance,
+    data.frame,
+    JSON.stringify(data.units),
+    data.batteryVoltage ?? null,
+    data.batteryPercent ?? null,
+    data.gpsSatellites ?? null,
+    data.gpsHdop ?? null,
+    data.rssi ?? null,
+    data.flightMode ?? null,
+    data.armed === undefined ? null : data.armed ? 1 : 0,
+    data.extras ? JSON.stringify(data.extras) : null,
+  ];
+}
+
+// D1数据库操作类
+export class UnityDataWriter {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  // 写入单条数据，返回新行的 id；同一设备已有相同时间戳的样本时忽略并返回 null
+  async writeData(data: UnityData): Promise<number | null> {
+    const [id] = await this.writeBatchData([data]);
+    return id;
+  }
+
+  // 批量写入数据，按输入顺序返回新行的 id，重复的样本为 null。
+  // 同一个 batch 中更新各设备的最新样本
+  async writeBatchData(dataArray: UnityData[]): Promise<(number | null)[]> {
+    const stmt = this.db.prepare(INSERT_SAMPLE_SQL);
+    const updateLatest = this.db.prepare(UPDATE_LATEST_SQL);
+
+    // 准备批量操作
+    const statements = dataArray.map((data) =>
+      stmt.bind(...sampleParams(data))
+    );
+    const latest = new Map<string, number>();
+    for (const data of dataArray) {
+      latest.set(
+        data.deviceId,
+        Math.max(latest.get(data.deviceId) ?? -Infinity, data.timestamp)
+      );
+    }
+    for (const [deviceId, timestamp] of latest) {
+      statements.push(updateLatest.bind(deviceId, timestamp));
+    }
+
+    // 执行批量操作
+    const results = await this.db.batch<{ id: number }>(statements);
+    return results
+      .slice(0, dataArray.length)
+      .map((result) =>
+        result.results.length > 0 ? result.results[0].id : null
+      );
+  }
+
+  // 分页查询样本：按 (timestamp, id) 排序，多取一条判断是否还有下一页
+  async querySamples(query: SampleQuery): Promise<SamplePage> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.deviceId) {
+      conditions.push("device_id = ?");
+      params.push(query.deviceId);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(query.startTime);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(query.endTime);
+    }
+    if (query.quality === "clean") {
+      conditions.push(CLEAN_SAMPLE_CONDITION);
+    } else if (query.quality === "flagged") {
+      conditions.push(`NOT ${CLEAN_SAMPLE_CONDITION}`);
+    }
+    if (query.flightMode !== undefined) {
+      conditions.push("flight_mode = ?");
+      params.push(query.flightMode);
+    }
+    if (query.armed !== undefined) {
+      conditions.push("armed = ?");
+      params.push(query.armed ? 1 : 0);
+    }
+    if (query.after) {
+      conditions.push(cursorCondition("timestamp", "id", query.order));
+      params.push(query.after.timestamp, query.after.timestamp, query.after.id);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    // 未指定列时附带原始坐标系、单位、扩展遥测和质量标记
+    const columns = projectFields(query.fields).map((field) =>
+      field === QUALITY_FLAGS_FIELD ? QUALITY_FLAGS_COLUMN : field
+    );
+    if (!query.fields || query.fields.length === 0) {
+      columns.push(...SOURCE_FIELDS, ...TELEMETRY_FIELDS, QUALITY_FLAGS_COLUMN);
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT ${columns.join(", ")} FROM unity_data
+      ${where}
+      ORDER BY timestamp ${direction}, id ${direction}
+      LIMIT ?
+    `);
+
+    const result = await stmt.bind(...params, query.limit + 1).all();
+    const rows = result.results as any[];
+    const hasMore = rows.length > query.limit;
+    const page = hasMore ? rows.slice(0, query.limit) : rows;
+    const last = page[page.length - 1];
+    return {
+      rows: page,
+      next: hasMore ? { timestamp: last.timestamp, id: last.id } : null,
+    };
+  }
+
+  // 查询各设备已有的最新时间戳，用于区分实时样本和补传的旧样本
+  async getLatestTimestamps(deviceIds: string[]): Promise<Map<string, number>> {
+    const latest = new Map<string, number>();
+    if (deviceIds.length === 0) {
+      return latest;
+    }
+    const stmt = this.db.prepare(`
+      SELECT MAX(timestamp) AS timestamp FROM unity_data WHERE device_id = ?
+    `);
+    // 每个设备单独走 idx_device_timestamp 索引
+    const results = await this.db.batch<{ timestamp: number | null }>(
+      deviceIds.map((deviceId) => stmt.bind(deviceId))
+    );
+    results.forEach((result, index) => {
+      const timestamp = result.results[0]?.timestamp;
+      if (timestamp !== null && timestamp !== undefined) {
+        latest.set(deviceIds[index], timestamp);
+      }
+    });
+    return latest;
+  }
+
+  // 查询设备在时间范围内已存在的时间戳，用于导入去重
+  async getExistingTimestamps(
+    deviceId: string,
+    startTime: number,
+    endTime: number
+  ): Promise<Set<number>> {
+    const stmt = this.db.prepare(`
+      SELECT timestamp FROM unity_data
+      WHERE device_id = ? AND timestamp >= ? AND timestamp <= ?
+    `);
+
+    const result = await stmt.bind(deviceId, startTime, endTime).all();
+    return new Set(
+      (result.results as { timestamp: number }[]).map((row) => row.timestamp)
+    );
+  }
+}
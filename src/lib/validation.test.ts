@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { validateUnityData } from "./validation";
+
+// 一条合法的 Unity 上报数据
+function unityPayload(overrides: Record<string, unknown> = {}) {
+  return {
+    deviceId: "drone-1",
+    formattedTime: "2024-01-01 00:00:00",
+    timestamp: 1704067200000,
+    latitude: 31.2,
+    longitude: 121.5,
+    pitch: 0,
+    yaw: 90,
+    roll: 0,
+    speed: 5,
+    velocity: { x: 3, y: 0, z: 4 },
+    horizontalSpeed: 5,
+    verticalSpeed: 0,
+    flightDirection: 90,
+    groundDistance: 10,
+    ...overrides,
+  };
+}
+
+function errorPaths(input: unknown): string[] {
+  const result = validateUnityData(input);
+  return result.valid ? [] : result.errors.map((error) => error.path);
+}
+
+describe("validateUnityData", () => {
+  it("接受合法数据并去掉 deviceId 和 formattedTime 两端的空白", () => {
+    const result = validateUnityData(
+      unityPayload({ deviceId: " drone-1 ", formattedTime: " 00:00:00 " })
+    );
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.data.deviceId).toBe("drone-1");
+    expect(result.data.formattedTime).toBe("00:00:00");
+    expect(result.data.latitude).toBe(31.2);
+  });
+
+  it("默认 Unity 坐标系和标准单位，速度向量转换为 ENU", () => {
+    const result = validateUnityData(unityPayload());
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.data.frame).toBe("unity");
+    expect(result.data.units).toEqual({
+      speed: "m/s",
+      distance: "m",
+      angle: "deg",
+    });
+    expect(result.data.velocity).toEqual({ x: 3, y: 4, z: 0 });
+  });
+
+  it("按声明的坐标系和单位换算为 ENU 和标准单位", () => {
+    const result = validateUnityData(
+      unityPayload({
+        frame: "ned",
+        units: { speed: "km/h", distance: "ft", angle: "rad" },
+        speed: 36,
+        velocity: { x: 36, y: 0, z: 0 },
+        groundDistance: 100,
+        yaw: Math.PI / 2,
+        flightDirection: Math.PI / 2,
+      })
+    );
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.data.speed).toBeCloseTo(10);
+    expect(result.data.groundDistance).toBeCloseTo(30.48);
+    expect(result.data.yaw).toBeCloseTo(90);
+    expect(result.data.velocity.x).toBeCloseTo(0);
+    expect(result.data.velocity.y).toBeCloseTo(10);
+  });
+
+  it("按声明的单位检查范围，拒绝未知的坐标系和单位", () => {
+    // 角度上限 360° 约合 6.28 rad
+    expect(
+      errorPaths(
+        unityPayload({ units: { angle: "rad" }, yaw: 7, flightDirection: 0 })
+      )
+    ).toEqual(["yaw"]);
+    expect(
+      errorPaths(unityPayload({ frame: "ecef", units: { speed: "mph" } }))
+    ).toEqual(["frame", "units.speed"]);
+    expect(errorPaths(unityPayload({ units: "m/s" }))).toEqual(["units"]);
+  });
+
+  it("拒绝非对象的请求体", () => {
+    expect(errorPaths(null)).toEqual([""]);
+    expect(errorPaths("drone-1")).toEqual([""]);
+    expect(errorPaths([unityPayload()])).toEqual([""]);
+  });
+
+  it("一次报告所有缺失和类型错误的字段", () => {
+    const payload: Record<string, unknown> = unityPayload({
+      velocity: { x: 0, y: "1", z: 0 },
+    });
+    delete payload.deviceId;
+    delete payload.latitude;
+    expect(errorPaths(payload)).toEqual(["deviceId", "latitude", "velocity.y"]);
+  });
+
+  it("拒绝空字符串、NaN 和超出范围的数值", () => {
+    expect(errorPaths(unityPayload({ deviceId: "  " }))).toEqual(["deviceId"]);
+    expect(errorPaths(unityPayload({ latitude: 91 }))).toEqual(["latitude"]);
+    expect(errorPaths(unityPayload({ longitude: NaN }))).toEqual(["longitude"]);
+    expect(errorPaths(unityPayload({ speed: -1 }))).toEqual(["speed"]);
+  });
+
+  it("拒绝非整数的时间戳", () => {
+    expect(errorPaths(unityPayload({ timestamp: 1.5 }))).toEqual(["timestamp"]);
+    expect(errorPaths(unityPayload({ timestamp: 0 }))).toEqual(["timestamp"]);
+  });
+
+  it("接受可选的扩展遥测通道，缺省或为 null 时省略", () => {
+    const result = validateUnityData(
+      unityPayload({
+        batteryPercent: 80,
+        gpsSatellites: 12,
+        rssi: null,
+        flightMode: " LOITER ",
+        armed: true,
+        extras: { motorTemp: 45.5, gear: "down", lights: false },
+      })
+    );
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.data).toMatchObject({
+      batteryPercent: 80,
+      gpsSatellites: 12,
+      flightMode: "LOITER",
+      armed: true,
+      extras: { motorTemp: 45.5, gear: "down", lights: false },
+    });
+    expect(result.data.rssi).toBeUndefined();
+    expect(result.data.batteryVoltage).toBeUndefined();
+  });
+
+  it("拒绝超出范围或类型错误的扩展通道", () => {
+    expect(
+      errorPaths(
+        unityPayload({
+          batteryPercent: 120,
+          gpsSatellites: 7.5,
+          armed: "yes",
+          extras: { "1bad": 1, ok: { nested: true }, nan: NaN },
+        })
+      )
+    ).toEqual([
+      "batteryPercent",
+      "gpsSatellites",
+      "armed",
+      "extras.1bad",
+      "extras.ok",
+      "extras.nan",
+    ]);
+  });
+});
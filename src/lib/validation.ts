@@ -0,0 +1,1046 @@
+import {
+  AlertRuleInput,
+  CoordinateFrame,
+  DeviceCommandInput,
+  DeviceCommandParams,
+  DeviceInput,
+  FieldError,
+  GeofenceInput,
+  MissionInput,
+  MissionWaypoint,
+  TelemetryChannels,
+  TelemetryExtraValue,
+  TelemetryUnits,
+  UnityData,
+  ValidationResult,
+  WebhookInput,
+} from "../types";
+import { ALERT_FIELDS } from "./alerts";
+import { WEBHOOK_EVENTS } from "./webhooks";
+import {
+  COMMAND_TYPES,
+  DEFAULT_COMMAND_TIMEOUT_MS,
+  MAX_COMMAND_TIMEOUT_MS,
+} from "./commands";
+import { DEFAULT_ACCEPTANCE_RADIUS, MAX_MISSION_WAYPOINTS } from "./missions";
+import {
+  CANONICAL_UNITS,
+  COORDINATE_FRAMES,
+  toEnu,
+  UNIT_FACTORS,
+} from "./units";
+
+// deviceId 最大长度
+const MAX_DEVICE_ID_LENGTH = 128;
+// JavaScript Date 可表示的最大毫秒时间戳
+const MAX_TIMESTAMP = 8.64e15;
+
+// 数值字段的取值范围
+interface NumberRule {
+  min?: number;
+  max?: number;
+}
+
+// 角度统一使用度数，允许 Unity 欧拉角的 0~360 以及 -180~180 两种表示
+const ANGLE_RULE: NumberRule = { min: -360, max: 360 };
+
+const NUMBER_FIELDS: Record<string, NumberRule> = {
+  latitude: { min: -90, max: 90 },
+  longitude: { min: -180, max: 180 },
+  pitch: ANGLE_RULE,
+  yaw: ANGLE_RULE,
+  roll: ANGLE_RULE,
+  speed: { min: 0 },
+  horizontalSpeed: { min: 0 },
+  verticalSpeed: {},
+  flightDirection: ANGLE_RULE,
+  groundDistance: {},
+};
+
+// 需要按声明单位换算的字段；范围规则按标准单位给出
+const FIELD_QUANTITIES: Record<string, keyof TelemetryUnits> = {
+  pitch: "angle",
+  yaw: "angle",
+  roll: "angle",
+  speed: "speed",
+  horizontalSpeed: "speed",
+  verticalSpeed: "speed",
+  flightDirection: "angle",
+  groundDistance: "distance",
+};
+
+const VELOCITY_AXES = ["x", "y", "z"] as const;
+
+// 扩展遥测通道中数值通道的取值范围
+const CHANNEL_RULES = {
+  batteryVoltage: { min: 0, max: 100 },
+  batteryPercent: { min: 0, max: 100 },
+  gpsSatellites: { min: 0, max: 255 },
+  gpsHdop: { min: 0, max: 100 },
+  rssi: { min: -200, max: 0 },
+};
+
+// flightMode 最大长度
+const MAX_FLIGHT_MODE_LENGTH = 32;
+
+// extras 的键数量、键格式和字符串值长度限制
+const MAX_EXTRAS = 32;
+const EXTRA_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,63}$/;
+const MAX_EXTRA_STRING_LENGTH = 256;
+
+// 把标准单位的范围规则换算为原始单位，使错误信息中的上下限与上报的数值一致
+function scaleRule(rule: NumberRule, factor: number): NumberRule {
+  return {
+    min: rule.min !== undefined ? rule.min / factor : undefined,
+    max: rule.max !== undefined ? rule.max / factor : undefined,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 校验单个数值字段，失败时把错误追加到 errors 中
+function checkNumber(
+  value: unknown,
+  path: string,
+  rule: NumberRule,
+  errors: FieldError[]
+): number {
+  if (value === undefined || value === null) {
+    errors.push({ path, message: "is required" });
+    return NaN;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push({ path, message: "must be a finite number" });
+    return NaN;
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    errors.push({ path, message: `must be >= ${rule.min}` });
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    errors.push({ path, message: `must be <= ${rule.max}` });
+  }
+  return value;
+}
+
+// 校验可选数值通道，未上报或为 null 时返回 undefined
+function checkOptionalNumber(
+  value: unknown,
+  path: string,
+  rule: NumberRule,
+  errors: FieldError[]
+): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return checkNumber(value, path, rule, errors);
+}
+
+// 校验扩展遥测通道
+function validateChannels(
+  input: Record<string, unknown>,
+  errors: FieldError[]
+): TelemetryChannels {
+  const channels: TelemetryChannels = {
+    batteryVoltage: checkOptionalNumber(
+      input.batteryVoltage,
+      "batteryVoltage",
+      CHANNEL_RULES.batteryVoltage,
+      errors
+    ),
+    batteryPercent: checkOptionalNumber(
+      input.batteryPercent,
+      "batteryPercent",
+      CHANNEL_RULES.batteryPercent,
+      errors
+    ),
+    gpsSatellites: checkOptionalNumber(
+      input.gpsSatellites,
+      "gpsSatellites",
+      CHANNEL_RULES.gpsSatellites,
+      errors
+    ),
+    gpsHdop: checkOptionalNumber(
+      input.gpsHdop,
+      "gpsHdop",
+      CHANNEL_RULES.gpsHdop,
+      errors
+    ),
+    rssi: checkOptionalNumber(input.rssi, "rssi", CHANNEL_RULES.rssi, errors),
+  };
+  if (
+    channels.gpsSatellites !== undefined &&
+    Number.isFinite(channels.gpsSatellites) &&
+    !Number.isInteger(channels.gpsSatellites)
+  ) {
+    errors.push({ path: "gpsSatellites", message: "must be an integer" });
+  }
+
+  if (input.flightMode !== undefined && input.flightMode !== null) {
+    if (typeof input.flightMode !== "string") {
+      errors.push({ path: "flightMode", message: "must be a string" });
+    } else if (input.flightMode.trim().length > MAX_FLIGHT_MODE_LENGTH) {
+      errors.push({
+        path: "flightMode",
+        message: `must be at most ${MAX_FLIGHT_MODE_LENGTH} characters`,
+      });
+    } else if (input.flightMode.trim()) {
+      channels.flightMode = input.flightMode.trim();
+    }
+  }
+
+  if (input.armed !== undefined && input.armed !== null) {
+    if (typeof input.armed !== "boolean") {
+      errors.push({ path: "armed", message: "must be a boolean" });
+    } else {
+      channels.armed = input.armed;
+    }
+  }
+
+  if (input.extras !== undefined && input.extras !== null) {
+    channels.extras = validateExtras(input.extras, errors);
+  }
+
+  return channels;
+}
+
+// 校验自定义遥测：键为字母开头的字母、数字和下划线，值为有限数值、字符串或布尔值
+function validateExtras(
+  value: unknown,
+  errors: FieldError[]
+): Record<string, TelemetryExtraValue> | undefined {
+  if (!isPlainObject(value)) {
+    errors.push({ path: "extras", message: "must be an object" });
+    return undefined;
+  }
+  const entries = Object.entries(value);
+  if (entries.length > MAX_EXTRAS) {
+    errors.push({
+      path: "extras",
+      message: `must have at most ${MAX_EXTRAS} keys`,
+    });
+    return undefined;
+  }
+
+  const extras: Record<string, TelemetryExtraValue> = {};
+  for (const [key, item] of entries) {
+    const path = `extras.${key}`;
+    if (!EXTRA_KEY_PATTERN.test(key)) {
+      errors.push({
+        path,
+        message:
+          "key must start with a letter and contain only letters, digits and underscores (max 64)",
+      });
+    } else if (typeof item === "number") {
+      if (Number.isFinite(item)) {
+        extras[key] = item;
+      } else {
+        errors.push({ path, message: "must be a finite number" });
+      }
+    } else if (typeof item === "string") {
+      if (item.length > MAX_EXTRA_STRING_LENGTH) {
+        errors.push({
+          path,
+          message: `must be at most ${MAX_EXTRA_STRING_LENGTH} characters`,
+        });
+      } else {
+        extras[key] = item;
+      }
+    } else if (typeof item === "boolean") {
+      extras[key] = item;
+    } else {
+      errors.push({
+        path,
+        message: "must be a number, string or boolean",
+      });
+    }
+  }
+  return entries.length > 0 ? extras : undefined;
+}
+
+// 校验并清洗 UnityData：检查类型、范围和必填字段，
+// 通过时返回只包含已知字段的新对象，失败时列出所有出错的字段路径。
+// 可选的 frame（默认 unity）和 units（默认 m/s、m、度）声明上报数据的坐标系和单位，
+// 通过后的数据已换算为 ENU 和标准单位。姿态角和 flightDirection 不随坐标系转换，
+// 始终按航空惯例（偏航、航向自正北顺时针）上报；verticalSpeed 始终以向上为正。
+// 电池、定位、链路、飞行模式等扩展遥测和 extras 均为可选，不做单位换算
+export function validateUnityData(input: unknown): ValidationResult {
+  if (!isPlainObject(input)) {
+    return {
+      valid: false,
+      errors: [{ path: "", message: "must be a JSON object" }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+
+  // deviceId
+  let deviceId = "";
+  if (typeof input.deviceId !== "string") {
+    errors.push({
+      path: "deviceId",
+      message:
+        input.deviceId === undefined ? "is required" : "must be a string",
+    });
+  } else {
+    deviceId = input.deviceId.trim();
+    if (deviceId === "") {
+      errors.push({ path: "deviceId", message: "must not be empty" });
+    } else if (deviceId.length > MAX_DEVICE_ID_LENGTH) {
+      errors.push({
+        path: "deviceId",
+        message: `must be at most ${MAX_DEVICE_ID_LENGTH} characters`,
+      });
+    }
+  }
+
+  // timestamp：毫秒级时间戳
+  const timestamp = checkNumber(
+    input.timestamp,
+    "timestamp",
+    { min: 1, max: MAX_TIMESTAMP },
+    errors
+  );
+  if (Number.isFinite(timestamp) && !Number.isInteger(timestamp)) {
+    errors.push({ path: "timestamp", message: "must be an integer" });
+  }
+
+  // formattedTime
+  let formattedTime = "";
+  if (typeof input.formattedTime !== "string") {
+    errors.push({
+      path: "formattedTime",
+      message:
+        input.formattedTime === undefined ? "is required" : "must be a string",
+    });
+  } else {
+    formattedTime = input.formattedTime.trim();
+    if (formattedTime === "") {
+      errors.push({ path: "formattedTime", message: "must not be empty" });
+    }
+  }
+
+  // frame：上报数据的坐标系
+  let frame: CoordinateFrame = "unity";
+  if (input.frame !== undefined) {
+    const known = COORDINATE_FRAMES.find((f) => f === input.frame);
+    if (!known) {
+      errors.push({
+        path: "frame",
+        message: `must be one of ${COORDINATE_FRAMES.join(", ")}`,
+      });
+    } else {
+      frame = known;
+    }
+  }
+
+  // units：各物理量的单位，未声明的使用标准单位
+  const declared: Partial<Record<keyof TelemetryUnits, string>> = {};
+  if (input.units !== undefined) {
+    if (!isPlainObject(input.units)) {
+      errors.push({ path: "units", message: "must be an object" });
+    } else {
+      for (const quantity of Object.keys(UNIT_FACTORS) as Array<
+        keyof TelemetryUnits
+      >) {
+        const value = input.units[quantity];
+        if (value === undefined) continue;
+        const options = Object.keys(UNIT_FACTORS[quantity]);
+        if (typeof value !== "string" || !options.includes(value)) {
+          errors.push({
+            path: `units.${quantity}`,
+            message: `must be one of ${options.join(", ")}`,
+          });
+        } else {
+          declared[quantity] = value;
+        }
+      }
+    }
+  }
+  const units = { ...CANONICAL_UNITS, ...declared } as TelemetryUnits;
+  const factorOf = (quantity: keyof TelemetryUnits) =>
+    (UNIT_FACTORS[quantity] as Record<string, number>)[units[quantity]];
+
+  // 普通数值字段，按声明的单位校验范围后换算为标准单位
+  const numbers: Record<string, number> = {};
+  for (const [field, rule] of Object.entries(NUMBER_FIELDS)) {
+    const quantity = FIELD_QUANTITIES[field];
+    const factor = quantity ? factorOf(quantity) : 1;
+    numbers[field] =
+      checkNumber(input[field], field, scaleRule(rule, factor), errors) *
+      factor;
+  }
+
+  // velocity 向量
+  const velocity = { x: NaN, y: NaN, z: NaN };
+  if (!isPlainObject(input.velocity)) {
+    errors.push({
+      path: "velocity",
+      message:
+        input.velocity === undefined ? "is required" : "must be an object",
+    });
+  } else {
+    for (const axis of VELOCITY_AXES) {
+      velocity[axis] = checkNumber(
+        input.velocity[axis],
+        `velocity.${axis}`,
+        {},
+        errors
+      );
+    }
+  }
+
+  const channels = validateChannels(input, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const speedFactor = factorOf("speed");
+  const enuVelocity = toEnu(frame, {
+    x: velocity.x * speedFactor,
+    y: velocity.y * speedFactor,
+    z: velocity.z * speedFactor,
+  });
+
+  const data: UnityData = {
+    deviceId,
+    formattedTime,
+    timestamp,
+    latitude: numbers.latitude,
+    longitude: numbers.longitude,
+    pitch: numbers.pitch,
+    yaw: numbers.yaw,
+    roll: numbers.roll,
+    speed: numbers.speed,
+    velocity: enuVelocity,
+    horizontalSpeed: numbers.horizontalSpeed,
+    verticalSpeed: numbers.verticalSpeed,
+    flightDirection: numbers.flightDirection,
+    groundDistance: numbers.groundDistance,
+    frame,
+    units,
+    ...channels,
+  };
+
+  return { valid: true, data };
+}
+
+// 设备文本字段的最大长度
+const DEVICE_TEXT_LIMITS: Record<"name" | "model" | "owner" | "notes", number> =
+  {
+    name: 64,
+    model: 64,
+    owner: 64,
+    notes: 1000,
+  };
+
+// 校验设备注册信息，返回清洗后的字段和错误列表
+export function validateDeviceInput(input: unknown): {
+  data: DeviceInput;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+  const data: DeviceInput = {};
+
+  if (!isPlainObject(input)) {
+    return { data, errors: [{ path: "", message: "must be a JSON object" }] };
+  }
+
+  for (const field of Object.keys(DEVICE_TEXT_LIMITS) as Array<
+    keyof typeof DEVICE_TEXT_LIMITS
+  >) {
+    const limit = DEVICE_TEXT_LIMITS[field];
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value === null) {
+      data[field] = null;
+    } else if (typeof value !== "string") {
+      errors.push({ path: field, message: "must be a string" });
+    } else if (value.trim().length > limit) {
+      errors.push({
+        path: field,
+        message: `must be at most ${limit} characters`,
+      });
+    } else {
+      // 空字符串视为清空
+      data[field] = value.trim() || null;
+    }
+  }
+
+  if (input.color !== undefined) {
+    if (input.color === null || input.color === "") {
+      data.color = null;
+    } else if (
+      typeof input.color !== "string" ||
+      !/^#[0-9a-fA-F]{6}$/.test(input.color)
+    ) {
+      errors.push({
+        path: "color",
+        message: "must be a hex colour like #2563eb",
+      });
+    } else {
+      data.color = input.color.toLowerCase();
+    }
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") {
+      errors.push({ path: "enabled", message: "must be a boolean" });
+    } else {
+      data.enabled = input.enabled;
+    }
+  }
+
+  return { data, errors };
+}
+
+// 围栏名称最大长度与多边形顶点数量上限
+const MAX_GEOFENCE_NAME_LENGTH = 64;
+const MAX_POLYGON_VERTICES = 500;
+
+const GEOFENCE_SHAPES = ["polygon", "circle"] as const;
+const GEOFENCE_MODES = ["restricted", "allowed", "ceiling"] as const;
+
+// 校验 [纬度, 经度] 坐标对
+function checkCoordinate(
+  value: unknown,
+  path: string,
+  errors: FieldError[]
+): [number, number] {
+  if (!Array.isArray(value) || value.length !== 2) {
+    errors.push({ path, message: "must be a [latitude, longitude] pair" });
+    return [NaN, NaN];
+  }
+  return [
+    checkNumber(value[0], `${path}[0]`, NUMBER_FIELDS.latitude, errors),
+    checkNumber(value[1], `${path}[1]`, NUMBER_FIELDS.longitude, errors),
+  ];
+}
+
+// 校验完整的地理围栏定义（PATCH 时先与已有围栏合并再整体校验）
+export function validateGeofenceInput(input: unknown): {
+  data: GeofenceInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isPlainObject(input)) {
+    return {
+      data: null,
+      errors: [{ path: "", message: "must be a JSON object" }],
+    };
+  }
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    errors.push({ path: "name", message: "is required" });
+  } else if (name.length > MAX_GEOFENCE_NAME_LENGTH) {
+    errors.push({
+      path: "name",
+      message: `must be at most ${MAX_GEOFENCE_NAME_LENGTH} characters`,
+    });
+  }
+
+  const shape = GEOFENCE_SHAPES.find((s) => s === input.shape);
+  if (!shape) {
+    errors.push({
+      path: "shape",
+      message: `must be one of ${GEOFENCE_SHAPES.join(", ")}`,
+    });
+  }
+
+  const mode = GEOFENCE_MODES.find((m) => m === input.mode);
+  if (!mode) {
+    errors.push({
+      path: "mode",
+      message: `must be one of ${GEOFENCE_MODES.join(", ")}`,
+    });
+  }
+
+  let polygon: [number, number][] | null = null;
+  let center: [number, number] | null = null;
+  let radius: number | null = null;
+
+  if (shape === "polygon") {
+    if (!Array.isArray(input.polygon) || input.polygon.length < 3) {
+      errors.push({
+        path: "polygon",
+        message: "must have at least 3 vertices",
+      });
+    } else if (input.polygon.length > MAX_POLYGON_VERTICES) {
+      errors.push({
+        path: "polygon",
+        message: `must have at most ${MAX_POLYGON_VERTICES} vertices`,
+      });
+    } else {
+      polygon = input.polygon.map((point, index) =>
+        checkCoordinate(point, `polygon[${index}]`, errors)
+      );
+    }
+  } else if (shape === "circle") {
+    center = checkCoordinate(input.center, "center", errors);
+    radius = checkNumber(input.radius, "radius", { min: 0 }, errors);
+    if (radius === 0) {
+      errors.push({ path: "radius", message: "must be > 0" });
+    }
+  }
+
+  let maxAltitude: number | null = null;
+  if (input.maxAltitude !== undefined && input.maxAltitude !== null) {
+    maxAltitude = checkNumber(input.maxAltitude, "maxAltitude", {}, errors);
+  } else if (mode === "ceiling") {
+    errors.push({
+      path: "maxAltitude",
+      message: "is required for ceiling mode",
+    });
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    errors.push({ path: "enabled", message: "must be a boolean" });
+  }
+
+  if (errors.length > 0 || !shape || !mode) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      name,
+      shape,
+      mode,
+      polygon,
+      center,
+      radius,
+      maxAltitude,
+      enabled: input.enabled !== false,
+    },
+    errors,
+  };
+}
+
+const ALERT_RULE_KINDS = ["threshold", "rate", "no_data"] as const;
+const ALERT_OPERATORS = ["<", "<=", ">", ">="] as const;
+const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+
+// 解析条件表达式，如 "vertical_speed < -5"、"abs(roll) > 45"、"rate(ground_distance) < -3"
+function parseAlertCondition(condition: string) {
+  const match = /^(.+?)\s*(<=|>=|<|>)\s*(-?\d+(?:\.\d+)?)$/.exec(
+    condition.trim()
+  );
+  if (!match) {
+    return null;
+  }
+  let expression = match[1].trim();
+  let absolute = false;
+  let rate = false;
+  let wrapper: RegExpExecArray | null;
+  while ((wrapper = /^(abs|rate)\s*\((.*)\)$/.exec(expression))) {
+    if (wrapper[1] === "abs") absolute = true;
+    else rate = true;
+    expression = wrapper[2].trim();
+  }
+  return {
+    field: expression,
+    absolute,
+    rate,
+    operator: match[2],
+    threshold: parseFloat(match[3]),
+  };
+}
+
+// 校验完整的告警规则（PATCH 时先与已有规则合并再整体校验）；
+// 可以用 condition 表达式代替 field/absolute/operator/threshold
+export function validateAlertRuleInput(input: unknown): {
+  data: AlertRuleInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isPlainObject(input)) {
+    return {
+      data: null,
+      errors: [{ path: "", message: "must be a JSON object" }],
+    };
+  }
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    errors.push({ path: "name", message: "is required" });
+  } else if (name.length > 64) {
+    errors.push({ path: "name", message: "must be at most 64 characters" });
+  }
+
+  let kind = ALERT_RULE_KINDS.find((k) => k === (input.kind ?? "threshold"));
+  let field = input.field;
+  let absolute = input.absolute ?? false;
+  let operator = input.operator;
+  let threshold = input.threshold;
+
+  if (input.condition !== undefined) {
+    const parsed =
+      typeof input.condition === "string"
+        ? parseAlertCondition(input.condition)
+        : null;
+    if (!parsed) {
+      errors.push({
+        path: "condition",
+        message:
+          "must look like 'field > 10', 'abs(field) > 10' or 'rate(field) < -3'",
+      });
+    } else if (kind === "no_data") {
+      errors.push({
+        path: "condition",
+        message: "is not allowed for no_data rules",
+      });
+    } else {
+      kind = parsed.rate ? "rate" : "threshold";
+      ({ field, absolute, operator, threshold } = parsed);
+    }
+  }
+
+  if (!kind) {
+    errors.push({
+      path: "kind",
+      message: `must be one of ${ALERT_RULE_KINDS.join(", ")}`,
+    });
+  }
+
+  const durationMs = input.durationMs ?? 0;
+  if (
+    typeof durationMs !== "number" ||
+    !Number.isInteger(durationMs) ||
+    durationMs < 0
+  ) {
+    errors.push({
+      path: "durationMs",
+      message: "must be a non-negative integer",
+    });
+  } else if (kind === "no_data" && durationMs === 0) {
+    errors.push({
+      path: "durationMs",
+      message: "must be > 0 for no_data rules",
+    });
+  }
+
+  const conditionRule = kind === "threshold" || kind === "rate";
+  if (conditionRule) {
+    if (typeof field !== "string" || !(field in ALERT_FIELDS)) {
+      errors.push({
+        path: "field",
+        message: `must be one of ${Object.keys(ALERT_FIELDS).join(", ")}`,
+      });
+    }
+    if (typeof absolute !== "boolean") {
+      errors.push({ path: "absolute", message: "must be a boolean" });
+    }
+    if (!ALERT_OPERATORS.some((o) => o === operator)) {
+      errors.push({
+        path: "operator",
+        message: `must be one of ${ALERT_OPERATORS.join(", ")}`,
+      });
+    }
+    checkNumber(threshold, "threshold", {}, errors);
+  }
+
+  let deviceId: string | null = null;
+  if (input.deviceId !== undefined && input.deviceId !== null) {
+    if (typeof input.deviceId !== "string") {
+      errors.push({ path: "deviceId", message: "must be a string" });
+    } else if (input.deviceId.trim().length > MAX_DEVICE_ID_LENGTH) {
+      errors.push({
+        path: "deviceId",
+        message: `must be at most ${MAX_DEVICE_ID_LENGTH} characters`,
+      });
+    } else {
+      deviceId = input.deviceId.trim() || null;
+    }
+  }
+
+  const severity = ALERT_SEVERITIES.find(
+    (s) => s === (input.severity ?? "warning")
+  );
+  if (!severity) {
+    errors.push({
+      path: "severity",
+      message: `must be one of ${ALERT_SEVERITIES.join(", ")}`,
+    });
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    errors.push({ path: "enabled", message: "must be a boolean" });
+  }
+
+  if (errors.length > 0 || !kind || !severity) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      name,
+      kind,
+      field: conditionRule ? (field as string) : null,
+      absolute: conditionRule ? (absolute as boolean) : false,
+      operator: conditionRule
+        ? ALERT_OPERATORS.find((o) => o === operator)!
+        : null,
+      threshold: conditionRule ? (threshold as number) : null,
+      durationMs: durationMs as number,
+      deviceId,
+      severity,
+      enabled: input.enabled !== false,
+    },
+    errors,
+  };
+}
+
+// Webhook 地址最大长度
+const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+// 校验完整的 Webhook 订阅（PATCH 时先与已有订阅合并再整体校验）
+export function validateWebhookInput(input: unknown): {
+  data: WebhookInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isPlainObject(input)) {
+    return {
+      data: null,
+      errors: [{ path: "", message: "must be a JSON object" }],
+    };
+  }
+
+  const url = typeof input.url === "string" ? input.url.trim() : "";
+  if (!url) {
+    errors.push({ path: "url", message: "is required" });
+  } else if (url.length > MAX_WEBHOOK_URL_LENGTH) {
+    errors.push({
+      path: "url",
+      message: `must be at most ${MAX_WEBHOOK_URL_LENGTH} characters`,
+    });
+  } else if (!/^https?:\/\/[^\s]+$/i.test(url) || !URL.canParse(url)) {
+    errors.push({ path: "url", message: "must be an http(s) URL" });
+  }
+
+  const events: WebhookInput["events"] = [];
+  if (!Array.isArray(input.events) || input.events.length === 0) {
+    errors.push({ path: "events", message: "must be a non-empty array" });
+  } else {
+    input.events.forEach((event, index) => {
+      const known = WEBHOOK_EVENTS.find((e) => e === event);
+      if (!known) {
+        errors.push({
+          path: `events[${index}]`,
+          message: `must be one of ${WEBHOOK_EVENTS.join(", ")}`,
+        });
+      } else if (!events.includes(known)) {
+        events.push(known);
+      }
+    });
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    errors.push({ path: "enabled", message: "must be a boolean" });
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: { url, events, enabled: input.enabled !== false },
+    errors,
+  };
+}
+
+// 下发命令的最短等待时间（毫秒）
+const MIN_COMMAND_TIMEOUT_MS = 1000;
+
+// 校验操作员下发的命令：goto 需要目标位置（可选高度和速度），set_speed 需要速度，
+// 其他命令没有参数
+export function validateCommandInput(input: unknown): {
+  data: DeviceCommandInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isPlainObject(input)) {
+    return {
+      data: null,
+      errors: [{ path: "", message: "must be a JSON object" }],
+    };
+  }
+
+  const deviceId =
+    typeof input.deviceId === "string" ? input.deviceId.trim() : "";
+  if (!deviceId) {
+    errors.push({ path: "deviceId", message: "is required" });
+  } else if (deviceId.length > MAX_DEVICE_ID_LENGTH) {
+    errors.push({
+      path: "deviceId",
+      message: `must be at most ${MAX_DEVICE_ID_LENGTH} characters`,
+    });
+  }
+
+  const type = COMMAND_TYPES.find((t) => t === input.type);
+  if (!type) {
+    errors.push({
+      path: "type",
+      message: `must be one of ${COMMAND_TYPES.join(", ")}`,
+    });
+  }
+
+  const params = isPlainObject(input.params) ? input.params : {};
+  if (input.params !== undefined && !isPlainObject(input.params)) {
+    errors.push({ path: "params", message: "must be an object" });
+  }
+  let commandParams: DeviceCommandParams | null = null;
+  if (type === "goto") {
+    const latitude = checkNumber(
+      params.latitude,
+      "params.latitude",
+      NUMBER_FIELDS.latitude,
+      errors
+    );
+    const longitude = checkNumber(
+      params.longitude,
+      "params.longitude",
+      NUMBER_FIELDS.longitude,
+      errors
+    );
+    const altitude = checkOptionalNumber(
+      params.altitude,
+      "params.altitude",
+      {},
+      errors
+    );
+    const speed = checkOptionalNumber(
+      params.speed,
+      "params.speed",
+      { min: 0 },
+      errors
+    );
+    commandParams = { latitude, longitude, altitude, speed };
+  } else if (type === "set_speed") {
+    commandParams = {
+      speed: checkNumber(params.speed, "params.speed", { min: 0 }, errors),
+    };
+  }
+
+  const timeoutMs = input.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+  if (
+    typeof timeoutMs !== "number" ||
+    !Number.isInteger(timeoutMs) ||
+    timeoutMs < MIN_COMMAND_TIMEOUT_MS ||
+    timeoutMs > MAX_COMMAND_TIMEOUT_MS
+  ) {
+    errors.push({
+      path: "timeoutMs",
+      message: `must be an integer between ${MIN_COMMAND_TIMEOUT_MS} and ${MAX_COMMAND_TIMEOUT_MS}`,
+    });
+  }
+
+  if (errors.length > 0 || !type) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      deviceId,
+      type,
+      params: commandParams,
+      timeoutMs: timeoutMs as number,
+    },
+    errors,
+  };
+}
+
+// 任务名称最大长度
+const MAX_MISSION_NAME_LENGTH = 64;
+
+// 校验完整的航线任务定义（PATCH 时先与已有任务合并再整体校验）
+export function validateMissionInput(input: unknown): {
+  data: MissionInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isPlainObject(input)) {
+    return {
+      data: null,
+      errors: [{ path: "", message: "must be a JSON object" }],
+    };
+  }
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    errors.push({ path: "name", message: "is required" });
+  } else if (name.length > MAX_MISSION_NAME_LENGTH) {
+    errors.push({
+      path: "name",
+      message: `must be at most ${MAX_MISSION_NAME_LENGTH} characters`,
+    });
+  }
+
+  const waypoints: MissionWaypoint[] = [];
+  if (!Array.isArray(input.waypoints) || input.waypoints.length === 0) {
+    errors.push({
+      path: "waypoints",
+      message: "must have at least 1 waypoint",
+    });
+  } else if (input.waypoints.length > MAX_MISSION_WAYPOINTS) {
+    errors.push({
+      path: "waypoints",
+      message: `must have at most ${MAX_MISSION_WAYPOINTS} waypoints`,
+    });
+  } else {
+    input.waypoints.forEach((point: unknown, index: number) => {
+      const path = `waypoints[${index}]`;
+      if (!isPlainObject(point)) {
+        errors.push({ path, message: "must be an object" });
+        return;
+      }
+      const waypoint: MissionWaypoint = {
+        latitude: checkNumber(
+          point.latitude,
+          `${path}.latitude`,
+          NUMBER_FIELDS.latitude,
+          errors
+        ),
+        longitude: checkNumber(
+          point.longitude,
+          `${path}.longitude`,
+          NUMBER_FIELDS.longitude,
+          errors
+        ),
+        altitude: checkNumber(point.altitude, `${path}.altitude`, {}, errors),
+        speed: checkNumber(point.speed, `${path}.speed`, { min: 0 }, errors),
+      };
+      if (waypoint.speed === 0) {
+        errors.push({ path: `${path}.speed`, message: "must be > 0" });
+      }
+      waypoints.push(waypoint);
+    });
+  }
+
+  let acceptanceRadius = DEFAULT_ACCEPTANCE_RADIUS;
+  if (input.acceptanceRadius !== undefined && input.acceptanceRadius !== null) {
+    acceptanceRadius = checkNumber(
+      input.acceptanceRadius,
+      "acceptanceRadius",
+      { min: 0 },
+      errors
+    );
+    if (acceptanceRadius === 0) {
+      errors.push({ path: "acceptanceRadius", message: "must be > 0" });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return { data: { name, waypoints, acceptanceRadius }, errors };
+}
@@ -0,0 +1,435 @@
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookInput,
+} from "../types";
+import { DeviceStore } from "./devices";
+import { getErrorMessage } from "./cloudflare";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "device.started",
+  "device.stopped",
+  "ingestion.rejected",
+  "webhook.test",
+];
+
+// 投递重试策略：第 n 次失败后等待 BASE × 2^(n-1)，最多 MAX_ATTEMPTS 次
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// 单次请求超时
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// 每次定时任务最多重试的投递数
+const RETRY_BATCH_SIZE = 50;
+// 投递日志中保存的错误信息最大长度
+const MAX_ERROR_LENGTH = 500;
+
+// IN 查询每批的设备数
+const DEVICE_ID_CHUNK_SIZE = 50;
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// 生成随机签名密钥（32 字节，十六进制）
+export function generateWebhookSecret(): string {
+  return "whsec_" + toHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+}
+
+// 签名：HMAC-SHA256(secret, `${timestamp}.${body}`)，接收方用同样的方式校验
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${timestamp}.${body}`)
+  );
+  return toHex(signature);
+}
+
+// 第 attempts 次失败后的重试延迟
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+function rowToWebhook(row: any): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events || "[]"),
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    payload: JSON.parse(row.payload),
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+  };
+}
+
+export interface DeliveryQuery {
+  webhookId?: number;
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}
+
+// 待投递的记录（附带目标地址和密钥）
+interface PendingDelivery {
+  id: number;
+  url: string;
+  secret: string;
+  event: WebhookEvent;
+  payload: string;
+  attempts: number;
+}
+
+// Webhook 订阅、投递和设备上报状态的 D1 操作类
+export class WebhookStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    const result = await this.db
+      .prepare(`SELECT * FROM webhooks ORDER BY id ASC`)
+      .all();
+    return (result.results as any[]).map(rowToWebhook);
+  }
+
+  async getWebhook(id: number): Promise<Webhook | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM webhooks WHERE id = ?`)
+      .bind(id)
+      .first();
+    return row ? rowToWebhook(row) : null;
+  }
+
+  async createWebhook(
+    input: WebhookInput,
+    secret: string
+  ): Promise<Webhook | null> {
+    const row = await this.db
+      .prepare(
+        `
+      INSERT INTO webhooks (url, secret, events, enabled)
+      VALUES (?, ?, ?, ?)
+      RETURNING *
+    `
+      )
+      .bind(
+        input.url,
+        secret,
+        JSON.stringify(input.events),
+        input.enabled ? 1 : 0
+      )
+      .first();
+    return row ? rowToWebhook(row) : null;
+  }
+
+  async updateWebhook(
+    id: number,
+    input: WebhookInput
+  ): Promise<Webhook | null> {
+    const row = await this.db
+      .prepare(
+        `
+      UPDATE webhooks SET
+        url = ?, events = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+      RETURNING *
+    `
+      )
+      .bind(input.url, JSON.stringify(input.events), input.enabled ? 1 : 0, id)
+      .first();
+    return row ? rowToWebhook(row) : null;
+  }
+
+  // 删除 Webhook，未完成的投递标记为失败，投递日志保留
+  async deleteWebhook(id: number): Promise<boolean> {
+    const [, result] = await this.db.batch([
+      this.db
+        .prepare(
+          `UPDATE webhook_deliveries SET status = 'failed', next_attempt_at = NULL,
+             last_error = 'webhook deleted'
+           WHERE webhook_id = ? AND status = 'pending'`
+        )
+        .bind(id),
+      this.db.prepare(`DELETE FROM webhooks WHERE id = ?`).bind(id),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  // 查询投递日志（按 id 倒序）
+  async listDeliveries(query: DeliveryQuery): Promise<WebhookDelivery[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.webhookId !== undefined) {
+      conditions.push("webhook_id = ?");
+      params.push(query.webhookId);
+    }
+    if (query.status) {
+      conditions.push("status = ?");
+      params.push(query.status);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM webhook_deliveries ${where} ORDER BY id DESC LIMIT ?`
+      )
+      .bind(...params, query.limit)
+      .all();
+    return (result.results as any[]).map(rowToDelivery);
+  }
+
+  // 为订阅了该事件的 Webhook 创建投递记录并立即尝试投递一次；
+  // webhookId 指定时只投递给该 Webhook（用于测试）
+  async dispatch(
+    event: WebhookEvent,
+    data: unknown,
+    webhookId?: number
+  ): Promise<number[]> {
+    const webhooks = (await this.listWebhooks()).filter((webhook) =>
+      webhookId !== undefined
+        ? webhook.id === webhookId
+        : webhook.enabled && webhook.events.includes(event)
+    );
+    if (webhooks.length === 0) {
+      return [];
+    }
+
+    const now = Date.now();
+    const payload = JSON.stringify({ event, timestamp: now, data });
+    const insert = this.db.prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, event, payload, next_attempt_at)
+      VALUES (?, ?, ?, ?)
+      RETURNING id
+    `);
+    const results = await this.db.batch<{ id: number }>(
+      webhooks.map((webhook) => insert.bind(webhook.id, event, payload, now))
+    );
+    const ids = results.map((result) => result.results[0].id);
+
+    await this.deliver(await this.getPendingDeliveries(now, ids), now);
+    return ids;
+  }
+
+  // 重试所有到期的投递，由定时任务调用
+  async deliverPending(now: number): Promise<void> {
+    await this.deliver(await this.getPendingDeliveries(now), now);
+  }
+
+  private async getPendingDeliveries(
+    now: number,
+    ids?: number[]
+  ): Promise<PendingDelivery[]> {
+    const idFilter = ids
+      ? `AND d.id IN (${ids.map(() => "?").join(", ")})`
+      : "";
+    const result = await this.db
+      .prepare(
+        `
+      SELECT d.id, d.event, d.payload, d.attempts, w.url, w.secret
+      FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= ? ${idFilter}
+      ORDER BY d.next_attempt_at ASC
+      LIMIT ?
+    `
+      )
+      .bind(now, ...(ids || []), RETRY_BATCH_SIZE)
+      .all();
+    return result.results as any[];
+  }
+
+  // 逐条投递并记录结果：2xx 为成功，其他状态码或网络错误按退避策略重试
+  private async deliver(
+    deliveries: PendingDelivery[],
+    now: number
+  ): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    const update = this.db.prepare(`
+      UPDATE webhook_deliveries SET
+        status = ?, attempts = ?, next_attempt_at = ?, last_status_code = ?,
+        last_error = ?, delivered_at = ?
+      WHERE id = ?
+    `);
+
+    const statements = await Promise.all(
+      deliveries.map(async (delivery) => {
+        const attempts = delivery.attempts + 1;
+        let statusCode: number | null = null;
+        let error: string | null = null;
+
+        try {
+          const timestamp = Date.now();
+          const signature = await signWebhookPayload(
+            delivery.secret,
+            timestamp,
+            delivery.payload
+          );
+          const response = await fetch(delivery.url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "X-Webhook-Event": delivery.event,
+              "X-Webhook-Delivery": String(delivery.id),
+              "X-Webhook-Timestamp": String(timestamp),
+              "X-Webhook-Signature": `sha256=${signature}`,
+            },
+            body: delivery.payload,
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+          });
+          statusCode = response.status;
+          if (!response.ok) {
+            error = `HTTP ${response.status}`;
+          }
+        } catch (err) {
+          error = getErrorMessage(err).slice(0, MAX_ERROR_LENGTH);
+        }
+
+        if (error === null) {
+          return update.bind(
+            "success",
+            attempts,
+            null,
+            statusCode,
+            null,
+            Date.now(),
+            delivery.id
+          );
+        }
+        const exhausted = attempts >= MAX_ATTEMPTS;
+        return update.bind(
+          exhausted ? "failed" : "pending",
+          attempts,
+          exhausted ? null : now + getRetryDelay(attempts),
+          statusCode,
+          error,
+          null,
+          delivery.id
+        );
+      })
+    );
+
+    await this.db.batch(statements);
+  }
+
+  // 记录设备上报：此前没有记录或已停止上报的设备触发 device.started
+  async recordReporting(
+    devices: { deviceId: string; timestamp: number }[]
+  ): Promise<void> {
+    const firstSeen = new Map<string, number>();
+    for (const { deviceId, timestamp } of devices) {
+      const current = firstSeen.get(deviceId);
+      if (current === undefined || timestamp < current) {
+        firstSeen.set(deviceId, timestamp);
+      }
+    }
+    const deviceIds = Array.from(firstSeen.keys());
+
+    const reporting = new Set<string>();
+    for (let i = 0; i < deviceIds.length; i += DEVICE_ID_CHUNK_SIZE) {
+      const chunk = deviceIds.slice(i, i + DEVICE_ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.db
+        .prepare(
+          `SELECT device_id FROM device_reporting
+           WHERE reporting = 1 AND device_id IN (${placeholders})`
+        )
+        .bind(...chunk)
+        .all();
+      (result.results as any[]).forEach((row) => reporting.add(row.device_id));
+    }
+
+    const started = deviceIds.filter((deviceId) => !reporting.has(deviceId));
+    if (started.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const upsert = this.db.prepare(`
+      INSERT INTO device_reporting (device_id, reporting, changed_at)
+      VALUES (?, 1, ?)
+      ON CONFLICT(device_id) DO UPDATE SET reporting = 1, changed_at = excluded.changed_at
+    `);
+    await this.db.batch(started.map((deviceId) => upsert.bind(deviceId, now)));
+
+    for (const deviceId of started) {
+      await this.dispatch("device.started", {
+        deviceId,
+        timestamp: firstSeen.get(deviceId),
+      });
+    }
+  }
+
+  // 检查正在上报的设备，超过 timeoutMs 未上报时触发 device.stopped，由定时任务调用
+  async checkStoppedDevices(now: number, timeoutMs: number): Promise<void> {
+    const result = await this.db
+      .prepare(`SELECT device_id FROM device_reporting WHERE reporting = 1`)
+      .all();
+    const reporting = new Set(
+      (result.results as any[]).map((row) => row.device_id as string)
+    );
+    if (reporting.size === 0) {
+      return;
+    }
+
+    const latest = await new DeviceStore(this.db).getLatestPerDevice();
+    const stopped = latest.filter(
+      (row) => reporting.has(row.device_id) && now - row.timestamp >= timeoutMs
+    );
+    if (stopped.length === 0) {
+      return;
+    }
+
+    const update = this.db.prepare(
+      `UPDATE device_reporting SET reporting = 0, changed_at = ? WHERE device_id = ?`
+    );
+    await this.db.batch(stopped.map((row) => update.bind(now, row.device_id)));
+
+    for (const row of stopped) {
+      await this.dispatch("device.stopped", {
+        deviceId: row.device_id,
+        lastSeen: row.timestamp,
+        silentMs: now - row.timestamp,
+        timeoutMs,
+      });
+    }
+  }
+}
@@ -1,4 +1,48 @@
-export interface UnityData {
+// 上报数据可声明的坐标系：Unity 左手系（x 东、y 上、z 北）、
+// 东北天 ENU（x 东、y 北、z 上）、北东地 NED（x 北、y 东、z 下）
+export type CoordinateFrame = "unity" | "enu" | "ned";
+
+export type SpeedUnit = "m/s" | "km/h" | "knots";
+export type DistanceUnit = "m" | "ft";
+export type AngleUnit = "deg" | "rad";
+
+// 上报数据各类物理量使用的单位
+export interface TelemetryUnits {
+  speed: SpeedUnit;
+  distance: DistanceUnit;
+  angle: AngleUnit;
+}
+
+// 页面显示使用的单位
+export interface DisplayUnits {
+  speed: SpeedUnit;
+  distance: DistanceUnit;
+}
+
+// 扩展遥测 extras 中允许的取值
+export type TelemetryExtraValue = number | string | boolean;
+
+// 可选的扩展遥测通道，设备未上报的通道不保存
+export interface TelemetryChannels {
+  // 电池电压（V）和剩余电量（0~100）
+  batteryVoltage?: number;
+  batteryPercent?: number;
+  // 参与定位的卫星数和水平精度因子
+  gpsSatellites?: number;
+  gpsHdop?: number;
+  // 链路信号强度（dBm）
+  rssi?: number;
+  // 飞控模式，如 MANUAL、LOITER、RTL
+  flightMode?: string;
+  // 是否已解锁
+  armed?: boolean;
+  // 其他自定义遥测，键为字母开头的字母、数字和下划线
+  extras?: Record<string, TelemetryExtraValue>;
+}
+
+// 校验后的样本已换算为 ENU 坐标系和标准单位（m/s、m、度），
+// frame 和 units 记录设备上报时声明的原始坐标系和单位
+export interface UnityData extends TelemetryChannels {
   deviceId: string;
   formattedTime: string;
   timestamp: number;
@@ -17,4 +61,445 @@ export interface UnityData {
   verticalSpeed: number;
   flightDirection: number;
   groundDistance: number;
+  frame: CoordinateFrame;
+  units: TelemetryUnits;
+}
+
+// unity_data 表中的一行数据（API 返回格式）
+export interface DroneData {
+  id: number;
+  device_id: string;
+  formatted_time: string;
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  pitch: number;
+  yaw: number;
+  roll: number;
+  speed: number;
+  // 速度向量，ENU 坐标系（x 东、y 北、z 上）
+  velocity_x: number;
+  velocity_y: number;
+  velocity_z: number;
+  horizontal_speed: number;
+  vertical_speed: number;
+  flight_direction: number;
+  ground_distance: number;
+  created_at: string;
+  // 上报时声明的坐标系和单位（JSON），单位为空表示标准单位；聚合数据没有这两项
+  source_frame?: CoordinateFrame;
+  source_units?: string | null;
+  // 扩展遥测通道，未上报时为 null；armed 为 0/1，extras 为 JSON；聚合数据没有这些列
+  battery_voltage?: number | null;
+  battery_percent?: number | null;
+  gps_satellites?: number | null;
+  gps_hdop?: number | null;
+  rssi?: number | null;
+  flight_mode?: string | null;
+  armed?: number | null;
+  extras?: string | null;
+  // 逗号分隔的质量标记原因，无标记时为 null
+  quality_flags?: string | null;
+}
+
+// 字段校验错误，path 为字段路径（如 "velocity.x"）
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult =
+  { valid: true; data: UnityData } | { valid: false; errors: FieldError[] };
+
+export type FlightStatus = "active" | "completed";
+
+// 飞行架次：同一设备一段连续的空中飞行
+export interface FlightSession {
+  id?: number;
+  deviceId: string;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  // 水平飞行距离（米）
+  distance: number;
+  maxAltitude: number;
+  maxSpeed: number;
+  sampleCount: number;
+  startLatitude: number;
+  startLongitude: number;
+  endLatitude: number;
+  endLongitude: number;
+  status: FlightStatus;
+}
+
+export type DeviceStatus = "online" | "stale" | "offline";
+
+// 设备在线状态阈值（毫秒）
+export interface HeartbeatThresholds {
+  // 超过该时长未上报视为 stale
+  heartbeatMs: number;
+  // 超过该时长未上报视为 offline
+  offlineMs: number;
+}
+
+// 设备注册信息（不包含密钥哈希）
+export interface DeviceInfo {
+  deviceId: string;
+  name: string | null;
+  model: string | null;
+  owner: string | null;
+  // 十六进制颜色，如 #2563eb
+  color: string | null;
+  notes: string | null;
+  enabled: boolean;
+  hasApiKey: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 创建/更新设备时可提交的字段
+export interface DeviceInput {
+  name?: string | null;
+  model?: string | null;
+  owner?: string | null;
+  color?: string | null;
+  notes?: string | null;
+  enabled?: boolean;
+}
+
+export type GeofenceShape = "polygon" | "circle";
+
+// restricted：禁止进入；allowed：不得离开；ceiling：区域内限高
+export type GeofenceMode = "restricted" | "allowed" | "ceiling";
+
+export type GeofenceViolationType =
+  "entered_restricted_zone" | "left_allowed_area" | "exceeded_ceiling";
+
+// 地理围栏；多边形顶点和圆心均为 [纬度, 经度]
+export interface Geofence {
+  id: number;
+  name: string;
+  shape: GeofenceShape;
+  mode: GeofenceMode;
+  polygon: [number, number][] | null;
+  center: [number, number] | null;
+  // 圆形半径（米）
+  radius: number | null;
+  // 限高（米，对应 ground_distance），为 null 时不限高
+  maxAltitude: number | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GeofenceInput = Omit<Geofence, "id" | "createdAt" | "updatedAt">;
+
+// 围栏违规事件：从进入违规状态开始，恢复正常时写入 endedAt
+export interface GeofenceEvent {
+  id: number;
+  deviceId: string;
+  geofenceId: number;
+  geofenceName: string | null;
+  type: GeofenceViolationType;
+  startedAt: number;
+  endedAt: number | null;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+// threshold：字段值与阈值比较；rate：字段每秒变化率与阈值比较；no_data：设备超过 durationMs 未上报
+export type AlertRuleKind = "threshold" | "rate" | "no_data";
+
+export type AlertOperator = "<" | "<=" | ">" | ">=";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+// 告警规则；field 使用 DroneData 的字段名（如 vertical_speed）
+export interface AlertRule {
+  id: number;
+  name: string;
+  kind: AlertRuleKind;
+  field: string | null;
+  // 比较前先取绝对值，即 abs(field)
+  absolute: boolean;
+  operator: AlertOperator | null;
+  threshold: number | null;
+  // 条件需持续的时长（毫秒）；no_data 规则为允许的最长静默时间，
+  // 由每分钟一次的心跳检查判断，告警最多延迟约 1 分钟
+  durationMs: number;
+  // 为 null 时适用于所有设备
+  deviceId: string | null;
+  severity: AlertSeverity;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertRuleInput = Omit<AlertRule, "id" | "createdAt" | "updatedAt">;
+
+// 告警记录：触发时为 open，确认后为 acknowledged，条件恢复或手动关闭后为 resolved
+export interface Alert {
+  id: number;
+  ruleId: number;
+  ruleName: string | null;
+  deviceId: string;
+  status: AlertStatus;
+  severity: AlertSeverity;
+  message: string;
+  value: number | null;
+  triggeredAt: number;
+  acknowledgedAt: number | null;
+  resolvedAt: number | null;
+}
+
+export type WebhookEvent =
+  "device.started" | "device.stopped" | "ingestion.rejected" | "webhook.test";
+
+// Webhook 订阅；签名密钥只在创建时返回一次
+export interface Webhook {
+  id: number;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookInput = Pick<Webhook, "url" | "events" | "enabled">;
+
+// pending：等待（重新）投递；success：收到 2xx；failed：重试次数用完
+export type WebhookDeliveryStatus = "pending" | "success" | "failed";
+
+// Webhook 投递记录
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  event: WebhookEvent;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: number | null;
+  createdAt: string;
+}
+
+// 数据分辨率：raw 为原始样本，1s/1m 为按秒/按分钟聚合的数据
+export type DataResolution = "raw" | "1s" | "1m";
+
+// 聚合数据行：数值字段为桶内平均值，timestamp 为桶的起始时间，
+// 另附样本数和速度、高度、姿态的最小/最大值
+export interface RollupData extends DroneData {
+  sample_count: number;
+  speed_min: number;
+  speed_max: number;
+  ground_distance_min: number;
+  ground_distance_max: number;
+  pitch_min: number;
+  pitch_max: number;
+  yaw_min: number;
+  yaw_max: number;
+  roll_min: number;
+  roll_max: number;
+}
+
+// 加速度/加加速度序列中的一个点
+export interface MotionPoint {
+  timestamp: number;
+  // 速度向量变化率的模（m/s²）
+  acceleration: number;
+  // 加速度变化率（m/s³）
+  jerk: number | null;
+}
+
+// 设备在一段时间内的衍生统计
+export interface FlightStats {
+  deviceId: string;
+  startTime: number | null;
+  endTime: number | null;
+  sampleCount: number;
+  durationMs: number;
+  // 水平距离（haversine，米）
+  distance: number;
+  // 计入离地高度变化的 3D 距离（米）
+  distance3d: number;
+  maxSpeed: number;
+  avgSpeed: number;
+  maxHorizontalSpeed: number;
+  avgHorizontalSpeed: number;
+  maxVerticalSpeed: number;
+  minVerticalSpeed: number;
+  maxAltitude: number;
+  // 累计爬升/下降高度（米）
+  climb: number;
+  descent: number;
+  // 离地高度超过起飞阈值的累计时间（毫秒）
+  airborneMs: number;
+  maxAcceleration: number;
+  maxJerk: number;
+}
+
+// 数据质量问题的原因代码
+export type QualityReason =
+  "gps_jump" | "timestamp_regression" | "speed_mismatch";
+
+// GET /api/flightdata 的质量过滤：all 全部、clean 排除有标记的样本、flagged 只返回有标记的样本
+export type QualityFilter = "all" | "clean" | "flagged";
+
+// 样本的一条质量标记
+export interface QualityFlag {
+  sampleId: number;
+  deviceId: string;
+  timestamp: number;
+  reason: QualityReason;
+  detail: string;
+}
+
+// 设备在一段时间内的数据质量汇总
+export interface DeviceQualitySummary {
+  deviceId: string;
+  sampleCount: number;
+  flaggedCount: number;
+  reasons: Partial<Record<QualityReason, number>>;
+}
+
+// 可下发给设备的命令：返航、降落、悬停、飞往航点、设置速度
+export type DeviceCommandType =
+  "return_home" | "land" | "hold" | "goto" | "set_speed";
+
+// pending：等待设备取走；delivered：已下发、等待确认（未确认前每次轮询都会重复下发）；
+// acknowledged：设备已接受并开始执行；completed / failed：设备报告执行结果；
+// rejected：设备拒绝执行；expired：超时未确认；cancelled：确认前被操作员取消
+export type DeviceCommandStatus =
+  | "pending"
+  | "delivered"
+  | "acknowledged"
+  | "completed"
+  | "failed"
+  | "rejected"
+  | "expired"
+  | "cancelled";
+
+// goto 的参数：目标位置、可选的高度（米）和速度（m/s）
+export interface GotoCommandParams {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  speed?: number;
+}
+
+// set_speed 的参数：目标速度（m/s）
+export interface SetSpeedCommandParams {
+  speed: number;
+}
+
+export type DeviceCommandParams = GotoCommandParams | SetSpeedCommandParams;
+
+export interface DeviceCommand {
+  id: number;
+  deviceId: string;
+  type: DeviceCommandType;
+  params: DeviceCommandParams | null;
+  status: DeviceCommandStatus;
+  issuedAt: number;
+  expiresAt: number;
+  deliveredAt: number | null;
+  acknowledgedAt: number | null;
+  completedAt: number | null;
+  // 设备回报的说明，如拒绝或失败原因
+  message: string | null;
+}
+
+export interface DeviceCommandInput {
+  deviceId: string;
+  type: DeviceCommandType;
+  params: DeviceCommandParams | null;
+  // 等待设备确认的时长（毫秒）
+  timeoutMs: number;
+}
+
+// 命令审计记录的操作方
+export type CommandActor = "operator" | "device" | "system";
+
+export interface DeviceCommandEvent {
+  id: number;
+  commandId: number;
+  status: DeviceCommandStatus;
+  actor: CommandActor;
+  message: string | null;
+  at: number;
+}
+
+// 航点：高度对应 ground_distance（米），speed 为飞往该航点的计划速度（m/s）
+export interface MissionWaypoint {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  speed: number;
+}
+
+// 航线任务：按顺序飞经的航点
+export interface Mission {
+  id: number;
+  name: string;
+  waypoints: MissionWaypoint[];
+  // 与航点水平距离不超过该值（米）视为到达
+  acceptanceRadius: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MissionInput = Omit<Mission, "id" | "createdAt" | "updatedAt">;
+
+// aborted：完成前被操作员中止或任务被删除
+export type MissionAssignmentStatus = "active" | "completed" | "aborted";
+
+// 任务分配给设备后的执行情况，由新上报的样本更新
+export interface MissionAssignment {
+  id: number;
+  missionId: number;
+  missionName: string | null;
+  deviceId: string;
+  status: MissionAssignmentStatus;
+  startedAt: number;
+  endedAt: number | null;
+  // 正在飞往的航点序号，等于航点数时表示已完成
+  nextWaypoint: number;
+  // 当前航段序号（从航点 currentLeg 飞往 currentLeg + 1），尚未到达第一个航点时为 null
+  currentLeg: number | null;
+  // 按航线长度计算的完成百分比（0~100）
+  progress: number;
+  // 偏航距离（米，航线右侧为正），尚未进入航段时为 null
+  crossTrackError: number | null;
+  // 高度与航段计划高度之差（米，偏高为正）
+  altitudeError: number | null;
+  // 与下一航点的水平距离（米）
+  distanceToWaypoint: number | null;
+  // 进入航段后偏航距离绝对值的最大值和均方根
+  maxCrossTrackError: number | null;
+  rmsCrossTrackError: number | null;
+  trackedSamples: number;
+  lastTimestamp: number | null;
+}
+
+// waypoint_missed：未到达该航点就到达了后一个航点
+export type MissionEventType =
+  "waypoint_reached" | "waypoint_missed" | "mission_completed";
+
+export interface MissionEvent {
+  id: number;
+  assignmentId: number;
+  deviceId: string;
+  type: MissionEventType;
+  waypointIndex: number | null;
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  // 事件发生时与航点的水平距离（米）
+  distance: number | null;
 }
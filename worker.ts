@@ -0,0 +1,12 @@
+// @ts-ignore `.open-next/worker.js` 由 opennextjs-cloudflare build 生成
+import { default as handler } from "./.open-next/worker.js";
+import { runScheduledTasks } from "./src/lib/scheduled";
+
+// 自定义 Worker 入口：HTTP 请求交给 OpenNext 处理，定时触发器执行后台任务
+export default {
+  fetch: handler.fetch,
+
+  async scheduled(controller, env, ctx) {
+    ctx.waitUntil(runScheduledTasks(env, controller.scheduledTime));
+  },
+} satisfies ExportedHandler<CloudflareEnv>;